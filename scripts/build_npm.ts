@@ -0,0 +1,113 @@
+#!/usr/bin/env -S deno run --allow-read --allow-write --allow-env
+/**
+ * @module
+ * Transpiles the TypeScript sources in ts/ for the npm package.
+ *
+ * JSR publishes the `.ts` files as-is; npm needs `.js` and `.d.ts` siblings.
+ * Each source is transpiled on its own (no type-check), with relative `.ts`
+ * imports rewritten to `.js`. Test files are skipped.
+ *
+ * @example Usage
+ * ```sh
+ * deno task build:npm
+ * # or: deno run -A scripts/build_npm.ts ts
+ * ```
+ */
+
+import { join } from "node:path";
+import ts from "typescript";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Compiler options shared by JavaScript and declaration output. */
+export const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  rewriteRelativeImportExtensions: true,
+  allowImportingTsExtensions: true,
+  removeComments: false,
+};
+
+/** Regex matching relative `.ts` module specifiers in import/export clauses. */
+export const RELATIVE_TS_IMPORT_RE =
+  /(from\s+|import\s*\(\s*)(["'])(\.{1,2}\/[^"']+)\.ts\2/g;
+
+// =============================================================================
+// Functions (exported for testing)
+// =============================================================================
+
+/** Returns true for files in ts/ that ship as compiled JavaScript. */
+export function isSourceFile(fileName: string): boolean {
+  return fileName.endsWith(".ts")
+    && !fileName.endsWith(".d.ts")
+    && !fileName.endsWith("_test.ts")
+    && !fileName.startsWith("_");
+}
+
+/** Rewrites relative `./x.ts` specifiers to `./x.js`. */
+export function rewriteImportExtensions(code: string): string {
+  return code.replace(RELATIVE_TS_IMPORT_RE, "$1$2$3.js$2");
+}
+
+/** Transpiles one TypeScript source to JavaScript and declarations. */
+export function transpileSource(
+  code: string,
+  fileName: string,
+): { js: string; dts: string } {
+  const js = ts.transpileModule(code, {
+    compilerOptions: COMPILER_OPTIONS,
+    fileName,
+  });
+  const dts = ts.transpileDeclaration(code, {
+    compilerOptions: COMPILER_OPTIONS,
+    fileName,
+    reportDiagnostics: true,
+  });
+
+  if (dts.diagnostics?.length) {
+    const messages = dts.diagnostics.map((d) => {
+      const text = ts.flattenDiagnosticMessageText(d.messageText, "\n");
+      if (!d.file || d.start === undefined) return `${fileName}: ${text}`;
+      const pos = d.file.getLineAndCharacterOfPosition(d.start);
+      return `${fileName}:${pos.line + 1}:${pos.character + 1}: ${text}`;
+    });
+    throw new Error(messages.join("\n"));
+  }
+
+  return {
+    js: rewriteImportExtensions(js.outputText),
+    dts: rewriteImportExtensions(dts.outputText),
+  };
+}
+
+/** Transpiles every source file in `dir`, writing output next to it. */
+export async function buildNpmPackage(dir: string): Promise<string[]> {
+  const written: string[] = [];
+
+  for await (const entry of Deno.readDir(dir)) {
+    if (!entry.isFile || !isSourceFile(entry.name)) continue;
+
+    const src = join(dir, entry.name);
+    const { js, dts } = transpileSource(await Deno.readTextFile(src), src);
+    const base = src.slice(0, -".ts".length);
+
+    await Deno.writeTextFile(`${base}.js`, js);
+    await Deno.writeTextFile(`${base}.d.ts`, dts);
+    written.push(`${base}.js`, `${base}.d.ts`);
+  }
+
+  return written.sort();
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+if (import.meta.main) {
+  const dir = Deno.args[0] ?? "ts";
+  for (const file of await buildNpmPackage(dir)) {
+    console.log(`Wrote ${file}`);
+  }
+}
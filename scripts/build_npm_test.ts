@@ -0,0 +1,62 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  isSourceFile,
+  rewriteImportExtensions,
+  transpileSource,
+} from "./build_npm.ts";
+
+// =============================================================================
+// isSourceFile tests
+// =============================================================================
+
+Deno.test("isSourceFile accepts module sources", () => {
+  assertEquals(isSourceFile("mod.ts"), true);
+  assertEquals(isSourceFile("formatter.ts"), true);
+});
+
+Deno.test("isSourceFile rejects tests, declarations and private files", () => {
+  assertEquals(isSourceFile("formatter_test.ts"), false);
+  assertEquals(isSourceFile("mod.d.ts"), false);
+  assertEquals(isSourceFile("_testing.ts"), false);
+  assertEquals(isSourceFile("mod.js"), false);
+  assertEquals(isSourceFile("plugin.wasm"), false);
+});
+
+// =============================================================================
+// rewriteImportExtensions tests
+// =============================================================================
+
+Deno.test("rewriteImportExtensions rewrites relative imports", () => {
+  assertEquals(
+    rewriteImportExtensions(`import { a } from "./a.ts";`),
+    `import { a } from "./a.js";`,
+  );
+  assertEquals(
+    rewriteImportExtensions(`export * from '../b.ts';`),
+    `export * from '../b.js';`,
+  );
+  assertEquals(
+    rewriteImportExtensions(`const m = await import("./c.ts");`),
+    `const m = await import("./c.js");`,
+  );
+});
+
+Deno.test("rewriteImportExtensions leaves bare and node specifiers", () => {
+  const code = `import { join } from "node:path";\nimport x from "pkg.ts";`;
+  assertEquals(rewriteImportExtensions(code), code);
+});
+
+// =============================================================================
+// transpileSource tests
+// =============================================================================
+
+Deno.test("transpileSource emits JavaScript and declarations", () => {
+  const { js, dts } = transpileSource(
+    `import type { A } from "./a.ts";\n`
+      + `export const id = (a: A): A => a;\n`,
+    "id.ts",
+  );
+  assertStringIncludes(js, "export const id = (a) => a;");
+  assertStringIncludes(dts, `from "./a.js"`);
+  assertStringIncludes(dts, "export declare const id: (a: A) => A;");
+});
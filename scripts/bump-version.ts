@@ -4,8 +4,8 @@
  * Version bump and git tag creation script for dprint-plugin-zig.
  *
  * Validates semver format, ensures version is newer than current,
- * updates build.zig.zon and README.md, commits changes, and creates
- * a signed annotated git tag.
+ * updates build.zig.zon, README.md, ts/version.ts and schema.json, commits
+ * changes, and creates a signed annotated git tag.
  *
  * @example Usage
  * ```sh
@@ -23,16 +23,22 @@
 import { parseArgs } from "@std/cli";
 import { greaterThan, parse as parseSemver } from "@std/semver";
 
+import { findZonField } from "../ts/zon.ts";
+import { renderSchema, SCHEMA_PATH } from "./generate_schema.ts";
+import { readZonVersion, VERSION_RE } from "./version_lib.ts";
+
+export { readZonVersion, VERSION_RE } from "./version_lib.ts";
+
 // =============================================================================
 // Constants & Types
 // =============================================================================
 
-/** Regex matching strict semver format (x.y.z). */
-export const VERSION_RE = /^\d+\.\d+\.\d+$/;
-
 /** Regex extracting version from build.zig.zon `.version = "x.y.z"` field. */
 export const ZON_VERSION_RE = /\.version\s*=\s*"(\d+\.\d+\.\d+)"/;
 
+/** Regex extracting version from ts/version.ts `VERSION = "x.y.z"` constant. */
+export const TS_VERSION_RE = /VERSION = "(\d+\.\d+\.\d+)"/;
+
 /** URL pattern prefix for plugin in README.md. */
 export const README_URL_PATTERN = "https://plugins.dprint.dev/kjanat/zig-";
 
@@ -74,16 +80,27 @@ function warn(msg: string): void {
 // Version helpers (exported for testing)
 // =============================================================================
 
-/** Extracts version string from build.zig.zon content. */
-export function readZonVersion(content: string): string {
-  const match = content.match(ZON_VERSION_RE);
-  if (!match) throw new Error("Could not parse version from build.zig.zon");
+/**
+ * Returns build.zig.zon content with the package's own (top-level) version
+ * replaced; comments and dependencies' versions are left alone.
+ */
+export function updateZonVersion(content: string, newVersion: string): string {
+  const span = findZonField(content, "version");
+  if (!span) throw new Error("Could not find .version in build.zig.zon");
+  return content.slice(0, span.start) + `"${newVersion}"`
+    + content.slice(span.end);
+}
+
+/** Extracts version string from ts/version.ts content. */
+export function readTsVersion(content: string): string {
+  const match = content.match(TS_VERSION_RE);
+  if (!match) throw new Error("Could not parse VERSION from ts/version.ts");
   return match[1];
 }
 
-/** Returns build.zig.zon content with version replaced. */
-export function updateZonVersion(content: string, newVersion: string): string {
-  return content.replace(ZON_VERSION_RE, `.version = "${newVersion}"`);
+/** Returns ts/version.ts content with VERSION replaced. */
+export function updateTsVersion(content: string, newVersion: string): string {
+  return content.replace(TS_VERSION_RE, `VERSION = "${newVersion}"`);
 }
 
 /** Returns README.md content with plugin URL version replaced. */
@@ -154,7 +171,10 @@ async function createSignedTag(
 }
 
 async function commitChanges(version: string): Promise<void> {
-  await run(["git", "add", "build.zig.zon", "README.md"], { check: true });
+  await run(
+    ["git", "add", "build.zig.zon", "README.md", "ts/version.ts", SCHEMA_PATH],
+    { check: true },
+  );
   await run(["git", "commit", "-m", `release: ${version}`], { check: true });
 }
 
@@ -197,10 +217,14 @@ Options:
   // Read current state
   const zonPath = "build.zig.zon";
   const readmePath = "README.md";
+  const tsVersionPath = "ts/version.ts";
   const zonContent = await Deno.readTextFile(zonPath);
   const readmeContent = await Deno.readTextFile(readmePath);
+  const tsVersionContent = await Deno.readTextFile(tsVersionPath);
   const currentVersion = readZonVersion(zonContent);
   const readmeVersion = getReadmeVersion(readmeContent);
+  const tsVersion = readTsVersion(tsVersionContent);
+  const schemaContent = await Deno.readTextFile(SCHEMA_PATH);
 
   // Determine target version
   let targetVersion: string;
@@ -233,9 +257,14 @@ Options:
   // Determine what needs updating
   const needsZonUpdate = targetVersion !== currentVersion;
   const needsReadmeUpdate = readmeVersion !== targetVersion;
+  const needsTsUpdate = tsVersion !== targetVersion;
+  const needsSchemaUpdate = schemaContent !== renderSchema(targetVersion);
   const needsTag = !tagAlreadyExists || force;
 
-  if (!needsZonUpdate && !needsReadmeUpdate && !needsTag) {
+  if (
+    !needsZonUpdate && !needsReadmeUpdate && !needsTsUpdate
+    && !needsSchemaUpdate && !needsTag
+  ) {
     warn("Nothing to do: version already matches and tag exists.");
     Deno.exit(0);
   }
@@ -261,6 +290,19 @@ Options:
     filesChanged = true;
   }
 
+  if (needsTsUpdate) {
+    const newTs = updateTsVersion(tsVersionContent, targetVersion);
+    await Deno.writeTextFile(tsVersionPath, newTs);
+    console.log(`Updated ${tsVersionPath}: ${tsVersion} -> ${targetVersion}`);
+    filesChanged = true;
+  }
+
+  if (needsSchemaUpdate) {
+    await Deno.writeTextFile(SCHEMA_PATH, renderSchema(targetVersion));
+    console.log(`Updated ${SCHEMA_PATH}: $id -> ${targetVersion}`);
+    filesChanged = true;
+  }
+
   // Commit if files changed
   if (filesChanged) {
     await commitChanges(targetVersion);
@@ -4,8 +4,11 @@ import {
   isValidVersion,
   isVersionNewer,
   README_URL_PATTERN,
+  readTsVersion,
   readZonVersion,
+  TS_VERSION_RE,
   updateReadmeVersion,
+  updateTsVersion,
   updateZonVersion,
   VERSION_RE,
   ZON_VERSION_RE,
@@ -21,6 +24,10 @@ const SAMPLE_ZON = `.{
     .fingerprint = 0xe08d37d8804049ec,
 }`;
 
+const SAMPLE_TS_VERSION = `/** Package version. */
+export const VERSION = "1.2.3";
+`;
+
 const SAMPLE_README = `# Plugin
 
 Install:
@@ -117,6 +124,15 @@ Deno.test("readZonVersion throws on missing version", () => {
   );
 });
 
+Deno.test("readZonVersion ignores versions in comments and nested structs", () => {
+  const zon = `.{
+    // .version = "9.9.9",
+    .dependencies = .{ .dep = .{ .version = "8.8.8" } },
+    .version = "1.2.3",
+}`;
+  assertEquals(readZonVersion(zon), "1.2.3");
+});
+
 // =============================================================================
 // updateZonVersion tests
 // =============================================================================
@@ -130,9 +146,65 @@ Deno.test("updateZonVersion replaces version", () => {
 });
 
 Deno.test("updateZonVersion preserves structure", () => {
-  const original = ".version = \"0.0.1\",\n    .other = \"value\"";
+  const original = ".{\n    .version = \"0.0.1\",\n    .other = \"value\"\n}";
   const updated = updateZonVersion(original, "1.0.0");
-  assertEquals(updated, ".version = \"1.0.0\",\n    .other = \"value\"");
+  assertEquals(
+    updated,
+    ".{\n    .version = \"1.0.0\",\n    .other = \"value\"\n}",
+  );
+});
+
+Deno.test("updateZonVersion skips comments and dependency versions", () => {
+  const original = `.{
+    // .version = "0.0.0",
+    .dependencies = .{
+        .dep = .{ .url = "x", .version = "9.9.9" },
+    },
+    .version = "1.2.3",
+}`;
+  assertEquals(
+    updateZonVersion(original, "2.0.0"),
+    original.replace("\"1.2.3\"", "\"2.0.0\""),
+  );
+});
+
+Deno.test("updateZonVersion throws without a top-level version", () => {
+  assertThrows(
+    () => updateZonVersion(".{ .dep = .{ .version = \"1.0.0\" } }", "2.0.0"),
+    Error,
+    "Could not find .version",
+  );
+});
+
+// =============================================================================
+// ts/version.ts tests
+// =============================================================================
+
+Deno.test("TS_VERSION_RE extracts version from ts/version.ts", () => {
+  assertEquals(SAMPLE_TS_VERSION.match(TS_VERSION_RE)?.[1], "1.2.3");
+});
+
+Deno.test("readTsVersion throws on missing VERSION", () => {
+  assertThrows(
+    () => readTsVersion("export const OTHER = 1;"),
+    Error,
+    "Could not parse VERSION",
+  );
+});
+
+Deno.test("updateTsVersion replaces only the version", () => {
+  assertEquals(
+    updateTsVersion(SAMPLE_TS_VERSION, "2.0.0"),
+    SAMPLE_TS_VERSION.replace("1.2.3", "2.0.0"),
+  );
+});
+
+Deno.test("ts/version.ts matches build.zig.zon", async () => {
+  const root = new URL("../", import.meta.url);
+  assertEquals(
+    readTsVersion(await Deno.readTextFile(new URL("ts/version.ts", root))),
+    readZonVersion(await Deno.readTextFile(new URL("build.zig.zon", root))),
+  );
 });
 
 // =============================================================================
@@ -218,22 +290,26 @@ Deno.test("isVersionNewer returns false for equal versions", () => {
 // Integration-style tests
 // =============================================================================
 
-Deno.test("full workflow: update both files", () => {
+Deno.test("full workflow: update all files", () => {
   const zonContent = SAMPLE_ZON;
   const readmeContent = SAMPLE_README;
+  const tsContent = SAMPLE_TS_VERSION;
   const newVersion = "3.0.0";
 
   // Verify starting state
   assertEquals(readZonVersion(zonContent), "1.2.3");
   assertEquals(getReadmeVersion(readmeContent), "1.2.3");
+  assertEquals(readTsVersion(tsContent), "1.2.3");
 
-  // Update both
+  // Update all
   const newZon = updateZonVersion(zonContent, newVersion);
   const newReadme = updateReadmeVersion(readmeContent, newVersion);
+  const newTs = updateTsVersion(tsContent, newVersion);
 
   // Verify end state
   assertEquals(readZonVersion(newZon), "3.0.0");
   assertEquals(getReadmeVersion(newReadme), "3.0.0");
+  assertEquals(readTsVersion(newTs), "3.0.0");
 });
 
 Deno.test("version comparison chain", () => {
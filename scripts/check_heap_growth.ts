@@ -0,0 +1,383 @@
+#!/usr/bin/env -S deno run --allow-read
+/**
+ * @module
+ * Heap growth detector for plugin.wasm.
+ *
+ * The plugin's bump allocator only reclaims memory above `heap_reset_point`,
+ * which `register_config` and buffer growth move forward. A long-lived host
+ * (the dprint daemon, the LSP) calls the same exports for hours, so anything
+ * kept below that point adds up. This script drives a fresh instance through
+ * each export sequence thousands of times, records `memory.buffer.byteLength`
+ * after every call and fails when a sequence grows memory by more than the
+ * budget after warm-up. The report names the sequence and the call that grew.
+ * Sequences with a `knownLeak` are reported but do not fail the check;
+ * `--strict` fails on them too.
+ *
+ * Memory grows in 64 KiB pages and the plugin starts with 1 MiB of heap, so a
+ * leak only shows once `iterations * payload` is well past that.
+ *
+ * @example Usage
+ * ```sh
+ * # Run every sequence (needs `zig build`)
+ * deno task heap
+ *
+ * # More iterations, a tighter budget
+ * deno run -A scripts/check_heap_growth.ts --iterations 20000 --budget 0
+ *
+ * # Also fail on the known leaks
+ * deno run -A scripts/check_heap_growth.ts --strict
+ * ```
+ */
+
+import { parseArgs } from "@std/cli";
+import { readFileSync } from "node:fs";
+
+// =============================================================================
+// Constants & Types
+// =============================================================================
+
+/** Plugin used by default, as built by `zig build`. */
+export const DEFAULT_WASM = "zig-out/bin/plugin.wasm";
+
+/** Cycles per sequence after warm-up. */
+export const DEFAULT_ITERATIONS = 2000;
+
+/** Cycles run before the baseline is taken (first-use allocations). */
+export const DEFAULT_WARMUP = 20;
+
+/** Growth allowed per sequence, in bytes: one Wasm page. */
+export const DEFAULT_BUDGET: number = 64 * 1024;
+
+/** Bytes of padding in each path, config and source sent to the plugin. */
+export const DEFAULT_PAYLOAD: number = 1024;
+
+/** The exports the sequences call (part of the dprint schema v4 ABI). */
+export type HeapExports = {
+  memory: WebAssembly.Memory;
+  clear_shared_bytes(size: number): number;
+  register_config(configId: number): void;
+  release_config(configId: number): void;
+  set_file_path(): void;
+  set_override_config(): void;
+  format(configId: number): number;
+  get_formatted_text(): number;
+  get_error_text(): number;
+};
+
+/** Name of a callable export. */
+export type ExportName = Exclude<keyof HeapExports, "memory">;
+
+/**
+ * One export call. When `send` is set, it is written to the shared buffer
+ * first (`clear_shared_bytes` plus a copy), as the host does.
+ */
+export type HeapStep = { call: ExportName; args?: number[]; send?: string };
+
+/**
+ * Export calls repeated as one cycle. `knownLeak` says why the plugin is
+ * expected to grow on this sequence; such growth is reported, not failed.
+ */
+export type HeapSequence = {
+  name: string;
+  steps: HeapStep[];
+  knownLeak?: string;
+};
+
+/** Growth measured for one sequence. */
+export type SequenceReport = {
+  name: string;
+  /** Step labels, e.g. `register_config(2)`. */
+  steps: string[];
+  /** `memory.buffer.byteLength` after warm-up. */
+  baseline: number;
+  /** `memory.buffer.byteLength` after the last cycle. */
+  final: number;
+  /** Bytes gained during the call to each step, summed over all cycles. */
+  growthByStep: number[];
+  /** `memory.buffer.byteLength` after each cycle. */
+  samples: number[];
+  /** Whether `final - baseline` exceeds the budget. */
+  leaked: boolean;
+  /** The sequence's `knownLeak`, if any. */
+  knownLeak?: string;
+};
+
+/** Result of `checkHeapGrowth`. */
+export type HeapReport = {
+  iterations: number;
+  budget: number;
+  sequences: SequenceReport[];
+};
+
+/** Options for `checkHeapGrowth`. */
+export type CheckHeapGrowthOptions = {
+  /** Creates a fresh plugin instance; called once per sequence. */
+  instantiate: () => HeapExports;
+  /** Defaults to `defaultSequences`. */
+  sequences?: HeapSequence[];
+  /** Defaults to `DEFAULT_ITERATIONS`. */
+  iterations?: number;
+  /** Defaults to `DEFAULT_WARMUP`. */
+  warmup?: number;
+  /** Defaults to `DEFAULT_BUDGET`. */
+  budget?: number;
+};
+
+const encoder = new TextEncoder();
+
+// =============================================================================
+// Sequences
+// =============================================================================
+
+/**
+ * Returns the export sequences a host performs, each padded with `payload`
+ * bytes so a per-cycle leak of that data crosses a page quickly.
+ */
+export function defaultSequences(
+  payload: number = DEFAULT_PAYLOAD,
+): HeapSequence[] {
+  const pad = "a".repeat(payload);
+  const path = `src/${pad}.zig`;
+  const config = JSON.stringify({ plugin: { pad }, global: {} });
+  const formatted = `// ${pad}\nconst a = 1;\n`;
+  const unformatted = `// ${pad}\nconst a=1;\n`;
+  const setPath: HeapStep = { call: "set_file_path", send: path };
+
+  return [
+    {
+      name: "format (changed)",
+      steps: [
+        setPath,
+        { call: "format", args: [1], send: unformatted },
+        { call: "get_formatted_text" },
+      ],
+    },
+    {
+      name: "format (no change)",
+      steps: [setPath, { call: "format", args: [1], send: formatted }],
+    },
+    {
+      name: "format (parse error)",
+      steps: [
+        setPath,
+        { call: "format", args: [1], send: `// ${pad}\nconst a = ;\n` },
+        { call: "get_error_text" },
+      ],
+    },
+    {
+      name: "format ZON",
+      steps: [
+        { call: "set_file_path", send: `src/${pad}.zon` },
+        { call: "format", args: [1], send: `.{.pad="${pad}"}\n` },
+        { call: "get_formatted_text" },
+      ],
+    },
+    {
+      name: "format with override config",
+      steps: [
+        setPath,
+        { call: "set_override_config", send: config },
+        { call: "format", args: [1], send: unformatted },
+      ],
+    },
+    {
+      name: "set_file_path without format",
+      steps: [setPath],
+      knownLeak: "each path is kept until the next format() resets the heap",
+    },
+    {
+      name: "register_config/release_config",
+      steps: [
+        { call: "register_config", args: [2], send: config },
+        { call: "release_config", args: [2] },
+      ],
+    },
+  ];
+}
+
+/** Formats a step as its export call, e.g. `format(1)`. */
+export function stepLabel(step: HeapStep): string {
+  return `${step.call}(${(step.args ?? []).join(", ")})`;
+}
+
+// =============================================================================
+// Measurement
+// =============================================================================
+
+/** Instantiates `wasm` with host imports that embed nothing and never cancel. */
+export function instantiatePlugin(wasm: BufferSource): HeapExports {
+  const module = new WebAssembly.Module(wasm);
+  const instance = new WebAssembly.Instance(module, {
+    dprint: {
+      host_write_buffer: () => {},
+      host_format: () => 0,
+      host_get_formatted_text: () => 0,
+      host_get_error_text: () => 0,
+      host_has_cancelled: () => 0,
+    },
+  });
+  return instance.exports as unknown as HeapExports;
+}
+
+function runStep(plugin: HeapExports, step: HeapStep): void {
+  if (step.send !== undefined) {
+    const bytes = encoder.encode(step.send);
+    const ptr = plugin.clear_shared_bytes(bytes.length);
+    new Uint8Array(plugin.memory.buffer, ptr, bytes.length).set(bytes);
+  }
+  const call = plugin[step.call] as (...args: number[]) => unknown;
+  call(...(step.args ?? []));
+}
+
+/**
+ * Runs each sequence on a fresh instance and measures how much memory it
+ * gains after warm-up. Config 1 is registered first, as a host would.
+ */
+export function checkHeapGrowth(options: CheckHeapGrowthOptions): HeapReport {
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const warmup = options.warmup ?? DEFAULT_WARMUP;
+  const budget = options.budget ?? DEFAULT_BUDGET;
+  const sequences: SequenceReport[] = [];
+
+  for (const sequence of options.sequences ?? defaultSequences()) {
+    const plugin = options.instantiate();
+    const size = () => plugin.memory.buffer.byteLength;
+    runStep(plugin, { call: "register_config", args: [1], send: "{}" });
+    for (let i = 0; i < warmup; i++) {
+      for (const step of sequence.steps) runStep(plugin, step);
+    }
+
+    const baseline = size();
+    const growthByStep = sequence.steps.map(() => 0);
+    const samples: number[] = [];
+    for (let i = 0; i < iterations; i++) {
+      sequence.steps.forEach((step, index) => {
+        const before = size();
+        runStep(plugin, step);
+        growthByStep[index] += size() - before;
+      });
+      samples.push(size());
+    }
+
+    const final = size();
+    sequences.push({
+      name: sequence.name,
+      steps: sequence.steps.map(stepLabel),
+      baseline,
+      final,
+      growthByStep,
+      samples,
+      leaked: final - baseline > budget,
+      ...(sequence.knownLeak !== undefined
+        && { knownLeak: sequence.knownLeak }),
+    });
+  }
+
+  return { iterations, budget, sequences };
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+}
+
+/** Leaking sequences that fail the check: all of them with `strict`. */
+export function failedSequences(
+  report: HeapReport,
+  strict = false,
+): SequenceReport[] {
+  return report.sequences.filter((s) =>
+    s.leaked && (strict || s.knownLeak === undefined)
+  );
+}
+
+/**
+ * Formats `report`: one line per sequence, and for each leaking sequence the
+ * calls that grew memory. Known leaks are marked with their reason.
+ */
+export function formatReport(report: HeapReport): string {
+  const leaks = report.sequences.filter((s) => s.leaked);
+  const known = leaks.filter((s) => s.knownLeak !== undefined).length;
+  const lines = [
+    `${report.sequences.length} sequences x ${report.iterations} iterations `
+    + `(budget ${formatBytes(report.budget)}): ${leaks.length} leaking`
+    + (known > 0 ? ` (${known} known)` : ""),
+  ];
+  for (const sequence of report.sequences) {
+    const growth = sequence.final - sequence.baseline;
+    const status = sequence.leaked ? "LEAK" : "ok  ";
+    let line = `  ${status}  ${sequence.name}: +${formatBytes(growth)}`;
+    if (sequence.leaked) {
+      const perCycle = Math.round(growth / report.iterations);
+      line += ` (~${formatBytes(perCycle)} per cycle)`;
+      if (sequence.knownLeak) line += ` [known: ${sequence.knownLeak}]`;
+    }
+    lines.push(line);
+    if (!sequence.leaked) continue;
+    sequence.steps.forEach((label, index) => {
+      const grown = sequence.growthByStep[index];
+      if (grown > 0) lines.push(`          ${label}: +${formatBytes(grown)}`);
+    });
+  }
+  return lines.join("\n");
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+function main() {
+  const args = parseArgs(Deno.args, {
+    string: ["wasm", "iterations", "warmup", "budget", "payload"],
+    boolean: ["help", "strict"],
+    alias: { n: "iterations", h: "help" },
+  });
+
+  if (args.help) {
+    console.log(
+      `Usage: check_heap_growth.ts [options]
+
+Options:
+  -n, --iterations  Cycles per sequence (default: ${DEFAULT_ITERATIONS})
+  --warmup          Cycles before the baseline (default: ${DEFAULT_WARMUP})
+  --budget          Bytes a sequence may grow (default: ${DEFAULT_BUDGET})
+  --payload         Bytes of padding per path, config and source
+                    (default: ${DEFAULT_PAYLOAD})
+  --wasm            Plugin to test (default: ${DEFAULT_WASM})
+  --strict          Also fail on known leaks
+  -h, --help        Show this help`,
+    );
+    Deno.exit(0);
+  }
+
+  const number = (value: string | undefined, fallback: number) => {
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      console.error(`Expected a non-negative integer, got: ${value}`);
+      Deno.exit(1);
+    }
+    return parsed;
+  };
+
+  const wasm = readFileSync(args.wasm ?? DEFAULT_WASM);
+  const report = checkHeapGrowth({
+    instantiate: () => instantiatePlugin(wasm),
+    sequences: defaultSequences(number(args.payload, DEFAULT_PAYLOAD)),
+    iterations: number(args.iterations, DEFAULT_ITERATIONS),
+    warmup: number(args.warmup, DEFAULT_WARMUP),
+    budget: number(args.budget, DEFAULT_BUDGET),
+  });
+  console.log(formatReport(report));
+  Deno.exit(failedSequences(report, args.strict).length > 0 ? 1 : 0);
+}
+
+// Only run main when executed directly (not imported for tests)
+if (import.meta.main) {
+  main();
+}
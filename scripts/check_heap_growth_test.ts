@@ -0,0 +1,135 @@
+import { assertEquals } from "@std/assert";
+import { readFileSync } from "node:fs";
+import { HAS_WASM, WASM_PATH } from "../ts/_testing.ts";
+import {
+  checkHeapGrowth,
+  defaultSequences,
+  failedSequences,
+  formatReport,
+  type HeapExports,
+  instantiatePlugin,
+  stepLabel,
+} from "./check_heap_growth.ts";
+
+const PAGE = 64 * 1024;
+
+/**
+ * Stand-in plugin whose `register_config` keeps one page per call and whose
+ * other exports allocate nothing.
+ */
+function leakyPlugin(): HeapExports {
+  const memory = new WebAssembly.Memory({ initial: 1 });
+  const noop = () => 0;
+  return {
+    memory,
+    clear_shared_bytes: noop,
+    register_config: () => void memory.grow(1),
+    release_config: noop,
+    set_file_path: noop,
+    set_override_config: noop,
+    format: noop,
+    get_formatted_text: noop,
+    get_error_text: noop,
+  };
+}
+
+Deno.test("stepLabel shows the export call", () => {
+  assertEquals(
+    stepLabel({ call: "format", args: [1], send: "x" }),
+    "format(1)",
+  );
+  assertEquals(stepLabel({ call: "set_file_path" }), "set_file_path()");
+});
+
+Deno.test("checkHeapGrowth attributes growth to the leaking call", () => {
+  const report = checkHeapGrowth({
+    instantiate: leakyPlugin,
+    sequences: [
+      { name: "format", steps: [{ call: "format", args: [1] }] },
+      {
+        name: "configs",
+        steps: [
+          { call: "register_config", args: [2], send: "{}" },
+          { call: "release_config", args: [2] },
+        ],
+      },
+    ],
+    iterations: 4,
+    warmup: 1,
+    budget: PAGE,
+  });
+
+  const [format, configs] = report.sequences;
+  assertEquals(format.leaked, false);
+  assertEquals(format.final - format.baseline, 0);
+  assertEquals(configs.leaked, true);
+  assertEquals(configs.growthByStep, [4 * PAGE, 0]);
+  assertEquals(configs.samples.map((s) => (s - configs.baseline) / PAGE), [
+    1,
+    2,
+    3,
+    4,
+  ]);
+  assertEquals(
+    formatReport(report),
+    `2 sequences x 4 iterations (budget 64.0 KiB): 1 leaking
+  ok    format: +0 B
+  LEAK  configs: +256.0 KiB (~64.0 KiB per cycle)
+          register_config(2): +256.0 KiB`,
+  );
+});
+
+Deno.test("known leaks are reported but only fail in strict mode", () => {
+  const report = checkHeapGrowth({
+    instantiate: leakyPlugin,
+    sequences: [{
+      name: "configs",
+      steps: [{ call: "register_config", args: [2], send: "{}" }],
+      knownLeak: "configs are kept",
+    }],
+    iterations: 2,
+    warmup: 1,
+    budget: 0,
+  });
+
+  assertEquals(report.sequences[0].leaked, true);
+  assertEquals(failedSequences(report), []);
+  assertEquals(failedSequences(report, true), report.sequences);
+  assertEquals(
+    formatReport(report),
+    `1 sequences x 2 iterations (budget 0 B): 1 leaking (1 known)
+  LEAK  configs: +128.0 KiB (~64.0 KiB per cycle) [known: configs are kept]
+          register_config(2): +128.0 KiB`,
+  );
+});
+
+Deno.test({
+  name: "the built plugin only leaks on known sequences",
+  ignore: !HAS_WASM,
+  fn() {
+    const wasm = readFileSync(WASM_PATH!);
+    const report = checkHeapGrowth({
+      instantiate: () => instantiatePlugin(wasm),
+      sequences: defaultSequences(256),
+      iterations: 1500,
+    });
+    assertEquals(failedSequences(report), []);
+  },
+});
+
+Deno.test({
+  name: "formatting stays within budget with the built plugin",
+  ignore: !HAS_WASM,
+  fn() {
+    const wasm = readFileSync(WASM_PATH!);
+    const report = checkHeapGrowth({
+      instantiate: () => instantiatePlugin(wasm),
+      sequences: defaultSequences(256).filter((s) =>
+        s.name.startsWith("format")
+      ),
+      iterations: 200,
+    });
+    assertEquals(report.sequences.length, 5);
+    assertEquals(report.sequences.filter((s) => s.leaked), []);
+  },
+});
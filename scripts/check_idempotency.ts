@@ -0,0 +1,423 @@
+#!/usr/bin/env -S deno run --allow-read --allow-write
+/**
+ * @module
+ * Idempotency and round-trip check over a corpus of Zig and ZON files.
+ *
+ * Formats every `.zig`/`.zon` file twice with the plugin and reports files
+ * where the second pass changes the output (`format(format(x)) !== format(x)`)
+ * and files whose token stream changes apart from whitespace and comments.
+ * Each problem is reduced, line by line, to a minimal input that still shows
+ * it. Files that do not parse are listed but are not problems.
+ *
+ * @example Usage
+ * ```sh
+ * # Check the corpus checked into the repo (needs `zig build`)
+ * deno task idempotency
+ *
+ * # Check other directories and save the minimal inputs
+ * deno run -A scripts/check_idempotency.ts ~/src/zig/lib/std --out /tmp/min
+ * ```
+ */
+
+import { parseArgs } from "@std/cli";
+import { readFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, join, relative } from "node:path";
+
+import { createUnifiedDiff } from "../ts/diff.ts";
+import { collectFiles } from "../ts/files.ts";
+import {
+  createFormatter,
+  type FormatResult,
+  type Formatter,
+} from "../ts/formatter.ts";
+
+// =============================================================================
+// Constants & Types
+// =============================================================================
+
+/** Corpus checked by default, relative to the repository root. */
+export const DEFAULT_CORPUS = "tests/corpus";
+
+/** Plugin used by default, as built by `zig build`. */
+export const DEFAULT_WASM = "zig-out/bin/plugin.wasm";
+
+/** Zig operators and punctuation, longest first for maximal munch. */
+const PUNCTUATORS = [
+  "<<|=",
+  "...",
+  "<<=",
+  "<<|",
+  ">>=",
+  "+%=",
+  "+|=",
+  "-%=",
+  "-|=",
+  "*%=",
+  "*|=",
+  ".*",
+  ".?",
+  "..",
+  "=>",
+  "==",
+  "!=",
+  "<<",
+  "<=",
+  ">>",
+  ">=",
+  "+%",
+  "+|",
+  "++",
+  "+=",
+  "-%",
+  "-|",
+  "-=",
+  "->",
+  "*%",
+  "*|",
+  "**",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "||",
+];
+
+const IDENTIFIER_RE = /@?[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER_RE =
+  /0x[0-9a-fA-F_]+(?:\.[0-9a-fA-F_]+)?(?:[pP][-+]?[0-9_]+)?|0o[0-7_]+|0b[01_]+|[0-9][0-9_]*(?:\.[0-9][0-9_]*)?(?:[eE][-+]?[0-9_]+)?/y;
+const PLAIN_NAME_RE = /^@"([A-Za-z_][A-Za-z0-9_]*)"$/;
+
+/** A token of Zig source, for comparing input and output. */
+export type Token = {
+  /** Token text (doc comments without trailing whitespace). */
+  text: string;
+  /** 1-based line of the token. */
+  line: number;
+};
+
+/** What is wrong with a formatted file. */
+export type ProblemKind =
+  | "not_idempotent"
+  | "second_pass_error"
+  | "tokens_changed";
+
+/** A problem found in one file. */
+export type FileProblem = {
+  kind: ProblemKind;
+  /** Human-readable explanation (a diff for `not_idempotent`). */
+  detail: string;
+};
+
+/** A problem with the file it was found in and its minimal reproduction. */
+export type CorpusProblem = FileProblem & {
+  path: string;
+  /** Smallest input, by removing lines, that still shows `kind`. */
+  minimal: string;
+};
+
+/** Result of {@link checkCorpus}. */
+export type CorpusReport = {
+  /** Number of files checked. */
+  checked: number;
+  /** Files that did not parse, with the plugin's error text. */
+  skipped: { path: string; message: string }[];
+  problems: CorpusProblem[];
+};
+
+/** The part of {@link Formatter} the harness uses. */
+export type CorpusFormatter = Pick<Formatter, "formatText">;
+
+/** Options for {@link checkCorpus}. */
+export type CheckCorpusOptions = {
+  /** Formatter to use. Default: one backed by {@link DEFAULT_WASM}. */
+  formatter?: CorpusFormatter;
+  /** Directory that relative patterns resolve against. Default: `cwd`. */
+  cwd?: string;
+  /** Reduce each problem to a minimal input. Default: true. */
+  minimize?: boolean;
+};
+
+// =============================================================================
+// Tokens
+// =============================================================================
+
+/**
+ * Splits Zig or ZON source into tokens, dropping whitespace and comments.
+ * Doc comments (`///`, `//!`) are tokens in Zig and are kept. `@"name"` is
+ * read as `name` when the quotes are not needed, as zig fmt removes them.
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+
+  const lineEnd = () => {
+    const end = source.indexOf("\n", pos);
+    return end === -1 ? source.length : end;
+  };
+  const sticky = (re: RegExp) => {
+    re.lastIndex = pos;
+    return re.exec(source)?.[0];
+  };
+
+  while (pos < source.length) {
+    const c = source[pos];
+    if (c === "\n") {
+      line++;
+      pos++;
+      continue;
+    }
+    if (c === " " || c === "\t" || c === "\r") {
+      pos++;
+      continue;
+    }
+
+    let text: string;
+    if (source.startsWith("//", pos)) {
+      const end = lineEnd();
+      const comment = source.slice(pos, end).trimEnd();
+      pos = end;
+      const isDoc = comment.startsWith("//!")
+        || (comment.startsWith("///") && !comment.startsWith("////"));
+      if (isDoc) tokens.push({ text: comment, line });
+      continue;
+    } else if (source.startsWith("\\\\", pos)) {
+      text = source.slice(pos, lineEnd()).replace(/\r$/, "");
+    } else if (c === "\"" || c === "'" || source.startsWith("@\"", pos)) {
+      const quote = c === "'" ? "'" : "\"";
+      let end = pos + (c === "@" ? 2 : 1);
+      while (
+        end < source.length && source[end] !== quote && source[end] !== "\n"
+      ) {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      // An unterminated literal ends at the end of its line.
+      if (source[end] === quote) end++;
+      text = source.slice(pos, end);
+      pos = end;
+      tokens.push({ text: text.replace(PLAIN_NAME_RE, "$1"), line });
+      continue;
+    } else {
+      text = sticky(NUMBER_RE) ?? sticky(IDENTIFIER_RE)
+        ?? PUNCTUATORS.find((p) => source.startsWith(p, pos)) ?? c;
+    }
+    tokens.push({ text, line });
+    pos += text.length;
+  }
+
+  return tokens;
+}
+
+/** Drops trailing commas, which zig fmt uses to choose a layout. */
+function withoutTrailingCommas(tokens: Token[]): Token[] {
+  return tokens.filter((token, i) =>
+    token.text !== "," || !["}", ")", "]"].includes(tokens[i + 1]?.text)
+  );
+}
+
+/** Describes the first difference between two token streams, if any. */
+export function compareTokens(
+  before: Token[],
+  after: Token[],
+): string | undefined {
+  const a = withoutTrailingCommas(before);
+  const b = withoutTrailingCommas(after);
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i]?.text === b[i]?.text) continue;
+    const was = a[i] ? `\`${a[i].text}\` (line ${a[i].line})` : "end of input";
+    const now = b[i] ? `\`${b[i].text}\` (line ${b[i].line})` : "end of output";
+    return `token ${i + 1} changed: ${was} became ${now}`;
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Formats `text` twice and returns what is wrong with the result, or
+ * `undefined` if it reaches a fixed point with the same tokens. Input that
+ * does not parse is not a problem.
+ */
+export function findProblem(
+  formatter: CorpusFormatter,
+  path: string,
+  text: string,
+): FileProblem | undefined {
+  return problemAfter(formatter, path, text, formatter.formatText(path, text));
+}
+
+/** {@link findProblem} given the result of the first pass, `first`. */
+function problemAfter(
+  formatter: CorpusFormatter,
+  path: string,
+  text: string,
+  first: FormatResult,
+): FileProblem | undefined {
+  if (first.kind === "error") return undefined;
+  const once = first.kind === "changed" ? first.text : text;
+
+  const second = formatter.formatText(path, once);
+  if (second.kind === "error") {
+    return {
+      kind: "second_pass_error",
+      detail: `formatted output does not parse:\n${second.message}`,
+    };
+  }
+  if (second.kind === "changed" && second.text !== once) {
+    return {
+      kind: "not_idempotent",
+      detail: createUnifiedDiff(once, second.text, { path }),
+    };
+  }
+
+  const changed = compareTokens(tokenize(text), tokenize(once));
+  return changed ? { kind: "tokens_changed", detail: changed } : undefined;
+}
+
+/**
+ * Removes lines from `text` while `fails` keeps returning true: chunks of
+ * half the file first, then smaller ones, down to single lines.
+ */
+export function minimize(
+  text: string,
+  fails: (candidate: string) => boolean,
+): string {
+  let lines = text.split("\n");
+  let chunk = Math.max(1, Math.floor(lines.length / 2));
+
+  while (true) {
+    let removed = false;
+    for (let start = 0; start < lines.length;) {
+      const candidate = [
+        ...lines.slice(0, start),
+        ...lines.slice(start + chunk),
+      ];
+      if (fails(candidate.join("\n"))) {
+        lines = candidate;
+        removed = true;
+      } else {
+        start += chunk;
+      }
+    }
+    if (!removed) {
+      if (chunk === 1) break;
+      chunk = Math.floor(chunk / 2);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Checks every `.zig`/`.zon` file matched by `patterns` (files, directories
+ * or globs, skipping `DEFAULT_EXCLUDES`) and reduces each problem to a
+ * minimal input.
+ */
+export async function checkCorpus(
+  patterns: readonly string[],
+  options: CheckCorpusOptions = {},
+): Promise<CorpusReport> {
+  const cwd = options.cwd ?? Deno.cwd();
+  const formatter = options.formatter
+    ?? createFormatter({ wasm: readFileSync(join(cwd, DEFAULT_WASM)) });
+  const report: CorpusReport = { checked: 0, skipped: [], problems: [] };
+
+  for (const file of await collectFiles(patterns, { cwd })) {
+    const path = relative(cwd, file);
+    const text = await readFile(file, "utf8");
+    report.checked++;
+
+    const first = formatter.formatText(path, text);
+    if (first.kind === "error") {
+      report.skipped.push({ path, message: first.message });
+      continue;
+    }
+
+    const problem = problemAfter(formatter, path, text, first);
+    if (!problem) continue;
+    const minimal = options.minimize === false ? text : minimize(
+      text,
+      (candidate) =>
+        findProblem(formatter, path, candidate)?.kind === problem.kind,
+    );
+    report.problems.push({ ...problem, path, minimal });
+  }
+
+  return report;
+}
+
+/** Renders `report` as plain text. */
+export function formatReport(report: CorpusReport): string {
+  const out = [
+    `checked ${report.checked} files: ${report.problems.length} problems, ${report.skipped.length} skipped`,
+  ];
+  for (const { path, message } of report.skipped) {
+    out.push(`skipped ${path} (does not parse): ${message.split("\n")[0]}`);
+  }
+  for (const problem of report.problems) {
+    const lines = problem.minimal.split("\n").length;
+    out.push(
+      "",
+      `${problem.path}: ${problem.kind.replaceAll("_", " ")}`,
+      problem.detail.trimEnd(),
+      `minimal input (${lines} lines):`,
+      ...problem.minimal.split("\n").map((line) => `  | ${line}`),
+    );
+  }
+  return out.join("\n");
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+async function main() {
+  const args = parseArgs(Deno.args, {
+    string: ["out", "wasm"],
+    boolean: ["help"],
+    alias: { o: "out", h: "help" },
+  });
+
+  if (args.help) {
+    console.log(
+      `Usage: check_idempotency.ts [paths...] [--out dir] [--wasm path]
+
+Arguments:
+  paths       Files, directories or globs (default: ${DEFAULT_CORPUS})
+
+Options:
+  -o, --out   Write each minimal failing input to this directory
+  --wasm      Plugin to test (default: ${DEFAULT_WASM})
+  -h, --help  Show this help`,
+    );
+    Deno.exit(0);
+  }
+
+  const patterns = args._.length > 0 ? args._.map(String) : [DEFAULT_CORPUS];
+  const formatter = createFormatter({
+    wasm: readFileSync(args.wasm ?? DEFAULT_WASM),
+  });
+  const report = await checkCorpus(patterns, { formatter });
+  console.log(formatReport(report));
+
+  if (args.out && report.problems.length > 0) {
+    await mkdir(args.out, { recursive: true });
+    for (const problem of report.problems) {
+      const target = join(args.out, basename(problem.path));
+      await writeFile(target, problem.minimal);
+      console.log(`wrote ${target}`);
+    }
+  }
+
+  Deno.exit(report.problems.length > 0 ? 1 : 0);
+}
+
+// Only run main when executed directly (not imported for tests)
+if (import.meta.main) {
+  main();
+}
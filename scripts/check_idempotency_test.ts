@@ -0,0 +1,196 @@
+import { assertEquals } from "@std/assert";
+import { fileURLToPath } from "node:url";
+import { createTestFormatter, HAS_WASM } from "../ts/_testing.ts";
+import type { FormatResult } from "../ts/formatter.ts";
+import {
+  checkCorpus,
+  compareTokens,
+  type CorpusFormatter,
+  DEFAULT_CORPUS,
+  findProblem,
+  formatReport,
+  minimize,
+  tokenize,
+} from "./check_idempotency.ts";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+
+/** Formatter applying `rewrite`; returns `no_change` when nothing changed. */
+function fakeFormatter(rewrite: (text: string) => string): CorpusFormatter {
+  return {
+    formatText(_path, text): FormatResult {
+      if (text.includes("@@")) {
+        return { kind: "error", message: "x:1:1: bad", diagnostics: [] };
+      }
+      const out = rewrite(text);
+      return out === text
+        ? { kind: "no_change" }
+        : { kind: "changed", text: out };
+    },
+  };
+}
+
+// =============================================================================
+// tokenize tests
+// =============================================================================
+
+Deno.test("tokenize drops whitespace and plain comments", () => {
+  assertEquals(
+    tokenize("//! mod  \nconst x=a<<|=1; // note\n/// doc\n").map((t) =>
+      t.text
+    ),
+    ["//! mod", "const", "x", "=", "a", "<<|=", "1", ";", "/// doc"],
+  );
+});
+
+Deno.test("tokenize reads literals and normalizes quoted names", () => {
+  const source =
+    "const s = \"a\\\"b\";\nconst @\"x\" = @\"a b\";\n\\\\raw  \r\n";
+  assertEquals(tokenize(source).map((t) => [t.text, t.line]), [
+    ["const", 1],
+    ["s", 1],
+    ["=", 1],
+    ["\"a\\\"b\"", 1],
+    [";", 1],
+    ["const", 2],
+    ["x", 2],
+    ["=", 2],
+    ["@\"a b\"", 2],
+    [";", 2],
+    ["\\\\raw  ", 3],
+  ]);
+  assertEquals(tokenize("x[1..2] 1.5e3 0x1F").map((t) => t.text), [
+    "x",
+    "[",
+    "1",
+    "..",
+    "2",
+    "]",
+    "1.5e3",
+    "0x1F",
+  ]);
+});
+
+Deno.test("compareTokens ignores trailing commas only", () => {
+  assertEquals(
+    compareTokens(tokenize(".{ 1, 2, }"), tokenize(".{ 1, 2 }")),
+    undefined,
+  );
+  assertEquals(
+    compareTokens(tokenize("a + +b"), tokenize("a ++b")),
+    "token 2 changed: `+` (line 1) became `++` (line 1)",
+  );
+  assertEquals(
+    compareTokens(tokenize("a;"), tokenize("a")),
+    "token 2 changed: `;` (line 1) became end of output",
+  );
+});
+
+// =============================================================================
+// findProblem tests
+// =============================================================================
+
+Deno.test("findProblem reports output that changes on a second pass", () => {
+  const formatter = fakeFormatter((text) => `${text}\n`);
+  const problem = findProblem(formatter, "a.zig", "const a = 1;");
+  assertEquals(problem?.kind, "not_idempotent");
+  assertEquals(problem?.detail.startsWith("--- a/a.zig\n+++ b/a.zig\n"), true);
+});
+
+Deno.test("findProblem reports changed tokens and broken output", () => {
+  assertEquals(
+    findProblem(fakeFormatter((t) => t.replace("1", "2")), "a.zig", "x = 1;"),
+    {
+      kind: "tokens_changed",
+      detail: "token 3 changed: `1` (line 1) became `2` (line 1)",
+    },
+  );
+  assertEquals(
+    findProblem(fakeFormatter((t) => `${t}@@`), "a.zig", "x;")?.kind,
+    "second_pass_error",
+  );
+  assertEquals(findProblem(fakeFormatter((t) => t), "a.zig", "@@"), undefined);
+});
+
+// =============================================================================
+// minimize tests
+// =============================================================================
+
+Deno.test("minimize keeps only the lines needed to fail", () => {
+  const text = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n");
+  let calls = 0;
+  const minimal = minimize(text, (candidate) => {
+    calls++;
+    return candidate.includes("line 7") && candidate.includes("line 13");
+  });
+  assertEquals(minimal, "line 7\nline 13");
+  assertEquals(calls < 60, true);
+});
+
+// =============================================================================
+// checkCorpus tests
+// =============================================================================
+
+Deno.test("checkCorpus minimizes problems and lists unparsable files", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/ok.zig`, "const a = 1;\n");
+    await Deno.writeTextFile(`${dir}/bad.zig`, "@@\n");
+    await Deno.writeTextFile(
+      `${dir}/drift.zig`,
+      "const a = 1;\nconst b = 2;\nconst c = 3;\n",
+    );
+    // Not idempotent whenever `b` is present: appends a space each pass.
+    const formatter = fakeFormatter((t) => t.includes("b") ? `${t} ` : t);
+    const report = await checkCorpus(["."], { formatter, cwd: dir });
+
+    assertEquals(report.checked, 3);
+    assertEquals(report.skipped.map((s) => s.path), ["bad.zig"]);
+    assertEquals(report.problems.map((p) => [p.path, p.kind, p.minimal]), [
+      ["drift.zig", "not_idempotent", "const b = 2;"],
+    ]);
+    assertEquals(
+      formatReport(report).split("\n")[0],
+      "checked 3 files: 1 problems, 1 skipped",
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("checkCorpus formats each file twice and skips default excludes", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/ok.zig`, "const a = 1;\n");
+    await Deno.mkdir(`${dir}/zig-out`);
+    await Deno.writeTextFile(`${dir}/zig-out/built.zig`, "const b = 2;\n");
+    const paths: string[] = [];
+    const inner = fakeFormatter((t) => t);
+    const formatter: CorpusFormatter = {
+      formatText(path, text) {
+        paths.push(path);
+        return inner.formatText(path, text);
+      },
+    };
+    const report = await checkCorpus(["."], { formatter, cwd: dir });
+
+    assertEquals(report.checked, 1);
+    assertEquals(paths, ["ok.zig", "ok.zig"]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test({
+  name: "corpus formats idempotently with the built plugin",
+  ignore: !HAS_WASM,
+  async fn() {
+    const report = await checkCorpus([DEFAULT_CORPUS], {
+      formatter: createTestFormatter(),
+      cwd: ROOT,
+    });
+    assertEquals(report.checked > 0, true);
+    assertEquals(report.skipped, []);
+    assertEquals(report.problems, []);
+  },
+});
@@ -0,0 +1,127 @@
+#!/usr/bin/env -S deno run --allow-read --allow-write
+/**
+ * @module
+ * Generates schema.json and the README's Configuration section.
+ *
+ * Both come from `CONFIG_OPTIONS` in ts/config.ts. The schema's `$id` points
+ * at the schema published with the `build.zig.zon` version, so each release
+ * validates against its own options instead of `latest`. `--check` fails if
+ * the committed files are out of date; `deno task test` runs the same check.
+ *
+ * @example Usage
+ * ```sh
+ * # Rewrite schema.json and ts/README.md after changing CONFIG_OPTIONS
+ * deno task schema
+ *
+ * # Fail if they are out of date
+ * deno task schema --check
+ * ```
+ */
+
+import { parseArgs } from "@std/cli";
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { createConfigSchema, renderConfigDocs } from "../ts/config.ts";
+import { readZonVersion } from "./version_lib.ts";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Generated JSON schema, relative to the repository root. */
+export const SCHEMA_PATH = "schema.json";
+
+/** README with the generated Configuration section. */
+export const README_PATH = "ts/README.md";
+
+/** Markers around the generated part of the Configuration section. */
+export const DOCS_START =
+  "<!-- config:start (generated by scripts/generate_schema.ts) -->";
+export const DOCS_END = "<!-- config:end -->";
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/** Returns schema.json for plugin `version`. */
+export function renderSchema(version: string): string {
+  return `${JSON.stringify(createConfigSchema(version), null, 2)}\n`;
+}
+
+/** Returns `readme` with the text between the markers regenerated. */
+export function updateReadme(readme: string): string {
+  const start = readme.indexOf(DOCS_START);
+  const end = readme.indexOf(DOCS_END);
+  if (start === -1 || end < start) {
+    throw new Error(`${README_PATH}: missing ${DOCS_START} / ${DOCS_END}`);
+  }
+  return readme.slice(0, start + DOCS_START.length)
+    + `\n\n${renderConfigDocs()}\n`
+    + readme.slice(end);
+}
+
+/** Generated files and their expected contents for the tree at `root`. */
+export async function generateFiles(
+  root: string,
+): Promise<Record<string, string>> {
+  const zon = await readFile(join(root, "build.zig.zon"), "utf8");
+  const readme = await readFile(join(root, README_PATH), "utf8");
+  return {
+    [SCHEMA_PATH]: renderSchema(readZonVersion(zon)),
+    [README_PATH]: updateReadme(readme),
+  };
+}
+
+/** Returns the generated files under `root` that are out of date. */
+export async function findStaleFiles(root: string): Promise<string[]> {
+  const stale: string[] = [];
+  for (const [path, text] of Object.entries(await generateFiles(root))) {
+    const current = await readFile(join(root, path), "utf8").catch(() => "");
+    if (current !== text) stale.push(path);
+  }
+  return stale;
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+async function main() {
+  const args = parseArgs(Deno.args, {
+    boolean: ["check", "help"],
+    alias: { h: "help" },
+  });
+
+  if (args.help) {
+    console.log(
+      `Usage: generate_schema.ts [--check]
+
+Writes ${SCHEMA_PATH} and the Configuration section of ${README_PATH} from
+CONFIG_OPTIONS in ts/config.ts.
+
+Options:
+  --check     Exit 1 if the files are out of date instead of writing them
+  -h, --help  Show this help`,
+    );
+    Deno.exit(0);
+  }
+
+  if (args.check) {
+    const stale = await findStaleFiles(".");
+    for (const path of stale) {
+      console.error(`${path} is out of date (run deno task schema)`);
+    }
+    Deno.exit(stale.length > 0 ? 1 : 0);
+  }
+
+  for (const [path, text] of Object.entries(await generateFiles("."))) {
+    await writeFile(path, text);
+    console.log(`Wrote ${path}`);
+  }
+}
+
+// Only run main when executed directly (not imported for tests)
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,43 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import {
+  DOCS_END,
+  DOCS_START,
+  findStaleFiles,
+  renderSchema,
+  updateReadme,
+} from "./generate_schema.ts";
+
+// =============================================================================
+// Generation tests
+// =============================================================================
+
+Deno.test("renderSchema versions the $id", () => {
+  const schema = JSON.parse(renderSchema("1.2.3"));
+  assertEquals(
+    schema.$id,
+    "https://plugins.dprint.dev/kjanat/zig/1.2.3/schema.json",
+  );
+  assertEquals(renderSchema("1.2.3").endsWith("}\n"), true);
+});
+
+Deno.test("updateReadme replaces only the text between the markers", () => {
+  const readme = `# Title\n\n${DOCS_START}\n\nold\n\n${DOCS_END}\n\nKept.\n`;
+  const updated = updateReadme(readme);
+  assertEquals(updated.startsWith(`# Title\n\n${DOCS_START}\n\n`), true);
+  assertEquals(updated.endsWith(`${DOCS_END}\n\nKept.\n`), true);
+  assertStringIncludes(updated, "No configuration options.");
+  assertEquals(updated.includes("old"), false);
+  assertEquals(updateReadme(updated), updated);
+});
+
+Deno.test("updateReadme throws without the markers", () => {
+  assertThrows(() => updateReadme("# Title\n"), Error, "missing");
+});
+
+// =============================================================================
+// Repository tests
+// =============================================================================
+
+Deno.test("schema.json and ts/README.md are up to date", async () => {
+  assertEquals(await findStaleFiles("."), [], "run deno task schema");
+});
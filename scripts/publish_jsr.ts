@@ -3,8 +3,9 @@
  * @module
  * Publishes dprint-plugin-zig to JSR from GitHub Actions.
  *
- * Downloads the "plugin" artifact, updates ts/jsr.json version from
- * GITHUB_REF_NAME, and publishes to JSR with "already exists" detection.
+ * Downloads the "plugin" artifact, writes its integrity manifest, updates
+ * ts/jsr.json version from GITHUB_REF_NAME, and publishes to JSR with
+ * "already exists" detection.
  * Outputs GitHub Actions annotations and step summary.
  *
  * @example Usage (in GitHub Actions)
@@ -22,7 +23,12 @@ import {
   generateJsrSummaryMarkdown,
   updateJsrJsonContent,
 } from "./publish_jsr_lib.ts";
-import { downloadArtifact, getVersionFromEnv, runCmd } from "./publish_lib.ts";
+import {
+  downloadArtifact,
+  getVersionFromEnv,
+  runCmd,
+  writeIntegrityManifest,
+} from "./publish_lib.ts";
 
 // =============================================================================
 // JSR-Specific Functions
@@ -100,6 +106,7 @@ async function main() {
     const version = getVersionFromEnv();
 
     await downloadArtifact("plugin", "ts");
+    await writeIntegrityManifest("ts");
     await updateJsrVersion(version);
     await denoPublishWithAlreadyExistsHandling(version);
   } catch (err) {
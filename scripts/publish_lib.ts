@@ -2,14 +2,17 @@
  * @module
  * Shared utilities for JSR and npm publishing scripts.
  *
- * Contains common types, command execution, artifact download,
- * and file copy utilities used by both publish_jsr.ts and publish_npm.ts.
+ * Contains common types, command execution, artifact download, file copy
+ * and integrity manifest utilities used by both publish_jsr.ts and
+ * publish_npm.ts.
  */
 
 import { DefaultArtifactClient } from "@actions/artifact";
 import * as core from "@actions/core";
 import { resolve } from "node:path";
 
+import { createIntegrityManifest, MANIFEST_FILE } from "../ts/verify.ts";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -98,6 +101,23 @@ export async function copyFiles(
   }
 }
 
+/**
+ * Write the integrity manifest (SHA-256 and size of plugin.wasm) into the
+ * target directory, for `verifyPlugin()` in the published package.
+ */
+export async function writeIntegrityManifest(targetDir: string): Promise<void> {
+  const workspace = Deno.env.get("GITHUB_WORKSPACE") ?? Deno.cwd();
+  const fullTargetDir = resolve(workspace, targetDir);
+
+  const bytes = await Deno.readFile(resolve(fullTargetDir, "plugin.wasm"));
+  const manifest = createIntegrityManifest(bytes);
+  await Deno.writeTextFile(
+    resolve(fullTargetDir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2) + "\n",
+  );
+  core.info(`Wrote ${targetDir}/${MANIFEST_FILE} (sha256 ${manifest.sha256})`);
+}
+
 // =============================================================================
 // Version Utilities
 // =============================================================================
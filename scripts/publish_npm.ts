@@ -3,8 +3,9 @@
  * @module
  * Publishes dprint-plugin-zig to npm from GitHub Actions.
  *
- * Downloads the "plugin" artifact, copies README.md and LICENSE,
- * sets package version, and publishes to npm with "already exists" detection.
+ * Downloads the "plugin" artifact, writes its integrity manifest, copies
+ * README.md and LICENSE, transpiles the ts/ sources, sets package version,
+ * and publishes to npm with "already exists" detection.
  * Outputs GitHub Actions annotations and step summary.
  *
  * @example Usage (in GitHub Actions)
@@ -19,11 +20,13 @@
 import * as core from "@actions/core";
 import { resolve } from "node:path";
 
+import { buildNpmPackage } from "./build_npm.ts";
 import {
   copyFiles,
   downloadArtifact,
   getVersionFromEnv,
   runCmd,
+  writeIntegrityManifest,
 } from "./publish_lib.ts";
 import {
   checkNpmVersionExists,
@@ -116,10 +119,16 @@ async function main() {
 
     // Download artifact
     await downloadArtifact("plugin", "ts");
+    await writeIntegrityManifest("ts");
 
     // Copy README.md and LICENSE to ts/
     await copyFiles(["README.md", "LICENSE"], "ts");
 
+    // Transpile .ts sources to .js + .d.ts
+    for (const file of await buildNpmPackage(resolve("ts"))) {
+      core.info(`Built ${file}`);
+    }
+
     // Set version in package.json
     await setNpmVersion(version);
 
@@ -0,0 +1,246 @@
+#!/usr/bin/env -S deno run --allow-read --allow-write
+/**
+ * @module
+ * Snapshot fixtures for the formatter.
+ *
+ * Each fixture is a directory holding `input.zig` (or `input.zon`) and the
+ * expected result: `expected.zig` (`expected.zon`) with the formatted text,
+ * or `expected.error.txt` with one `line:column: tag` line per parse error.
+ * Fixtures run through the plugin under `deno task test`; a new regression
+ * test is a new directory, not a string literal in src/main.zig.
+ *
+ * @example Usage
+ * ```sh
+ * # Run the fixtures (needs `zig build`)
+ * deno run -A scripts/run_fixtures.ts
+ *
+ * # Write the current output to the expected files
+ * deno run -A scripts/run_fixtures.ts --update
+ * deno task test -- --update
+ * ```
+ */
+
+import { parseArgs } from "@std/cli";
+import { existsSync, readFileSync } from "node:fs";
+import { readFile, rm, writeFile } from "node:fs/promises";
+import { basename, dirname, join, relative } from "node:path";
+
+import { createUnifiedDiff } from "../ts/diff.ts";
+import { collectFiles, resolveMode, type ZigMode } from "../ts/files.ts";
+import {
+  createFormatter,
+  type FormatResult,
+  type Formatter,
+} from "../ts/formatter.ts";
+
+// =============================================================================
+// Constants & Types
+// =============================================================================
+
+/** Fixtures run by default, relative to the repository root. */
+export const DEFAULT_FIXTURES = "tests/fixtures";
+
+/** Plugin used by default, as built by `zig build`. */
+export const DEFAULT_WASM = "zig-out/bin/plugin.wasm";
+
+/** Expected output of a fixture whose input does not parse. */
+export const ERROR_FILE = "expected.error.txt";
+
+/** A fixture directory and the input found in it. */
+export type Fixture = {
+  /** Absolute path of the fixture directory. */
+  dir: string;
+  mode: ZigMode;
+};
+
+/** Expected file of a fixture and its contents. */
+export type Expectation = { file: string; text: string };
+
+/** Outcome of running one fixture. */
+export type FixtureResult = {
+  fixture: Fixture;
+  status: "pass" | "fail" | "updated";
+  /** Why the fixture failed: a diff or a missing expected file. */
+  detail?: string;
+};
+
+/** The formatter used by fixtures (only `formatText` is needed). */
+export type FixtureFormatter = Pick<Formatter, "formatText">;
+
+/** Options for {@linkcode runFixture}. */
+export type RunFixtureOptions = {
+  /** Defaults to the plugin at {@linkcode DEFAULT_WASM}. */
+  formatter?: FixtureFormatter;
+  /** Rewrite the expected files instead of comparing. */
+  update?: boolean;
+};
+
+let defaultFormatter: FixtureFormatter | undefined;
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+/** Finds the fixture directories (those with an `input.zig`/`.zon`) under `root`. */
+export async function findFixtures(root: string): Promise<Fixture[]> {
+  const files = await collectFiles([root], { excludes: [] });
+  return files
+    .filter((file) => basename(file).startsWith("input."))
+    .map((file) => ({ dir: dirname(file), mode: resolveMode(file) }));
+}
+
+/** Returns the name of the fixture's input file, e.g. `input.zon`. */
+export function inputFile(fixture: Fixture): string {
+  return `input.${fixture.mode}`;
+}
+
+/**
+ * Formats a result as it is stored: the formatted text, or the parse errors
+ * as `line:column: tag` lines (the raw message when there are none).
+ */
+export function toExpectation(
+  fixture: Fixture,
+  input: string,
+  result: FormatResult,
+): Expectation {
+  switch (result.kind) {
+    case "no_change":
+      return { file: `expected.${fixture.mode}`, text: input };
+    case "changed":
+      return { file: `expected.${fixture.mode}`, text: result.text };
+    case "error": {
+      const lines = result.diagnostics.length > 0
+        ? result.diagnostics.map((d) => `${d.line}:${d.column}: ${d.tag}`)
+        : [result.message];
+      return { file: ERROR_FILE, text: `${lines.join("\n")}\n` };
+    }
+  }
+}
+
+/** Reads the expected file of `fixture`, or `undefined` if it has none. */
+export function readExpectation(fixture: Fixture): Expectation | undefined {
+  for (const file of [`expected.${fixture.mode}`, ERROR_FILE]) {
+    const path = join(fixture.dir, file);
+    if (existsSync(path)) return { file, text: readFileSync(path, "utf8") };
+  }
+  return undefined;
+}
+
+/**
+ * Formats the fixture's input and compares the result with its expected
+ * file, or with `update`, replaces the expected files with the result.
+ */
+export async function runFixture(
+  fixture: Fixture,
+  options: RunFixtureOptions = {},
+): Promise<FixtureResult> {
+  const formatter = options.formatter
+    ?? (defaultFormatter ??= createFormatter({
+      wasm: readFileSync(DEFAULT_WASM),
+    }));
+  const name = inputFile(fixture);
+  const input = await readFile(join(fixture.dir, name), "utf8");
+  const actual = toExpectation(
+    fixture,
+    input,
+    formatter.formatText(name, input),
+  );
+  const expected = readExpectation(fixture);
+
+  if (expected?.file === actual.file && expected.text === actual.text) {
+    return { fixture, status: "pass" };
+  }
+
+  if (options.update) {
+    if (expected && expected.file !== actual.file) {
+      await rm(join(fixture.dir, expected.file));
+    }
+    await writeFile(join(fixture.dir, actual.file), actual.text);
+    return { fixture, status: "updated" };
+  }
+
+  if (!expected) {
+    return {
+      fixture,
+      status: "fail",
+      detail:
+        `no expected.${fixture.mode} or ${ERROR_FILE} (run with --update)`,
+    };
+  }
+  if (expected.file !== actual.file) {
+    return {
+      fixture,
+      status: "fail",
+      detail: `expected ${expected.file}, got ${actual.file}:\n${actual.text}`,
+    };
+  }
+  return {
+    fixture,
+    status: "fail",
+    detail: createUnifiedDiff(expected.text, actual.text, {
+      path: actual.file,
+    }),
+  };
+}
+
+/** Formats a summary line plus the detail of each failed fixture. */
+export function formatReport(results: FixtureResult[], root: string): string {
+  const count = (status: FixtureResult["status"]) =>
+    results.filter((r) => r.status === status).length;
+  const lines: string[] = [];
+  for (const result of results) {
+    if (result.status === "pass") continue;
+    const dir = relative(root, result.fixture.dir) || ".";
+    lines.push(`${result.status === "fail" ? "FAIL" : "updated"} ${dir}`);
+    if (result.detail) lines.push(result.detail.trimEnd());
+  }
+  lines.push(
+    `${results.length} fixtures: ${count("pass")} passed, ${
+      count("fail")
+    } failed, ${count("updated")} updated`,
+  );
+  return lines.join("\n");
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+async function main() {
+  const args = parseArgs(Deno.args, {
+    string: ["wasm"],
+    boolean: ["update", "help"],
+    alias: { u: "update", h: "help" },
+  });
+
+  if (args.help) {
+    console.log(
+      `Usage: run_fixtures.ts [dir] [--update] [--wasm path]
+
+Arguments:
+  dir           Fixture root (default: ${DEFAULT_FIXTURES})
+
+Options:
+  -u, --update  Rewrite expected files with the current output
+  --wasm        Plugin to test (default: ${DEFAULT_WASM})
+  -h, --help    Show this help`,
+    );
+    Deno.exit(0);
+  }
+
+  const root = args._.length > 0 ? String(args._[0]) : DEFAULT_FIXTURES;
+  const formatter = createFormatter({
+    wasm: readFileSync(args.wasm ?? DEFAULT_WASM),
+  });
+  const results: FixtureResult[] = [];
+  for (const fixture of await findFixtures(root)) {
+    results.push(await runFixture(fixture, { formatter, update: args.update }));
+  }
+  console.log(formatReport(results, root));
+  Deno.exit(results.some((r) => r.status === "fail") ? 1 : 0);
+}
+
+// Only run main when executed directly (not imported for tests)
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,134 @@
+import { assertEquals } from "@std/assert";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createTestFormatter, HAS_WASM } from "../ts/_testing.ts";
+import type { FormatResult } from "../ts/formatter.ts";
+import {
+  DEFAULT_FIXTURES,
+  findFixtures,
+  type FixtureFormatter,
+  formatReport,
+  runFixture,
+} from "./run_fixtures.ts";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+
+/** `deno task test -- --update` rewrites the expected files. */
+const UPDATE = Deno.args.includes("--update");
+
+/** Formatter that upper-cases its input, or fails on `@@`. */
+const fakeFormatter: FixtureFormatter = {
+  formatText(_path, text): FormatResult {
+    if (text.includes("@@")) {
+      return {
+        kind: "error",
+        message: "input.zig:2:3: expected_expr",
+        diagnostics: [{
+          file: "input.zig",
+          line: 2,
+          column: 3,
+          tag: "expected_expr",
+          message: "expected expression",
+        }],
+      };
+    }
+    const out = text.toUpperCase();
+    return out === text
+      ? { kind: "no_change" }
+      : { kind: "changed", text: out };
+  },
+};
+
+// =============================================================================
+// Runner tests
+// =============================================================================
+
+Deno.test("runFixture compares output, errors and missing expectations", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const write = (path: string, text: string) =>
+      Deno.mkdir(join(dir, path, ".."), { recursive: true }).then(() =>
+        Deno.writeTextFile(join(dir, path), text)
+      );
+    await write("ok/input.zig", "a\n");
+    await write("ok/expected.zig", "A\n");
+    await write("diff/input.zon", "b\n");
+    await write("diff/expected.zon", "b\n");
+    await write("error/input.zig", "@@\n");
+    await write("error/expected.error.txt", "2:3: expected_expr\n");
+    await write("missing/input.zig", "c\n");
+
+    const fixtures = await findFixtures(dir);
+    assertEquals(fixtures.map((f) => [f.dir.slice(dir.length + 1), f.mode]), [
+      ["diff", "zon"],
+      ["error", "zig"],
+      ["missing", "zig"],
+      ["ok", "zig"],
+    ]);
+
+    const results = [];
+    for (const fixture of fixtures) {
+      results.push(await runFixture(fixture, { formatter: fakeFormatter }));
+    }
+    assertEquals(results.map((r) => r.status), [
+      "fail",
+      "pass",
+      "fail",
+      "pass",
+    ]);
+    assertEquals(
+      formatReport(results, dir),
+      `FAIL diff
+--- a/expected.zon
++++ b/expected.zon
+@@ -1 +1 @@
+-b
++B
+FAIL missing
+no expected.zig or expected.error.txt (run with --update)
+4 fixtures: 2 passed, 2 failed, 0 updated`,
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("runFixture --update rewrites and replaces expected files", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(join(dir, "input.zig"), "@@\n");
+    await Deno.writeTextFile(join(dir, "expected.zig"), "@@\n");
+    const fixture = { dir, mode: "zig" as const };
+    const options = { formatter: fakeFormatter, update: true };
+
+    assertEquals((await runFixture(fixture, options)).status, "updated");
+    assertEquals(existsSync(join(dir, "expected.zig")), false);
+    assertEquals(
+      readFileSync(join(dir, "expected.error.txt"), "utf8"),
+      "2:3: expected_expr\n",
+    );
+    assertEquals((await runFixture(fixture, options)).status, "pass");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// =============================================================================
+// Fixtures (need a built plugin.wasm)
+// =============================================================================
+
+const formatter = HAS_WASM
+  ? createTestFormatter()
+  : undefined;
+
+for (const fixture of await findFixtures(join(ROOT, DEFAULT_FIXTURES))) {
+  Deno.test({
+    name: `fixture ${fixture.dir.slice(ROOT.length)}`,
+    ignore: !formatter,
+    async fn() {
+      const result = await runFixture(fixture, { formatter, update: UPDATE });
+      assertEquals(result.status !== "fail", true, result.detail);
+    },
+  });
+}
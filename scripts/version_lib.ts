@@ -0,0 +1,32 @@
+/**
+ * @module
+ * Shared version helpers for bump-version.ts and generate_schema.ts.
+ *
+ * Reads the package version from build.zig.zon, the source of truth the
+ * other version strings are kept in sync with.
+ */
+
+import { parseZon } from "../ts/zon.ts";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Regex matching strict semver format (x.y.z). */
+export const VERSION_RE = /^\d+\.\d+\.\d+$/;
+
+// =============================================================================
+// build.zig.zon
+// =============================================================================
+
+/** Extracts version string from build.zig.zon content. */
+export function readZonVersion(content: string): string {
+  const zon = parseZon(content);
+  const version = typeof zon === "object" && zon !== null && "version" in zon
+    ? zon.version
+    : undefined;
+  if (typeof version !== "string" || !VERSION_RE.test(version)) {
+    throw new Error("Could not parse version from build.zig.zon");
+  }
+  return version;
+}
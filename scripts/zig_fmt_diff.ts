@@ -0,0 +1,223 @@
+#!/usr/bin/env -S deno run --allow-read --allow-run --allow-env
+/**
+ * @module
+ * Differential check of plugin.wasm against a local `zig fmt`.
+ *
+ * Formats each file with `zig fmt --stdin` and with the plugin (through the
+ * TypeScript host) and reports any byte difference as a unified diff. Files
+ * `zig fmt` rejects must be rejected by the plugin too, with the first error
+ * at the same line and column. The tests in `zig_fmt_diff_test.ts` run this
+ * over tests/corpus and tests/invalid when `zig` is on PATH.
+ *
+ * @example Usage
+ * ```sh
+ * # Compare the fixtures (default) or other files with zig fmt
+ * deno run -A scripts/zig_fmt_diff.ts
+ * deno run -A scripts/zig_fmt_diff.ts ~/src/zig/lib/std/zig
+ * ```
+ */
+
+import { parseArgs } from "@std/cli";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { delimiter, join, relative } from "node:path";
+
+import { createUnifiedDiff } from "../ts/diff.ts";
+import { collectFiles, resolveMode, type ZigMode } from "../ts/files.ts";
+import { createFormatter, type Formatter } from "../ts/formatter.ts";
+
+// =============================================================================
+// Constants & Types
+// =============================================================================
+
+/** Fixtures `zig fmt` accepts; output must match byte for byte. */
+export const VALID_FIXTURES = "tests/corpus";
+
+/** Fixtures `zig fmt` rejects; errors must be at the same position. */
+export const INVALID_FIXTURES = "tests/invalid";
+
+/** Error line printed by `zig fmt --stdin`. */
+export const ZIG_FMT_ERROR_RE: RegExp = /^<stdin>:(\d+):(\d+): error: (.*)$/;
+
+/** A parse error reported by `zig fmt`. */
+export type ZigFmtError = { line: number; column: number; message: string };
+
+/** Outcome of running `zig fmt --stdin` on one file. */
+export type ZigFmtResult =
+  | { kind: "formatted"; text: string }
+  | { kind: "error"; errors: ZigFmtError[]; stderr: string };
+
+// =============================================================================
+// zig fmt
+// =============================================================================
+
+/**
+ * Returns the path of the `zig` binary: `$ZIG` if set, else the first `zig`
+ * on `PATH`, or `undefined` if there is none.
+ */
+export function findZig(
+  env: { ZIG?: string; PATH?: string } = {
+    ZIG: Deno.env.get("ZIG"),
+    PATH: Deno.env.get("PATH"),
+  },
+): string | undefined {
+  if (env.ZIG) return existsSync(env.ZIG) ? env.ZIG : undefined;
+  const names = Deno.build.os === "windows" ? ["zig.exe"] : ["zig"];
+  for (const dir of (env.PATH ?? "").split(delimiter)) {
+    if (!dir) continue;
+    for (const name of names) {
+      const path = join(dir, name);
+      if (existsSync(path) && statSync(path).isFile()) return path;
+    }
+  }
+  return undefined;
+}
+
+/** Returns `zig version` output, e.g. `0.15.2`. */
+export function zigVersion(zig: string): string {
+  const { stdout } = new Deno.Command(zig, { args: ["version"] }).outputSync();
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/** Parses the `error:` lines of `zig fmt --stdin` output (notes are skipped). */
+export function parseZigFmtErrors(stderr: string): ZigFmtError[] {
+  const errors: ZigFmtError[] = [];
+  for (const line of stderr.split("\n")) {
+    const match = line.trimEnd().match(ZIG_FMT_ERROR_RE);
+    if (!match) continue;
+    errors.push({
+      line: Number(match[1]),
+      column: Number(match[2]),
+      message: match[3],
+    });
+  }
+  return errors;
+}
+
+/** Formats `text` with `zig fmt --stdin` (adding `--zon` for ZON). */
+export async function runZigFmt(
+  zig: string,
+  text: string,
+  mode: ZigMode,
+): Promise<ZigFmtResult> {
+  const child = new Deno.Command(zig, {
+    args: ["fmt", "--stdin", ...(mode === "zon" ? ["--zon"] : [])],
+    stdin: "piped",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  const writer = child.stdin.getWriter();
+  await writer.write(new TextEncoder().encode(text));
+  await writer.close();
+
+  const { success, stdout, stderr } = await child.output();
+  const decoder = new TextDecoder();
+  if (success) return { kind: "formatted", text: decoder.decode(stdout) };
+  const message = decoder.decode(stderr);
+  return { kind: "error", errors: parseZigFmtErrors(message), stderr: message };
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+/**
+ * Formats `text` with `zig fmt` and the plugin and describes the first
+ * disagreement, or returns `undefined` if they agree: the same output, or
+ * both rejecting the input with the first error at the same position.
+ */
+export async function compareWithZigFmt(
+  zig: string,
+  formatter: Pick<Formatter, "formatText">,
+  path: string,
+  text: string,
+): Promise<string | undefined> {
+  const expected = await runZigFmt(zig, text, resolveMode(path));
+  const actual = formatter.formatText(path, text);
+
+  if (expected.kind === "error") {
+    const [first] = expected.errors;
+    if (actual.kind !== "error") {
+      return `${path}: zig fmt rejects the file but the plugin formats it:\n${expected.stderr}`;
+    }
+    const [got] = actual.diagnostics;
+    if (
+      first && (got?.line !== first.line || got?.column !== first.column)
+    ) {
+      const at = got ? `${got.line}:${got.column}` : "no position";
+      return `${path}: zig fmt reports ${first.line}:${first.column} (${first.message}), plugin reports ${at}:\n${actual.message}`;
+    }
+    return undefined;
+  }
+
+  if (actual.kind === "error") {
+    return `${path}: zig fmt formats the file but the plugin rejects it:\n${actual.message}`;
+  }
+  const formatted = actual.kind === "changed" ? actual.text : text;
+  if (formatted === expected.text) return undefined;
+  const diff = createUnifiedDiff(expected.text, formatted, { path });
+  return `${path}: output differs from zig fmt (- zig fmt, + plugin):\n${diff}`;
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+async function main() {
+  const args = parseArgs(Deno.args, {
+    string: ["wasm"],
+    boolean: ["help"],
+    alias: { h: "help" },
+  });
+
+  if (args.help) {
+    console.log(
+      `Usage: zig_fmt_diff.ts [paths...] [--wasm path]
+
+Arguments:
+  paths       Files, directories or globs
+              (default: ${VALID_FIXTURES} ${INVALID_FIXTURES})
+
+Options:
+  --wasm      Plugin to test (default: zig-out/bin/plugin.wasm)
+  -h, --help  Show this help
+
+Uses $ZIG, or the first zig on PATH.`,
+    );
+    Deno.exit(0);
+  }
+
+  const zig = findZig();
+  if (!zig) {
+    console.error("zig not found on PATH (set ZIG to its path)");
+    Deno.exit(1);
+  }
+
+  const patterns = args._.length > 0
+    ? args._.map(String)
+    : [VALID_FIXTURES, INVALID_FIXTURES];
+  const formatter = createFormatter({
+    wasm: readFileSync(args.wasm ?? "zig-out/bin/plugin.wasm"),
+  });
+  const files = await collectFiles(patterns, { excludes: [] });
+
+  let failures = 0;
+  for (const file of files) {
+    const path = relative(Deno.cwd(), file);
+    const text = await readFile(file, "utf8");
+    const problem = await compareWithZigFmt(zig, formatter, path, text);
+    if (!problem) continue;
+    failures++;
+    console.log(problem);
+  }
+
+  console.log(
+    `zig ${zigVersion(zig)}: ${files.length} files, ${failures} differ`,
+  );
+  Deno.exit(failures > 0 ? 1 : 0);
+}
+
+// Only run main when executed directly (not imported for tests)
+if (import.meta.main) {
+  main();
+}
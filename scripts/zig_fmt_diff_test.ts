@@ -0,0 +1,155 @@
+import { assertEquals } from "@std/assert";
+import { chmodSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createTestFormatter, HAS_WASM } from "../ts/_testing.ts";
+import { parseZon } from "../ts/zon.ts";
+import {
+  compareWithZigFmt,
+  findZig,
+  INVALID_FIXTURES,
+  parseZigFmtErrors,
+  VALID_FIXTURES,
+  zigVersion,
+} from "./zig_fmt_diff.ts";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+const IS_WINDOWS = Deno.build.os === "windows";
+
+/**
+ * Writes a stand-in `zig` to `dir`: `zig fmt --stdin` echoes its input, or
+ * fails like zig fmt when the input contains `FAIL`.
+ */
+function writeFakeZig(dir: string): string {
+  const path = join(dir, "zig");
+  writeFileSync(
+    path,
+    `#!/bin/sh
+if [ "$1" = version ]; then echo 0.15.2; exit 0; fi
+input=$(cat)
+case "$input" in
+  *FAIL*)
+    echo "<stdin>:1:14: error: expected expression, found ';'" >&2
+    echo "    const FAIL = ;" >&2
+    exit 1 ;;
+esac
+printf '%s\\n' "$input"
+`,
+  );
+  chmodSync(path, 0o755);
+  return path;
+}
+
+// =============================================================================
+// Unit tests
+// =============================================================================
+
+Deno.test("parseZigFmtErrors reads error lines and skips notes", () => {
+  assertEquals(
+    parseZigFmtErrors(
+      "<stdin>:2:11: error: expected expression, found ';'\n"
+        + "const b = ;\n          ^\n"
+        + "<stdin>:2:5: note: declared here\n",
+    ),
+    [{ line: 2, column: 11, message: "expected expression, found ';'" }],
+  );
+});
+
+Deno.test({
+  name: "findZig searches PATH and honours ZIG",
+  ignore: IS_WINDOWS,
+  fn() {
+    const dir = Deno.makeTempDirSync();
+    try {
+      const zig = writeFakeZig(dir);
+      assertEquals(findZig({ PATH: `/nonexistent:${dir}` }), zig);
+      assertEquals(findZig({ PATH: "/nonexistent" }), undefined);
+      assertEquals(findZig({ ZIG: zig, PATH: "" }), zig);
+      assertEquals(findZig({ ZIG: `${dir}/missing` }), undefined);
+      assertEquals(zigVersion(zig), "0.15.2");
+    } finally {
+      Deno.removeSync(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "compareWithZigFmt reports differences and error positions",
+  ignore: IS_WINDOWS || !HAS_WASM,
+  async fn() {
+    const dir = Deno.makeTempDirSync();
+    try {
+      const zig = writeFakeZig(dir);
+      const formatter = createTestFormatter();
+      const compare = (text: string) =>
+        compareWithZigFmt(zig, formatter, "a.zig", text);
+
+      assertEquals(await compare("const x = 1;\n"), undefined);
+      assertEquals(
+        await compare("const x=1;\n"),
+        "a.zig: output differs from zig fmt (- zig fmt, + plugin):\n"
+          + "--- a/a.zig\n+++ b/a.zig\n@@ -1 +1 @@\n"
+          + "-const x=1;\n+const x = 1;\n",
+      );
+      assertEquals(await compare("const FAIL = ;\n"), undefined);
+      assertEquals(
+        (await compare("const FAIL =  ;\n"))?.split("\n")[0],
+        "a.zig: zig fmt reports 1:14 (expected expression, found ';'), plugin reports 1:15:",
+      );
+      assertEquals(
+        (await compare("// FAIL\n"))?.split("\n")[0],
+        "a.zig: zig fmt rejects the file but the plugin formats it:",
+      );
+    } finally {
+      Deno.removeSync(dir, { recursive: true });
+    }
+  },
+});
+
+// =============================================================================
+// Differential tests (need zig on PATH)
+// =============================================================================
+
+const ZIG = findZig();
+
+/** Why the differential tests cannot run here, if they cannot. */
+function skipReason(): string | undefined {
+  if (!ZIG) return "zig not found";
+  if (!HAS_WASM) return "plugin.wasm not built";
+  // zig fmt output changes between Zig releases; compare like with like.
+  const zon = parseZon(readFileSync(join(ROOT, "build.zig.zon"), "utf8"));
+  const wanted = String((zon as Record<string, unknown>).minimum_zig_version);
+  const minor = (version: string) => version.split(".").slice(0, 2).join(".");
+  const found = zigVersion(ZIG);
+  return minor(found) === minor(wanted)
+    ? undefined
+    : `zig ${found} is not ${minor(wanted)}.x`;
+}
+
+const SKIP = skipReason();
+
+for (const dir of [VALID_FIXTURES, INVALID_FIXTURES]) {
+  for (const name of readdirSync(join(ROOT, dir)).sort()) {
+    const path = `${dir}/${name}`;
+    Deno.test({
+      name: `zig fmt and plugin agree on ${path}${SKIP ? ` (${SKIP})` : ""}`,
+      ignore: SKIP !== undefined,
+      async fn() {
+        const text = readFileSync(join(ROOT, path), "utf8");
+        const problem = await compareWithZigFmt(
+          ZIG!,
+          createTestFormatter(),
+          path,
+          text,
+        );
+        assertEquals(problem, undefined, problem);
+        const rejected = dir === INVALID_FIXTURES;
+        assertEquals(
+          createTestFormatter().formatText(path, text).kind === "error",
+          rejected,
+          rejected ? "fixture should not parse" : "fixture should parse",
+        );
+      },
+    });
+  }
+}
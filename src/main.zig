@@ -139,7 +139,7 @@ const PluginInfo = struct {
     fileExtensions: []const []const u8 = &.{ "zig", "zon" },
     fileNames: []const []const u8 = &.{},
     helpUrl: []const u8 = "https://github.com/kjanat/dprint-plugin-zig",
-    configSchemaUrl: []const u8 = "https://plugins.dprint.dev/kjanat/zig/latest/schema.json",
+    configSchemaUrl: []const u8 = "https://plugins.dprint.dev/kjanat/zig/" ++ build_options.version ++ "/schema.json",
     updateUrl: []const u8 = "https://plugins.dprint.dev/kjanat/zig/latest.json",
 
     /// Serialize to JSON at comptime
@@ -176,11 +176,12 @@ const FILE_MATCHING_JSON: []const u8 = file_matching_info.toJson();
 const LICENSE_TEXT: []const u8 = @embedFile("LICENSE");
 
 // =============================================================================
-// dprint Host Imports (declared for WASM linking, even if unused)
+// dprint Host Imports
 // =============================================================================
 
 // These extern functions are provided by the dprint host runtime.
-// They must be declared for the WASM module to link correctly.
+// They must be declared for the WASM module to link correctly; only
+// host_has_cancelled is called (see WasmRuntime.isCancelled).
 const host = if (is_wasm) struct {
     extern "dprint" fn host_write_buffer(ptr: u32) void;
     extern "dprint" fn host_format(
@@ -229,6 +230,9 @@ const WasmRuntime = if (is_wasm) struct {
     const MAX_CONFIGS: usize = 16;
     var config_registered: [MAX_CONFIGS]bool = [_]bool{false} ** MAX_CONFIGS;
     var config_json: [MAX_CONFIGS][]const u8 = [_][]const u8{&.{}} ** MAX_CONFIGS;
+    // Buffers behind config_json, kept after release_config so registering
+    // again reuses them instead of allocating below heap_reset_point anew.
+    var config_storage: [MAX_CONFIGS][]u8 = [_][]u8{&.{}} ** MAX_CONFIGS;
 
     // -------------------------------------------------------------------------
     // Heap Allocator
@@ -335,20 +339,43 @@ const WasmRuntime = if (is_wasm) struct {
 
         // Store config JSON from buffer (host writes before calling register_config)
         const content = getBufferContent();
+        config_json[config_id] = &.{};
         if (content.len > 0) {
-            const buf = allocSlice(content.len) orelse return;
-            @memcpy(buf, content);
-            config_json[config_id] = buf;
+            const buf = configStorage(config_id, content.len) orelse return;
+            @memcpy(buf[0..content.len], content);
+            config_json[config_id] = buf[0..content.len];
         }
 
         // Only mark registered after successful setup
         config_registered[config_id] = true;
+    }
+
+    /// Returns at least `len` bytes to store the config of `config_id` in:
+    /// the slot's own buffer, or a released slot's if it is large enough.
+    /// Only when neither fits is a new buffer allocated (and kept past
+    /// heap resets), so register/release cycles do not grow the heap.
+    fn configStorage(config_id: ConfigId, len: usize) ?[]u8 {
+        if (config_storage[config_id].len >= len) return config_storage[config_id];
+
+        for (&config_storage, 0..) |*storage, id| {
+            if (id == config_id or config_registered[id] or storage.len < len) continue;
+            // Swap, so the released slot keeps the smaller buffer.
+            const found = storage.*;
+            storage.* = config_storage[config_id];
+            config_storage[config_id] = found;
+            return found;
+        }
+
+        const buf = allocSlice(len) orelse return null;
+        config_storage[config_id] = buf;
         // Move reset point forward to preserve config allocation
         heap_reset_point = heap_ptr;
+        return buf;
     }
 
     fn releaseConfig(config_id: ConfigId) void {
         if (config_id < MAX_CONFIGS) {
+            // config_storage[config_id] is kept for the next register_config.
             config_registered[config_id] = false;
             config_json[config_id] = &.{};
         }
@@ -401,21 +428,42 @@ const WasmRuntime = if (is_wasm) struct {
         error_message = buf;
     }
 
+    /// Error text reported when the host cancels a request.
+    const CANCELLED_MESSAGE: []const u8 = "Cancelled";
+
+    /// Polls the host for cancellation. On cancel, drops per-request state so
+    /// the next request starts clean, and reports CANCELLED_MESSAGE.
+    fn isCancelled() bool {
+        if (host.host_has_cancelled() == 0) return false;
+        resetPerRequestState();
+        setErrorMessage(CANCELLED_MESSAGE);
+        return true;
+    }
+
     // -------------------------------------------------------------------------
     // Zig Formatter
     // -------------------------------------------------------------------------
 
     fn formatSource(source: []const u8) FormatResult {
         ensureInitialized();
+
+        // Use std.heap.wasm_allocator for AST operations (Zig 0.15+ API)
+        const allocator = std.heap.wasm_allocator;
+
+        // resetPerRequestState drops file_path and reclaims its bytes; copy it
+        // first so the parse mode and error messages use the host's path.
+        const path_copy = allocator.dupe(u8, file_path) catch null;
+        defer if (path_copy) |p| allocator.free(p);
         resetPerRequestState();
+        const path = path_copy orelse {
+            setErrorMessage("Out of memory");
+            return .@"error";
+        };
 
         if (source.len == 0) {
             return .no_change;
         }
 
-        // Use std.heap.wasm_allocator for AST operations (Zig 0.15+ API)
-        const allocator = std.heap.wasm_allocator;
-
         // Create sentinel-terminated copy for parser
         const source_z = allocator.allocSentinel(u8, source.len, 0) catch {
             setErrorMessage("Out of memory");
@@ -424,7 +472,9 @@ const WasmRuntime = if (is_wasm) struct {
         defer allocator.free(source_z);
         @memcpy(source_z, source);
 
-        const mode = resolveModeFromPath(file_path);
+        const mode = resolveModeFromPath(path);
+
+        if (isCancelled()) return .@"error";
 
         // Parse source
         var ast = std.zig.Ast.parse(allocator, source_z, mode) catch {
@@ -435,7 +485,7 @@ const WasmRuntime = if (is_wasm) struct {
 
         // Check for parse errors
         if (ast.errors.len > 0) {
-            const msg = buildParseErrorMessage(allocator, source, file_path, ast.tokens.items(.start), ast.errors) catch {
+            const msg = buildParseErrorMessage(allocator, source, path, ast.tokens.items(.start), ast.errors) catch {
                 setErrorMessage("Parse error in source");
                 return .@"error";
             };
@@ -443,6 +493,8 @@ const WasmRuntime = if (is_wasm) struct {
             return .@"error";
         }
 
+        if (isCancelled()) return .@"error";
+
         // Render formatted output (Zig 0.15+ API)
         const rendered = ast.renderAlloc(allocator) catch {
             setErrorMessage("Failed to render formatted code");
@@ -450,6 +502,8 @@ const WasmRuntime = if (is_wasm) struct {
         };
         defer allocator.free(rendered);
 
+        if (isCancelled()) return .@"error";
+
         // Check if content changed - compare directly against input source
         if (rendered.len == source.len and std.mem.eql(u8, source, rendered)) {
             return .no_change;
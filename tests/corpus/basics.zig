@@ -0,0 +1,22 @@
+const std=@import("std");
+const builtin = @import( "builtin" );
+
+pub fn main() !void {
+    const stdout=std.io.getStdOut().writer();
+    var i:usize=0;
+    while(i<10):(i+=1){
+        if (i%2==0) continue else try stdout.print("{d}\n",.{i});
+    }
+    const x: u32 = if (builtin.mode == .Debug) 1 else 2;
+    _ = x;
+}
+
+fn add(a:i32,b:i32)i32{return a+b;}
+
+fn clamp(value: anytype, lo: @TypeOf(value), hi: @TypeOf(value)) @TypeOf(value) {
+    return @max(lo, @min(hi, value));
+}
+
+test "add" {
+    try std.testing.expectEqual(@as(i32,3), add(1,2));
+}
@@ -0,0 +1,19 @@
+//! Container documentation
+//! spanning two lines.
+
+const std = @import("std"); // trailing comment
+
+/// Doc comment on a declaration.
+pub const Point = struct {
+    x: f32, // x coordinate
+    y: f32,
+
+    // A comment between members.
+
+    /// Returns the origin.
+    pub fn origin() Point {
+        return .{ .x = 0, .y = 0 }; // inline
+    }
+};
+
+// Comment at the end of the file without a declaration after it.
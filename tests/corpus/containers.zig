@@ -0,0 +1,50 @@
+const std = @import("std");
+
+pub const Color = enum(u8) { red, green=5, blue, _ };
+
+pub const Value = union(enum) {
+    int: i64,
+    float: f64,
+    text: []const u8,
+
+    pub fn describe(self: Value) []const u8 {
+        return switch (self) {
+            .int => |n| if (n < 0) "negative" else "int",
+            .float, .text => "other",
+        };
+    }
+};
+
+const Packed = packed struct(u8) { a: u4, b: u4 };
+
+const Error = error{ OutOfMemory, Invalid };
+
+fn labeled(items: []const u32) u32 {
+    const sum = blk: {
+        var total: u32 = 0;
+        for (items, 0..) |item, index| {
+            if (index > 3) break :blk total;
+            total +%= item;
+        }
+        break :blk total;
+    };
+    return sum;
+}
+
+fn tuple() void {
+    const t = .{ 1, "two", 3.0 };
+    _ = t[0];
+    const array = [_]u8{ 1, 2, 3, };
+    const slice = array[1..];
+    const ptr: *const [3]u8 = &array;
+    _ = .{ slice, ptr.*, ptr[0..2] };
+}
+
+fn maybe(opt: ?u8) Error!u8 {
+    const value = opt orelse return error.Invalid;
+    return value;
+}
+
+comptime {
+    std.debug.assert(@sizeOf(Packed) == 1);
+}
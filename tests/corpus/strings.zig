@@ -0,0 +1,21 @@
+const greeting = "Hello, wörld! \u{1F600}\x41\t\"quoted\"";
+const char = 'é';
+const newline = '\n';
+
+const multiline =
+    \\first line
+    \\  second line with trailing spaces   
+    \\third "line" with \\ backslashes
+;
+
+const raw_identifier = @"with space";
+const @"fn" = 1;
+const unquoted = @"plain";
+
+pub fn banner() []const u8 {
+    return 
+        \\+--------+
+        \\| banner |
+        \\+--------+
+    ;
+}
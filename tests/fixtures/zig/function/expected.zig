@@ -0,0 +1,4 @@
+const std = @import("std");
+pub fn add(a: i32, b: i32) i32 {
+    return a + b;
+}
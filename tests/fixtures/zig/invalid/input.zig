@@ -0,0 +1 @@
+pub fn main() { let = 1; }
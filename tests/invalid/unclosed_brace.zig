@@ -0,0 +1,4 @@
+const A = struct {
+    x: u8,
+
+fn f() void {}
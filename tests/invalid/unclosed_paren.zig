@@ -0,0 +1,6 @@
+pub fn main() void {
+    const s = "café";
+    if (s.len > 0 {
+        return;
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * @module
+ * Shared helpers for tests that need a built `plugin.wasm`.
+ *
+ * Looks for `zig-out/bin/plugin.wasm` (from `zig build`) first, then the
+ * copy in ts/ that publishing downloads. Tests that need it are registered
+ * with {@link wasmTest} (or set `ignore: !HAS_WASM`) so they skip cleanly
+ * before the plugin is built.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+import { createFormatter, type Formatter } from "./formatter.ts";
+
+const CANDIDATES = [
+  new URL("../zig-out/bin/plugin.wasm", import.meta.url),
+  new URL("./plugin.wasm", import.meta.url),
+].map((url) => fileURLToPath(url));
+
+/** Path to the built plugin, or undefined when it has not been built. */
+export const WASM_PATH: string | undefined = CANDIDATES.find((path) =>
+  existsSync(path)
+);
+
+/** True when a built plugin is available. */
+export const HAS_WASM: boolean = WASM_PATH !== undefined;
+
+/** Registers a test that is skipped when no built plugin is available. */
+export function wasmTest(name: string, fn: () => void | Promise<void>): void {
+  Deno.test({ name, ignore: !HAS_WASM, fn });
+}
+
+/** Creates a formatter backed by the built plugin. */
+export function createTestFormatter(): Formatter {
+  return createFormatter({ wasm: readFileSync(WASM_PATH!) });
+}
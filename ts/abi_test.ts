@@ -0,0 +1,300 @@
+/**
+ * Schema v4 ABI conformance tests for the built plugin.wasm.
+ *
+ * Drives every export directly through a fake dprint host (no
+ * {@link createFormatter}), checking return codes and the shape of each JSON
+ * payload the plugin writes to the shared buffer.
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { readFileSync } from "node:fs";
+import { WASM_PATH, wasmTest } from "./_testing.ts";
+import { FormatResultCode } from "./formatter.ts";
+
+/** Mirrors `MAX_CONFIGS` in src/main.zig. */
+const MAX_CONFIGS = 16;
+
+/** Every export of the dprint Wasm plugin schema v4 the plugin provides. */
+const EXPORTS = [
+  "dprint_plugin_version_4",
+  "get_shared_bytes_ptr",
+  "clear_shared_bytes",
+  "get_plugin_info",
+  "get_license_text",
+  "register_config",
+  "release_config",
+  "get_config_diagnostics",
+  "get_resolved_config",
+  "set_file_path",
+  "set_override_config",
+  "check_config_updates",
+  "format",
+  "format_range",
+  "get_formatted_text",
+  "get_error_text",
+  "get_config_file_matching",
+] as const;
+
+type Plugin =
+  & { memory: WebAssembly.Memory }
+  & Record<(typeof EXPORTS)[number], (...args: number[]) => number>;
+
+/** A plugin instance behind a fake dprint host that records import calls. */
+type FakeHost = {
+  plugin: Plugin;
+  /** Host imports called so far, by name. */
+  calls: string[];
+  /** Writes `text` to the shared buffer, as the host does before a call. */
+  send(text: string): void;
+  /** Reads `len` bytes of the shared buffer as text. */
+  receive(len: number): string;
+  /** Calls `name`, then parses the JSON it wrote to the shared buffer. */
+  json(name: (typeof EXPORTS)[number], ...args: number[]): unknown;
+  /** Runs one format request the way dprint does. */
+  format(path: string, text: string, override?: string): number;
+};
+
+function createFakeHost(): FakeHost {
+  const calls: string[] = [];
+  const record = (name: string) => () => {
+    calls.push(name);
+    return 0;
+  };
+  const instance = new WebAssembly.Instance(
+    new WebAssembly.Module(readFileSync(WASM_PATH!)),
+    {
+      dprint: {
+        host_write_buffer: record("host_write_buffer"),
+        host_format: record("host_format"),
+        host_get_formatted_text: record("host_get_formatted_text"),
+        host_get_error_text: record("host_get_error_text"),
+        host_has_cancelled: record("host_has_cancelled"),
+      },
+    },
+  );
+  const plugin = instance.exports as unknown as Plugin;
+  const encoder = new TextEncoder();
+
+  const host: FakeHost = {
+    plugin,
+    calls,
+    send(text) {
+      const bytes = encoder.encode(text);
+      const ptr = plugin.clear_shared_bytes(bytes.length);
+      new Uint8Array(plugin.memory.buffer, ptr, bytes.length).set(bytes);
+    },
+    receive(len) {
+      const ptr = plugin.get_shared_bytes_ptr();
+      return new TextDecoder().decode(
+        new Uint8Array(plugin.memory.buffer, ptr, len),
+      );
+    },
+    json(name, ...args) {
+      return JSON.parse(host.receive(plugin[name](...args)));
+    },
+    format(path, text, override) {
+      host.send(path);
+      plugin.set_file_path();
+      if (override !== undefined) {
+        host.send(override);
+        plugin.set_override_config();
+      }
+      host.send(text);
+      return plugin.format(1);
+    },
+  };
+  host.send(JSON.stringify({ plugin: {}, global: {} }));
+  plugin.register_config(1);
+  return host;
+}
+
+/** Replaces each leaf of a JSON value with its type name. */
+function shapeOf(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(shapeOf);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, shapeOf(v)]),
+    );
+  }
+  return value === null ? "null" : typeof value;
+}
+
+// =============================================================================
+// Module interface tests
+// =============================================================================
+
+wasmTest("plugin exports every schema v4 function and its memory", () => {
+  const module = new WebAssembly.Module(readFileSync(WASM_PATH!));
+  const exports = WebAssembly.Module.exports(module);
+  for (const name of EXPORTS) {
+    assertEquals(
+      exports.find((e) => e.name === name)?.kind,
+      "function",
+      `missing export ${name}`,
+    );
+  }
+  assertEquals(exports.find((e) => e.name === "memory")?.kind, "memory");
+});
+
+wasmTest("plugin imports only dprint host functions", () => {
+  const module = new WebAssembly.Module(readFileSync(WASM_PATH!));
+  const imports = WebAssembly.Module.imports(module);
+  assertEquals(imports.filter((i) => i.module !== "dprint"), []);
+  for (const { name, kind } of imports) {
+    assertEquals(kind, "function");
+    assertEquals(name.startsWith("host_"), true, name);
+  }
+});
+
+wasmTest("dprint_plugin_version_4 reports schema 4", () => {
+  assertEquals(createFakeHost().plugin.dprint_plugin_version_4(), 4);
+});
+
+// =============================================================================
+// Metadata tests
+// =============================================================================
+
+wasmTest("get_plugin_info returns the plugin info object", () => {
+  const info = createFakeHost().json("get_plugin_info");
+  assertEquals(shapeOf(info), {
+    name: "string",
+    version: "string",
+    configKey: "string",
+    fileExtensions: ["string", "string"],
+    fileNames: [],
+    helpUrl: "string",
+    configSchemaUrl: "string",
+    updateUrl: "string",
+  });
+  const { name, configKey, fileExtensions } = info as Record<string, unknown>;
+  assertEquals([name, configKey, fileExtensions], [
+    "dprint-plugin-zig",
+    "zig",
+    ["zig", "zon"],
+  ]);
+});
+
+wasmTest("get_license_text returns the MIT license", () => {
+  const host = createFakeHost();
+  const text = host.receive(host.plugin.get_license_text());
+  assertEquals(text.startsWith("MIT License"), true);
+});
+
+// =============================================================================
+// Config tests
+// =============================================================================
+
+wasmTest("config exports return JSON of the expected shape", () => {
+  const host = createFakeHost();
+  assertEquals(host.json("get_config_diagnostics", 1), []);
+  assertEquals(host.json("get_resolved_config", 1), {});
+  assertEquals(host.json("check_config_updates"), []);
+  assertEquals(host.json("get_config_file_matching", 1), {
+    fileExtensions: ["zig", "zon"],
+    fileNames: [],
+  });
+});
+
+wasmTest("register_config and release_config accept any config ID", () => {
+  const host = createFakeHost();
+  for (const id of [0, MAX_CONFIGS - 1, MAX_CONFIGS, 0xffff_ffff]) {
+    host.send(JSON.stringify({ plugin: { id }, global: { lineWidth: 80 } }));
+    host.plugin.register_config(id);
+    assertEquals(host.json("get_config_diagnostics", id), []);
+    assertEquals(host.json("get_resolved_config", id), {});
+    host.plugin.release_config(id);
+  }
+  // Config 1 is still usable after the others came and went.
+  assertEquals(host.format("a.zig", "const a=1;"), FormatResultCode.Changed);
+  assertEquals(
+    host.receive(host.plugin.get_formatted_text()),
+    "const a = 1;\n",
+  );
+});
+
+wasmTest("a released config ID can be registered again", () => {
+  const host = createFakeHost();
+  host.plugin.release_config(1);
+  host.send("{}");
+  host.plugin.register_config(1);
+  assertEquals(host.json("get_config_diagnostics", 1), []);
+  assertEquals(host.format("a.zig", "const a=1;"), FormatResultCode.Changed);
+});
+
+// =============================================================================
+// Format tests
+// =============================================================================
+
+wasmTest("format returns result codes with matching text exports", () => {
+  const host = createFakeHost();
+  const { plugin } = host;
+
+  assertEquals(host.format("a.zig", "const a=1;"), FormatResultCode.Changed);
+  assertEquals(host.receive(plugin.get_formatted_text()), "const a = 1;\n");
+
+  assertEquals(
+    host.format("a.zig", "const a = 1;\n"),
+    FormatResultCode.NoChange,
+  );
+  // Output from the previous request is not handed out again.
+  assertEquals(plugin.get_formatted_text(), 0);
+  assertEquals(plugin.get_error_text(), 0);
+
+  assertEquals(host.format("a.zig", "const a = ;"), FormatResultCode.Error);
+  assertEquals(plugin.get_formatted_text(), 0);
+  assertStringIncludes(host.receive(plugin.get_error_text()), ":1:11: ");
+});
+
+wasmTest("format reports errors at the path set by set_file_path", () => {
+  const host = createFakeHost();
+  assertEquals(host.format("src/a.zig", "const a = ;"), FormatResultCode.Error);
+  assertEquals(
+    host.receive(host.plugin.get_error_text()),
+    "src/a.zig:1:11: expected_expr",
+  );
+});
+
+wasmTest("format parses .zon paths in ZON mode", () => {
+  const host = createFakeHost();
+  // A declaration is valid Zig but not a ZON expression.
+  assertEquals(
+    host.format("a.zig", "const a = 1;\n"),
+    FormatResultCode.NoChange,
+  );
+  assertEquals(host.format("a.zon", "const a = 1;\n"), FormatResultCode.Error);
+  assertStringIncludes(host.receive(host.plugin.get_error_text()), "a.zon:1:");
+  assertEquals(host.format("a.zon", ".{.a=1}"), FormatResultCode.Changed);
+  assertEquals(host.receive(host.plugin.get_formatted_text()), ".{ .a = 1 }\n");
+});
+
+wasmTest("set_override_config applies to one request only", () => {
+  const host = createFakeHost();
+  const override = JSON.stringify({ lineWidth: 40 });
+  assertEquals(
+    host.format("a.zig", "const a=1;", override),
+    FormatResultCode.Changed,
+  );
+  assertEquals(
+    host.format("a.zig", "const a = 1;\n"),
+    FormatResultCode.NoChange,
+  );
+});
+
+wasmTest("format_range formats the whole file", () => {
+  const host = createFakeHost();
+  host.send("a.zig");
+  host.plugin.set_file_path();
+  host.send("const a=1;\nconst b=2;\n");
+  assertEquals(host.plugin.format_range(1, 0, 5), FormatResultCode.Changed);
+  assertEquals(
+    host.receive(host.plugin.get_formatted_text()),
+    "const a = 1;\nconst b = 2;\n",
+  );
+});
+
+wasmTest("format calls no host function but host_has_cancelled", () => {
+  const host = createFakeHost();
+  host.format("a.zig", "const a=1;");
+  host.format("a.zig", "const a = ;");
+  assertEquals(host.calls.filter((c) => c !== "host_has_cancelled"), []);
+});
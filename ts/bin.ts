@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+/**
+ * @module
+ * Executable entry point for the `dprint-zig` command.
+ *
+ * @example Run with Deno
+ * ```sh
+ * deno run -A jsr:@kjanat/dprint-zig/bin --check src
+ * ```
+ */
+
+import process from "node:process";
+
+import { runCli } from "./cli.ts";
+
+process.exitCode = await runCli(process.argv.slice(2));
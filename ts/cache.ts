@@ -0,0 +1,234 @@
+/**
+ * @module
+ * On-disk cache of source texts known to be formatted.
+ *
+ * Entries map a file's absolute path to the SHA-256 of its formatted
+ * contents. An entry is dropped when the file is found with other contents,
+ * and on save when the file no longer exists. The cache file also stores a
+ * key built from the plugin version, the SHA-256 of `plugin.wasm`, the
+ * package version and the configuration; when any of them changes (for
+ * example after upgrading the plugin) the old entries are dropped.
+ * {@link withFormatCache} answers `no_change` for cached texts without
+ * calling into the Wasm module.
+ *
+ * {@link resolveCacheDir} picks `node_modules/.cache/dprint-zig` when the
+ * project has a `node_modules` directory, and a per-project directory in the
+ * user's cache directory otherwise.
+ *
+ * @example Skip files that were formatted on the last run
+ * ```ts
+ * import {
+ *   createCacheKey,
+ *   createFormatter,
+ *   openFormatCache,
+ *   resolveCacheDir,
+ *   withFormatCache,
+ * } from "@kjanat/dprint-zig";
+ *
+ * const plugin = createFormatter();
+ * const cache = await openFormatCache(
+ *   resolveCacheDir("."),
+ *   createCacheKey(plugin),
+ * );
+ * const formatter = withFormatCache(plugin, cache);
+ * formatter.formatText("main.zig", "const x = 1;\n");
+ * await cache.save();
+ * ```
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+import process from "node:process";
+
+import { resolveMode } from "./files.ts";
+import type { Formatter } from "./formatter.ts";
+import { VERSION } from "./version.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Formatted source texts, persisted by {@link openFormatCache}. */
+export interface FormatCache {
+  /** Key the entries were recorded under (see {@link createCacheKey}). */
+  readonly key: string;
+  /** Returns true if `text` is known to be formatted as the file `filePath`. */
+  has(filePath: string, text: string): boolean;
+  /** Records that `text` is formatted as the file `filePath`. */
+  add(filePath: string, text: string): void;
+  /**
+   * Drops entries for files that no longer exist, then writes the cache back
+   * to disk if entries were added or dropped.
+   */
+  save(): Promise<void>;
+}
+
+/** Contents of {@link CACHE_FILE}: content hashes by absolute path. */
+type CacheFile = { key: string; files: Record<string, string> };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Cache directory relative to a project that has a `node_modules` directory
+ * (see {@link resolveCacheDir}).
+ */
+export const DEFAULT_CACHE_DIR: string = join(
+  "node_modules",
+  ".cache",
+  "dprint-zig",
+);
+
+/** Name of the cache file inside the cache directory. */
+export const CACHE_FILE = "formatted.json";
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/** The user's cache directory, following each platform's convention. */
+function userCacheDir(): string {
+  if (process.platform === "win32") {
+    return process.env.LOCALAPPDATA || join(homedir(), "AppData", "Local");
+  }
+  if (process.platform === "darwin") {
+    return join(homedir(), "Library", "Caches");
+  }
+  return process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+}
+
+/**
+ * Returns the cache directory for the project in `cwd`:
+ * {@link DEFAULT_CACHE_DIR} if `cwd` has a `node_modules` directory, so
+ * projects without one are not given one, and otherwise
+ * `dprint-zig/<hash of cwd>` in the user's cache directory (`XDG_CACHE_HOME`
+ * or `~/.cache`, `~/Library/Caches` on macOS, `%LOCALAPPDATA%` on Windows).
+ */
+export function resolveCacheDir(cwd: string): string {
+  const root = resolve(cwd);
+  if (existsSync(join(root, "node_modules"))) {
+    return join(root, DEFAULT_CACHE_DIR);
+  }
+  return join(userCacheDir(), "dprint-zig", sha256(root).slice(0, 16));
+}
+
+/**
+ * Builds the key cache entries are valid for: the plugin version
+ * (`build_options.version`), the SHA-256 of its Wasm module, this package's
+ * version and `config` (whatever configuration the formatter was created
+ * with).
+ */
+export function createCacheKey(formatter: Formatter, config?: unknown): string {
+  return sha256(JSON.stringify({
+    plugin: formatter.getPluginInfo().version,
+    wasm: formatter.getModuleChecksum(),
+    package: VERSION,
+    config: config ?? null,
+  }));
+}
+
+/**
+ * Loads the cache in `dir` for `key`. A missing or unreadable cache file,
+ * or one written under another key, gives an empty cache.
+ */
+export async function openFormatCache(
+  dir: string,
+  key: string,
+): Promise<FormatCache> {
+  const path = join(dir, CACHE_FILE);
+  const entries = new Map<string, string>();
+  try {
+    const file: CacheFile = JSON.parse(await readFile(path, "utf8"));
+    if (file.key === key && typeof file.files === "object" && file.files) {
+      for (const [filePath, hash] of Object.entries(file.files)) {
+        if (typeof hash === "string") entries.set(filePath, hash);
+      }
+    }
+  } catch {
+    // No usable cache yet; start empty.
+  }
+  let dirty = false;
+  const hashOf = (filePath: string, text: string) =>
+    sha256(`${resolveMode(filePath)}\0${text}`);
+
+  return {
+    key,
+    has(filePath, text) {
+      const entry = resolve(filePath);
+      const hash = entries.get(entry);
+      if (hash === undefined) return false;
+      if (hash === hashOf(filePath, text)) return true;
+      // The file changed since it was cached.
+      entries.delete(entry);
+      dirty = true;
+      return false;
+    },
+    add(filePath, text) {
+      const entry = resolve(filePath);
+      const hash = hashOf(filePath, text);
+      if (entries.get(entry) === hash) return;
+      entries.set(entry, hash);
+      dirty = true;
+    },
+    async save() {
+      for (const entry of entries.keys()) {
+        if (existsSync(entry)) continue;
+        entries.delete(entry);
+        dirty = true;
+      }
+      if (!dirty) return;
+      const file: CacheFile = { key, files: Object.fromEntries(entries) };
+      await mkdir(dir, { recursive: true });
+      // Write then rename, so a concurrent run never reads a partial file.
+      const tmp = `${path}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(file));
+      await rename(tmp, path);
+      dirty = false;
+    },
+  };
+}
+
+/** Deletes the cache directory `dir`. Returns false if it did not exist. */
+export async function cleanFormatCache(dir: string): Promise<boolean> {
+  if (!existsSync(dir)) return false;
+  await rm(dir, { recursive: true });
+  return true;
+}
+
+/**
+ * Wraps `formatter` so texts in `cache` report `no_change` without being
+ * formatted, and texts found to be formatted (or produced by formatting)
+ * are added to it. Calls with an override config bypass the cache.
+ */
+export function withFormatCache(
+  formatter: Formatter,
+  cache: FormatCache,
+): Formatter {
+  return {
+    ...formatter,
+    formatText(filePath, fileText, overrideConfig, options) {
+      if (!overrideConfig && cache.has(filePath, fileText)) {
+        return { kind: "no_change" };
+      }
+      const result = formatter.formatText(
+        filePath,
+        fileText,
+        overrideConfig,
+        options,
+      );
+      if (!overrideConfig) {
+        if (result.kind === "no_change") cache.add(filePath, fileText);
+        if (result.kind === "changed") cache.add(filePath, result.text);
+      }
+      return result;
+    },
+  };
+}
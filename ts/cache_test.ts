@@ -0,0 +1,177 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import {
+  CACHE_FILE,
+  cleanFormatCache,
+  createCacheKey,
+  DEFAULT_CACHE_DIR,
+  openFormatCache,
+  resolveCacheDir,
+  withFormatCache,
+} from "./cache.ts";
+import type { Formatter } from "./formatter.ts";
+
+async function withDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), "dprint-zig-cache-"));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+}
+
+/** A formatter that appends a newline, counting its formatText calls. */
+function fakeFormatter(
+  version = "1.0.0",
+  checksum = "abc",
+): Formatter & { calls: number } {
+  const formatter = {
+    calls: 0,
+    formatText(_filePath: string, fileText: string) {
+      formatter.calls++;
+      return fileText.endsWith("\n")
+        ? { kind: "no_change" as const }
+        : { kind: "changed" as const, text: `${fileText}\n` };
+    },
+    getPluginInfo: () => ({
+      name: "dprint-plugin-zig",
+      version,
+      configKey: "zig",
+      fileExtensions: ["zig", "zon"],
+      fileNames: [],
+      helpUrl: "",
+      configSchemaUrl: "",
+      updateUrl: "",
+    }),
+    getLicenseText: () => "",
+    getModuleChecksum: () => checksum,
+  };
+  return formatter;
+}
+
+// =============================================================================
+// createCacheKey tests
+// =============================================================================
+
+Deno.test("createCacheKey changes with the plugin, its module and config", () => {
+  const key = createCacheKey(fakeFormatter());
+  assertEquals(createCacheKey(fakeFormatter()), key);
+  assertNotEquals(createCacheKey(fakeFormatter("1.0.1")), key);
+  assertNotEquals(createCacheKey(fakeFormatter("1.0.0", "abd")), key);
+  assertNotEquals(createCacheKey(fakeFormatter(), { useTabs: true }), key);
+});
+
+// =============================================================================
+// resolveCacheDir tests
+// =============================================================================
+
+Deno.test("resolveCacheDir uses node_modules only when it exists", async () => {
+  await withDir(async (dir) => {
+    const outside = resolveCacheDir(dir);
+    assertEquals(outside.startsWith(dir), false);
+    assertEquals(basename(dirname(outside)), "dprint-zig");
+    assertEquals(resolveCacheDir(join(dir, ".")), outside);
+    assertEquals(existsSync(join(dir, "node_modules")), false);
+
+    await mkdir(join(dir, "node_modules"));
+    assertEquals(resolveCacheDir(dir), join(dir, DEFAULT_CACHE_DIR));
+  });
+});
+
+// =============================================================================
+// openFormatCache tests
+// =============================================================================
+
+Deno.test("openFormatCache persists entries per key and path", async () => {
+  await withDir(async (dir) => {
+    const a = join(dir, "a.zig");
+    await writeFile(a, "const a = 1;\n");
+    const cache = await openFormatCache(dir, "k1");
+    cache.add(a, "const a = 1;\n");
+    await cache.save();
+
+    const reopened = await openFormatCache(dir, "k1");
+    assertEquals(reopened.has(a, "const a = 1;\n"), true);
+    assertEquals(reopened.has(join(dir, "b.zig"), "const a = 1;\n"), false);
+    assertEquals(reopened.has(a, "const a = 2;\n"), false);
+
+    const upgraded = await openFormatCache(dir, "k2");
+    assertEquals(upgraded.has(a, "const a = 1;\n"), false);
+  });
+});
+
+Deno.test("openFormatCache prunes deleted and changed files", async () => {
+  await withDir(async (dir) => {
+    const [a, b, c] = ["a.zig", "b.zig", "c.zig"].map((f) => join(dir, f));
+    const cache = await openFormatCache(dir, "k1");
+    for (const path of [a, b, c]) {
+      await writeFile(path, "");
+      cache.add(path, "");
+    }
+    await cache.save();
+
+    await rm(b);
+    const reopened = await openFormatCache(dir, "k1");
+    assertEquals(reopened.has(c, "const c = 3;\n"), false);
+    await reopened.save();
+
+    const file = JSON.parse(await readFile(join(dir, CACHE_FILE), "utf8"));
+    assertEquals(Object.keys(file.files), [a]);
+  });
+});
+
+Deno.test("openFormatCache ignores a corrupt cache file", async () => {
+  await withDir(async (dir) => {
+    const a = join(dir, "a.zig");
+    await writeFile(a, "");
+    await writeFile(join(dir, CACHE_FILE), "{ not json");
+    const cache = await openFormatCache(dir, "k1");
+    assertEquals(cache.has(a, ""), false);
+    cache.add(a, "");
+    await cache.save();
+    assertEquals((await openFormatCache(dir, "k1")).has(a, ""), true);
+  });
+});
+
+Deno.test("cleanFormatCache deletes the cache directory", async () => {
+  await withDir(async (root) => {
+    const dir = join(root, "cache");
+    const a = join(root, "a.zig");
+    await writeFile(a, "");
+    const cache = await openFormatCache(dir, "k1");
+    cache.add(a, "");
+    await cache.save();
+    assertEquals(await cleanFormatCache(dir), true);
+    assertEquals(existsSync(dir), false);
+    assertEquals(await cleanFormatCache(dir), false);
+  });
+});
+
+// =============================================================================
+// withFormatCache tests
+// =============================================================================
+
+Deno.test("withFormatCache skips texts known to be formatted", async () => {
+  await withDir(async (dir) => {
+    const plugin = fakeFormatter();
+    const formatter = withFormatCache(
+      plugin,
+      await openFormatCache(dir, "k1"),
+    );
+
+    assertEquals(formatter.formatText("a.zig", "x"), {
+      kind: "changed",
+      text: "x\n",
+    });
+    assertEquals(formatter.formatText("a.zig", "x\n"), { kind: "no_change" });
+    assertEquals(formatter.formatText("a.zig", "y\n"), { kind: "no_change" });
+    assertEquals(formatter.formatText("a.zig", "y\n"), { kind: "no_change" });
+    assertEquals(plugin.calls, 2);
+
+    formatter.formatText("a.zig", "y\n", { lineWidth: 80 });
+    assertEquals(plugin.calls, 3);
+  });
+});
@@ -0,0 +1,729 @@
+/**
+ * @module
+ * `dprint-zig` command-line interface.
+ *
+ * Formats `.zig` and `.zon` files in place, or checks them, using the bundled
+ * `plugin.wasm`. Exit codes match `zig fmt`: `0` on success, `1` when a file
+ * fails to parse or cannot be read, or (with `--check`) is not formatted.
+ * `--check` prints a unified diff per unformatted file; `--list` prints only
+ * the file names, like `zig fmt --check`. `--config` reads a dprint config
+ * file and refuses to format when it has problems (see `./config.ts`).
+ * `--reporter` prints `--check` results as SARIF, JUnit XML, JSON or GitHub
+ * Actions annotations instead (see `./report.ts`).
+ * Files formatted on a previous run are skipped through an on-disk cache
+ * (see `./cache.ts`) unless `--no-cache` is given; `dprint-zig cache clean`
+ * deletes it. `--staged` formats the Zig files staged for commit, reading
+ * and writing the index, and `--changed-since <ref>` the files changed since
+ * a branch point (see `./git.ts`); `dprint-zig install-hook` sets up a
+ * pre-commit hook running `--staged`. `--watch` formats (or checks) the
+ * files again whenever they are saved (see `./watch.ts`). `dprint-zig lsp`
+ * starts a language server on stdio instead (see `./lsp.ts`).
+ *
+ * @example Usage
+ * ```sh
+ * dprint-zig src build.zig                    # format in place
+ * dprint-zig --check "src/*.zig"             # diff unformatted files
+ * dprint-zig --check --list src              # list unformatted files
+ * dprint-zig --check --reporter sarif . > dprint-zig.sarif
+ * dprint-zig --stdin --stdin-filepath x.zon < x.zon
+ * dprint-zig --watch src                     # reformat on save
+ * dprint-zig --staged --check                # check staged content
+ * dprint-zig --changed-since origin/main     # format files changed on a branch
+ * dprint-zig install-hook                    # pre-commit hook (--staged --check)
+ * dprint-zig cache clean                     # delete the cache
+ * dprint-zig lsp                             # language server on stdio
+ * ```
+ */
+
+import { existsSync } from "node:fs";
+import { readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+import process from "node:process";
+import { parseArgs } from "node:util";
+
+import {
+  cleanFormatCache,
+  createCacheKey,
+  DEFAULT_CACHE_DIR,
+  type FormatCache,
+  openFormatCache,
+  resolveCacheDir,
+  withFormatCache,
+} from "./cache.ts";
+import {
+  formatConfigDiagnostics,
+  parseJsonc,
+  validateConfig,
+} from "./config.ts";
+import { createUnifiedDiff, DEFAULT_CONTEXT } from "./diff.ts";
+import {
+  collectFiles,
+  createExcludeMatcher,
+  DEFAULT_EXCLUDES,
+  globBase,
+  isGlob,
+} from "./files.ts";
+import {
+  createFormatter,
+  type FormatError,
+  type FormatResult,
+  type Formatter,
+  getDefaultFormatter,
+} from "./formatter.ts";
+import {
+  DEFAULT_HOOK_COMMAND,
+  installPreCommitHook,
+  listChangedFiles,
+  listStagedFiles,
+  readStagedFile,
+  type StagedFile,
+  writeStagedFile,
+} from "./git.ts";
+import { runLanguageServer } from "./lsp.ts";
+import {
+  type CheckedFile,
+  type ReporterName,
+  REPORTERS,
+  toCheckedFile,
+} from "./report.ts";
+import { type Watcher, watchPaths } from "./watch.ts";
+
+// =============================================================================
+// Constants & Types
+// =============================================================================
+
+/** Exit code for success. */
+export const EXIT_SUCCESS = 0;
+
+/** Exit code for parse errors, I/O errors, usage errors and failed checks. */
+export const EXIT_FAILURE = 1;
+
+/** Path reported for stdin input when `--stdin-filepath` is not given. */
+export const STDIN_PATH = "<stdin>";
+
+/** Usage text printed by `--help`. */
+export const HELP: string = `Usage: dprint-zig [options] [file|dir|glob]...
+       dprint-zig install-hook [--fix] [--force] [--command <cmd>]
+       dprint-zig cache clean
+       dprint-zig lsp
+
+Formats Zig (.zig) and ZON (.zon) files in place. Directories are searched
+recursively; node_modules, .zig-cache and zig-out are skipped. Files already
+formatted on a previous run are skipped using a cache in
+${DEFAULT_CACHE_DIR} (or the user cache directory when there is no
+node_modules), which cache clean deletes; --check only reads it. The lsp
+command runs a language server (formatting and parse diagnostics) on stdio.
+
+install-hook writes a git pre-commit hook running "--staged --check" (with
+--fix, "--staged"). --command sets how the hook runs dprint-zig (default:
+${DEFAULT_HOOK_COMMAND}); --force replaces an existing hook.
+
+Options:
+  --check                   Show a diff for each unformatted file instead of
+                            writing it; exit 1 if any are found
+  --list                    With --check, print file names instead of diffs
+  --context <lines>         Context lines in diffs (default: 3)
+  --color <when>            Colour diffs: auto, always or never (default: auto)
+  --reporter <format>       With --check, print a github, json, junit or
+                            sarif report to stdout instead of diffs
+  --stdin                   Format stdin and write the result to stdout
+  --stdin-filepath <path>   Path used for stdin (selects .zig/.zon mode)
+  --exclude <glob>          Also skip matching paths (repeatable)
+  --staged                  Format the Zig files staged for commit: read them
+                            from the index and stage the result (paths
+                            narrow the selection)
+  --changed-since <ref>     Only format Zig files changed since the merge
+                            base of <ref> and HEAD
+  --watch                   Keep running and format (or with --check, check)
+                            files again when they change
+  --config <path>           dprint config file (JSON/JSONC); exit 1 if its
+                            global options or zig section are invalid
+  --no-cache                Format every file, without reading or writing
+                            the cache
+  -h, --help                Show this help`;
+
+/** Console streams used by the CLI (replaceable in tests). */
+export type CliIo = {
+  readStdin(): Promise<string>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** Whether stdout supports ANSI colours (for `--color auto`). */
+  supportsColor?(): boolean;
+};
+
+/** When to colour diff output. */
+export type ColorMode = "auto" | "always" | "never";
+
+/** Options for {@link runCli}. */
+export type CliOptions = {
+  /** Console streams. Defaults to the process streams. */
+  io?: CliIo;
+  /** Formatter to use. Defaults to one backed by the bundled plugin. */
+  formatter?: Formatter;
+  /** Working directory for relative paths. Defaults to the process cwd. */
+  cwd?: string;
+  /**
+   * Cache directory, relative to `cwd`. Defaults to
+   * {@link resolveCacheDir}`(cwd)`.
+   */
+  cacheDir?: string;
+  /** Stops `--watch` when aborted. */
+  signal?: AbortSignal;
+  /** Watches directories for `--watch`. Defaults to `fs.watch`. */
+  watcher?: Watcher;
+};
+
+/** Parsed command-line arguments. */
+export type CliArgs = {
+  check: boolean;
+  list: boolean;
+  context: number;
+  color: ColorMode;
+  reporter: ReporterName | undefined;
+  stdin: boolean;
+  stdinFilepath: string | undefined;
+  excludes: string[];
+  staged: boolean;
+  changedSince: string | undefined;
+  watch: boolean;
+  config: string | undefined;
+  /** False with `--no-cache`. */
+  cache: boolean;
+  help: boolean;
+  paths: string[];
+};
+
+// =============================================================================
+// Argument Parsing
+// =============================================================================
+
+/** Parses CLI arguments. Throws on unknown options or invalid values. */
+export function parseCliArgs(args: string[]): CliArgs {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      check: { type: "boolean", default: false },
+      list: { type: "boolean", default: false },
+      context: { type: "string", default: `${DEFAULT_CONTEXT}` },
+      color: { type: "string", default: "auto" },
+      reporter: { type: "string" },
+      stdin: { type: "boolean", default: false },
+      "stdin-filepath": { type: "string" },
+      exclude: { type: "string", multiple: true, default: [] },
+      staged: { type: "boolean", default: false },
+      "changed-since": { type: "string" },
+      watch: { type: "boolean", default: false },
+      config: { type: "string" },
+      "no-cache": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const context = Number(values.context);
+  if (!Number.isInteger(context) || context < 0) {
+    throw new TypeError(`invalid --context: ${values.context}`);
+  }
+  if (!["auto", "always", "never"].includes(values.color)) {
+    throw new TypeError(`invalid --color: ${values.color}`);
+  }
+  if (
+    values.reporter !== undefined && !Object.hasOwn(REPORTERS, values.reporter)
+  ) {
+    throw new TypeError(`invalid --reporter: ${values.reporter}`);
+  }
+
+  return {
+    check: values.check,
+    list: values.list,
+    context,
+    color: values.color as ColorMode,
+    reporter: values.reporter as ReporterName | undefined,
+    stdin: values.stdin,
+    stdinFilepath: values["stdin-filepath"],
+    excludes: values.exclude,
+    staged: values.staged,
+    changedSince: values["changed-since"],
+    watch: values.watch,
+    config: values.config,
+    cache: !values["no-cache"],
+    help: values.help,
+    paths: positionals,
+  };
+}
+
+// =============================================================================
+// Output Helpers
+// =============================================================================
+
+/**
+ * Formats a plugin error as `path:line:column: tag` lines, using `path`
+ * instead of the path the plugin saw.
+ */
+export function formatErrorLines(path: string, error: FormatError): string[] {
+  if (error.diagnostics.length === 0) {
+    return [`${path}: error: ${error.message}`];
+  }
+  return error.diagnostics.map((d) =>
+    `${path}:${d.line}:${d.column}: ${d.tag}`
+  );
+}
+
+const defaultIo: CliIo = {
+  readStdin: async () => {
+    const decoder = new TextDecoder();
+    let text = "";
+    for await (const chunk of process.stdin) {
+      text += decoder.decode(chunk, { stream: true });
+    }
+    return text + decoder.decode();
+  },
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  supportsColor: () => !!process.stdout.isTTY && !process.env.NO_COLOR,
+};
+
+/**
+ * Prints what `--check` reports for a file that would change: its name with
+ * `--list`, otherwise a unified diff.
+ */
+function reportUnformatted(
+  args: CliArgs,
+  io: CliIo,
+  path: string,
+  before: string,
+  after: string,
+): void {
+  if (args.list) {
+    io.stdout(`${path}\n`);
+    return;
+  }
+  const color = args.color === "always"
+    || (args.color === "auto" && (io.supportsColor?.() ?? false));
+  io.stdout(createUnifiedDiff(before, after, {
+    path,
+    context: args.context,
+    color,
+  }));
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+async function runStdin(
+  args: CliArgs,
+  formatter: Formatter,
+  io: CliIo,
+): Promise<number> {
+  const path = args.stdinFilepath ?? STDIN_PATH;
+  const text = await io.readStdin();
+  const result = formatter.formatText(path, text);
+
+  if (args.reporter) {
+    const checked = toCheckedFile(path, text, result);
+    io.stdout(REPORTERS[args.reporter]([checked]));
+    return checked.problems.length > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+  }
+  if (result.kind === "error") {
+    for (const line of formatErrorLines(path, result)) io.stderr(`${line}\n`);
+    return EXIT_FAILURE;
+  }
+  if (args.check) {
+    if (result.kind === "no_change") return EXIT_SUCCESS;
+    reportUnformatted(args, io, path, text, result.text);
+    return EXIT_FAILURE;
+  }
+
+  io.stdout(result.kind === "changed" ? result.text : text);
+  return EXIT_SUCCESS;
+}
+
+/** A file to format: where its text is read from and written to. */
+type SourceFile = {
+  path: string;
+  read(): Promise<string>;
+  write(text: string): Promise<void>;
+};
+
+function diskFile(path: string): SourceFile {
+  return {
+    path,
+    read: () => readFile(path, "utf8"),
+    write: (text) => writeFile(path, text),
+  };
+}
+
+/**
+ * A file read from and written to the index. The working-tree copy is
+ * updated too when it has no unstaged changes.
+ */
+function stagedFile(path: string, cwd: string): SourceFile {
+  let staged: StagedFile | undefined;
+  return {
+    path,
+    async read() {
+      staged = await readStagedFile(path, cwd);
+      return staged.text;
+    },
+    async write(text) {
+      const { mode, text: before } = staged!;
+      await writeStagedFile(path, { mode, text }, cwd);
+      if (existsSync(path) && await readFile(path, "utf8") === before) {
+        await writeFile(path, text);
+      }
+    },
+  };
+}
+
+/** The default excludes plus the `--exclude` globs, which never replace them. */
+function excludesOf(args: CliArgs): string[] {
+  return [...DEFAULT_EXCLUDES, ...args.excludes];
+}
+
+/** Selects the files to format from the paths, the index or a git diff. */
+async function selectFiles(args: CliArgs, cwd: string): Promise<SourceFile[]> {
+  const excludes = excludesOf(args);
+  if (!args.staged && args.changedSince === undefined) {
+    return (await collectFiles(args.paths, { cwd, excludes })).map(diskFile);
+  }
+  const isExcluded = createExcludeMatcher(cwd, excludes);
+  const paths = (args.staged
+    ? await listStagedFiles(cwd, args.paths)
+    : await listChangedFiles(args.changedSince!, cwd, args.paths))
+    .filter((path) => !isExcluded(path));
+  return args.staged
+    ? paths.map((path) => stagedFile(path, cwd))
+    : paths.map(diskFile);
+}
+
+/**
+ * Formats `files`, reporting like the CLI does; returns true if any failed.
+ * With `results`, check results are collected there instead of printed.
+ */
+async function formatFiles(
+  args: CliArgs,
+  formatter: Formatter,
+  io: CliIo,
+  cwd: string,
+  files: SourceFile[],
+  results?: CheckedFile[],
+): Promise<boolean> {
+  let failed = false;
+
+  for (const file of files) {
+    const display = relative(cwd, file.path) || file.path;
+
+    let text: string;
+    let result: FormatResult;
+    try {
+      text = await file.read();
+      result = formatter.formatText(file.path, text);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : `${err}`;
+      if (results) {
+        results.push({ path: display, problems: [{ kind: "error", message }] });
+      } else {
+        io.stderr(`${display}: error: ${message}\n`);
+      }
+      failed = true;
+      continue;
+    }
+
+    if (results) {
+      const checked = toCheckedFile(display, text, result);
+      results.push(checked);
+      if (checked.problems.length > 0) failed = true;
+    } else if (result.kind === "error") {
+      for (const line of formatErrorLines(display, result)) {
+        io.stderr(`${line}\n`);
+      }
+      failed = true;
+    } else if (result.kind === "changed") {
+      if (args.check) {
+        reportUnformatted(args, io, display, text, result.text);
+        failed = true;
+      } else {
+        await file.write(result.text);
+        io.stdout(`${display}\n`);
+      }
+    }
+  }
+
+  return failed;
+}
+
+/** Saves `cache`, except with `--check`, which only reads it. */
+async function saveCache(
+  args: CliArgs,
+  cache: FormatCache | undefined,
+  io: CliIo,
+): Promise<void> {
+  if (args.check) return;
+  try {
+    await cache?.save();
+  } catch (err) {
+    io.stderr(
+      `warning: could not write cache: ${
+        err instanceof Error ? err.message : err
+      }\n`,
+    );
+  }
+}
+
+async function runFiles(
+  args: CliArgs,
+  formatter: Formatter,
+  io: CliIo,
+  cwd: string,
+  cache: FormatCache | undefined,
+): Promise<number> {
+  let files: SourceFile[];
+  try {
+    files = await selectFiles(args, cwd);
+  } catch (err) {
+    io.stderr(`error: ${err instanceof Error ? err.message : err}\n`);
+    return EXIT_FAILURE;
+  }
+
+  if (cache) formatter = withFormatCache(formatter, cache);
+  const results: CheckedFile[] = [];
+  const failed = await formatFiles(
+    args,
+    formatter,
+    io,
+    cwd,
+    files,
+    args.reporter ? results : undefined,
+  );
+  await saveCache(args, cache, io);
+  if (args.reporter) io.stdout(REPORTERS[args.reporter](results));
+  return failed ? EXIT_FAILURE : EXIT_SUCCESS;
+}
+
+/** Directories to watch for `patterns`: globs' bases, files' parents. */
+async function watchRoots(
+  patterns: readonly string[],
+  cwd: string,
+): Promise<string[]> {
+  const roots = new Set<string>();
+  for (const pattern of patterns) {
+    if (isGlob(pattern)) {
+      roots.add(resolve(cwd, globBase(pattern.replaceAll("\\", "/"))));
+      continue;
+    }
+    const path = resolve(cwd, pattern);
+    roots.add((await stat(path)).isDirectory() ? path : dirname(path));
+  }
+  return [...roots];
+}
+
+/**
+ * Formats the files once, then again whenever they change, until
+ * `options.signal` is aborted. Files whose contents match what was last read
+ * or written are skipped, so the CLI's own writes do not trigger new runs.
+ */
+async function runWatch(
+  args: CliArgs,
+  formatter: Formatter,
+  io: CliIo,
+  cwd: string,
+  cache: FormatCache | undefined,
+  options: CliOptions,
+): Promise<number> {
+  const excludes = excludesOf(args);
+  const seen = new Map<string, string>();
+  const watchedFile = (path: string): SourceFile => ({
+    path,
+    async read() {
+      const text = await readFile(path, "utf8");
+      seen.set(path, text);
+      return text;
+    },
+    async write(text) {
+      seen.set(path, text);
+      await writeFile(path, text);
+    },
+  });
+
+  if (cache) formatter = withFormatCache(formatter, cache);
+  let roots: string[];
+  try {
+    const files = await collectFiles(args.paths, { cwd, excludes });
+    roots = await watchRoots(args.paths, cwd);
+    await formatFiles(args, formatter, io, cwd, files.map(watchedFile));
+    await saveCache(args, cache, io);
+  } catch (err) {
+    io.stderr(`error: ${err instanceof Error ? err.message : err}\n`);
+    return EXIT_FAILURE;
+  }
+
+  io.stderr("Watching for changes (Ctrl-C to stop)\n");
+  try {
+    await watchPaths({
+      roots,
+      isExcluded: createExcludeMatcher(cwd, excludes),
+      signal: options.signal,
+      watcher: options.watcher,
+      async onChange(paths) {
+        let selected: Set<string>;
+        try {
+          selected = new Set(await collectFiles(args.paths, { cwd, excludes }));
+        } catch (err) {
+          io.stderr(`error: ${err instanceof Error ? err.message : err}\n`);
+          return;
+        }
+        const changed: SourceFile[] = [];
+        for (const path of paths) {
+          if (!selected.has(path)) continue;
+          const text = await readFile(path, "utf8").catch(() => undefined);
+          if (text === undefined) seen.delete(path);
+          else if (text !== seen.get(path)) changed.push(watchedFile(path));
+        }
+        await formatFiles(args, formatter, io, cwd, changed);
+        await saveCache(args, cache, io);
+      },
+    });
+  } catch (err) {
+    io.stderr(`error: ${err instanceof Error ? err.message : err}\n`);
+    return EXIT_FAILURE;
+  }
+  return EXIT_SUCCESS;
+}
+
+async function runInstallHook(
+  args: string[],
+  io: CliIo,
+  cwd: string,
+): Promise<number> {
+  try {
+    const { values } = parseArgs({
+      args,
+      options: {
+        fix: { type: "boolean", default: false },
+        force: { type: "boolean", default: false },
+        command: { type: "string" },
+      },
+    });
+    const path = await installPreCommitHook(cwd, values);
+    io.stdout(`Installed ${relative(cwd, path) || path}\n`);
+    return EXIT_SUCCESS;
+  } catch (err) {
+    io.stderr(`error: ${err instanceof Error ? err.message : err}\n`);
+    return EXIT_FAILURE;
+  }
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+/** Runs the CLI with `args` (without the program name); returns the exit code. */
+export async function runCli(
+  args: string[],
+  options: CliOptions = {},
+): Promise<number> {
+  const io = options.io ?? defaultIo;
+  const cwd = resolve(options.cwd ?? process.cwd());
+
+  const cacheDir = options.cacheDir === undefined
+    ? resolveCacheDir(cwd)
+    : resolve(cwd, options.cacheDir);
+
+  if (args[0] === "lsp") {
+    return await runLanguageServer({ formatter: options.formatter });
+  }
+  if (args[0] === "cache") {
+    if (args.length !== 2 || args[1] !== "clean") {
+      io.stderr("error: expected: dprint-zig cache clean\n");
+      return EXIT_FAILURE;
+    }
+    const display = relative(cwd, cacheDir) || cacheDir;
+    io.stdout(
+      await cleanFormatCache(cacheDir)
+        ? `Removed ${display}\n`
+        : `No cache at ${display}\n`,
+    );
+    return EXIT_SUCCESS;
+  }
+  if (args[0] === "install-hook") {
+    return await runInstallHook(args.slice(1), io, cwd);
+  }
+
+  let parsed: CliArgs;
+  try {
+    parsed = parseCliArgs(args);
+  } catch (err) {
+    io.stderr(`error: ${err instanceof Error ? err.message : err}\n`);
+    return EXIT_FAILURE;
+  }
+
+  if (parsed.help) {
+    io.stdout(`${HELP}\n`);
+    return EXIT_SUCCESS;
+  }
+  if (parsed.reporter !== undefined && (!parsed.check || parsed.watch)) {
+    io.stderr(
+      "error: --reporter requires --check and cannot be used with --watch\n",
+    );
+    return EXIT_FAILURE;
+  }
+  if (parsed.stdin && parsed.paths.length > 0) {
+    io.stderr("error: cannot combine --stdin with file arguments\n");
+    return EXIT_FAILURE;
+  }
+  const fromGit = parsed.staged || parsed.changedSince !== undefined;
+  if (parsed.staged && parsed.changedSince !== undefined) {
+    io.stderr("error: cannot combine --staged with --changed-since\n");
+    return EXIT_FAILURE;
+  }
+  if (parsed.watch && (parsed.stdin || fromGit)) {
+    io.stderr(
+      "error: cannot combine --watch with --stdin, --staged or --changed-since\n",
+    );
+    return EXIT_FAILURE;
+  }
+  if (parsed.stdin && fromGit) {
+    io.stderr(
+      "error: cannot combine --stdin with --staged or --changed-since\n",
+    );
+    return EXIT_FAILURE;
+  }
+  if (!parsed.stdin && !fromGit && parsed.paths.length === 0) {
+    io.stderr(`error: expected at least one file, directory or glob\n\n`);
+    io.stderr(`${HELP}\n`);
+    return EXIT_FAILURE;
+  }
+
+  let formatter = options.formatter;
+  let config: unknown;
+  if (parsed.config !== undefined) {
+    const display = relative(cwd, resolve(cwd, parsed.config));
+    try {
+      config = parseJsonc(await readFile(resolve(cwd, parsed.config), "utf8"));
+    } catch (err) {
+      io.stderr(
+        `${display}: error: ${err instanceof Error ? err.message : err}\n`,
+      );
+      return EXIT_FAILURE;
+    }
+    const { globalConfig, pluginConfig, diagnostics } = validateConfig(config);
+    if (diagnostics.length > 0) {
+      for (const line of formatConfigDiagnostics(diagnostics)) {
+        io.stderr(`${display}: ${line}\n`);
+      }
+      return EXIT_FAILURE;
+    }
+    formatter ??= createFormatter({ globalConfig, pluginConfig });
+  }
+
+  formatter ??= getDefaultFormatter();
+  if (parsed.stdin) return await runStdin(parsed, formatter, io);
+
+  const cache = parsed.cache
+    ? await openFormatCache(cacheDir, createCacheKey(formatter, config))
+    : undefined;
+  return parsed.watch
+    ? await runWatch(parsed, formatter, io, cwd, cache, options)
+    : await runFiles(parsed, formatter, io, cwd, cache);
+}
@@ -0,0 +1,699 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { createTestFormatter, wasmTest } from "./_testing.ts";
+import {
+  type CliIo,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  formatErrorLines,
+  parseCliArgs,
+  runCli,
+} from "./cli.ts";
+import type { Formatter } from "./formatter.ts";
+import { runGit } from "./git.ts";
+import type { Watcher } from "./watch.ts";
+
+/** Captures CLI output; `stdin` is returned by readStdin. */
+function captureIo(stdin = ""): CliIo & { out: string; err: string } {
+  const io = {
+    out: "",
+    err: "",
+    readStdin: () => Promise.resolve(stdin),
+    stdout: (text: string) => void (io.out += text),
+    stderr: (text: string) => void (io.err += text),
+  };
+  return io;
+}
+
+async function withDir(
+  files: Record<string, string>,
+  fn: (dir: string) => Promise<void>,
+): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), "dprint-zig-cli-"));
+  try {
+    // Keeps the CLI's cache inside the fixture (see resolveCacheDir).
+    await mkdir(join(dir, "node_modules"));
+    for (const [name, text] of Object.entries(files)) {
+      await mkdir(dirname(join(dir, name)), { recursive: true });
+      await writeFile(join(dir, name), text);
+    }
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+}
+
+/** Like {@link withDir}, with `files` committed to a new git repository. */
+function withRepo(
+  files: Record<string, string>,
+  fn: (
+    dir: string,
+    git: (...args: string[]) => Promise<unknown>,
+  ) => Promise<void>,
+): Promise<void> {
+  return withDir(files, async (dir) => {
+    const git = (...args: string[]) => runGit(args, { cwd: dir, check: true });
+    await git("init", "-q", "-b", "main");
+    await git("config", "user.email", "test@example.com");
+    await git("config", "user.name", "Test");
+    await git("add", "-A");
+    await git("commit", "-q", "-m", "initial");
+    await fn(dir, git);
+  });
+}
+
+/** A plugin-backed formatter that counts its formatText calls. */
+function countingFormatter(): Formatter & { calls: number } {
+  const plugin = createTestFormatter();
+  const counting = {
+    ...plugin,
+    calls: 0,
+    formatText(...args: Parameters<Formatter["formatText"]>) {
+      counting.calls++;
+      return plugin.formatText(...args);
+    },
+  };
+  return counting;
+}
+
+// =============================================================================
+// parseCliArgs tests
+// =============================================================================
+
+Deno.test("parseCliArgs parses flags and positionals", () => {
+  assertEquals(
+    parseCliArgs([
+      "--check",
+      "--exclude",
+      "vendor/**",
+      "--exclude=gen/**",
+      "src",
+      "build.zig",
+    ]),
+    {
+      check: true,
+      list: false,
+      context: 3,
+      color: "auto",
+      reporter: undefined,
+      stdin: false,
+      stdinFilepath: undefined,
+      excludes: ["vendor/**", "gen/**"],
+      staged: false,
+      changedSince: undefined,
+      watch: false,
+      config: undefined,
+      cache: true,
+      help: false,
+      paths: ["src", "build.zig"],
+    },
+  );
+});
+
+Deno.test("parseCliArgs parses stdin options", () => {
+  const args = parseCliArgs(["--stdin", "--stdin-filepath", "x.zon"]);
+  assertEquals(args.stdin, true);
+  assertEquals(args.stdinFilepath, "x.zon");
+});
+
+Deno.test("parseCliArgs parses diff options", () => {
+  const args = parseCliArgs(["--list", "--context=1", "--color", "never"]);
+  assertEquals(args.list, true);
+  assertEquals(args.context, 1);
+  assertEquals(args.color, "never");
+});
+
+Deno.test("parseCliArgs rejects invalid diff options", () => {
+  assertThrows(() => parseCliArgs(["--context", "-1"]), TypeError);
+  assertThrows(() => parseCliArgs(["--context", "x"]), TypeError);
+  assertThrows(() => parseCliArgs(["--color", "sometimes"]), TypeError);
+});
+
+Deno.test("parseCliArgs parses --reporter", () => {
+  assertEquals(parseCliArgs(["--reporter", "sarif", "src"]).reporter, "sarif");
+  assertThrows(() => parseCliArgs(["--reporter", "tap"]), TypeError);
+});
+
+Deno.test("parseCliArgs parses --no-cache", () => {
+  assertEquals(parseCliArgs(["--no-cache", "src"]).cache, false);
+});
+
+Deno.test("parseCliArgs parses git options", () => {
+  const args = parseCliArgs(["--changed-since", "origin/main", "src"]);
+  assertEquals([args.staged, args.changedSince], [false, "origin/main"]);
+  assertEquals(parseCliArgs(["--staged"]).staged, true);
+});
+
+Deno.test("parseCliArgs parses --watch", () => {
+  assertEquals(parseCliArgs(["--watch", "src"]).watch, true);
+  assertEquals(parseCliArgs(["src"]).watch, false);
+});
+
+Deno.test("parseCliArgs rejects unknown options", () => {
+  assertThrows(() => parseCliArgs(["--nope"]));
+});
+
+// =============================================================================
+// formatErrorLines tests
+// =============================================================================
+
+Deno.test("formatErrorLines uses the given path for diagnostics", () => {
+  assertEquals(
+    formatErrorLines("src/a.zig", {
+      kind: "error",
+      message: "<unknown>:1:7: expected_expr",
+      diagnostics: [{
+        file: "<unknown>",
+        line: 1,
+        column: 7,
+        tag: "expected_expr",
+        message: "expected expression",
+      }],
+    }),
+    ["src/a.zig:1:7: expected_expr"],
+  );
+});
+
+Deno.test("formatErrorLines falls back to the raw message", () => {
+  assertEquals(
+    formatErrorLines("a.zig", {
+      kind: "error",
+      message: "Out of memory",
+      diagnostics: [],
+    }),
+    ["a.zig: error: Out of memory"],
+  );
+});
+
+// =============================================================================
+// runCli tests
+// =============================================================================
+
+Deno.test("runCli prints help", async () => {
+  const io = captureIo();
+  assertEquals(await runCli(["--help"], { io }), EXIT_SUCCESS);
+  assertStringIncludes(io.out, "Usage: dprint-zig");
+});
+
+Deno.test("runCli fails without inputs", async () => {
+  const io = captureIo();
+  assertEquals(await runCli([], { io }), EXIT_FAILURE);
+  assertStringIncludes(io.err, "expected at least one file");
+});
+
+Deno.test("runCli rejects unknown options", async () => {
+  const io = captureIo();
+  assertEquals(await runCli(["--bogus"], { io }), EXIT_FAILURE);
+  assertStringIncludes(io.err, "error:");
+});
+
+wasmTest("runCli --config rejects an invalid zig section", async () => {
+  await withDir({
+    "dprint.jsonc": `{
+      // Typo in the plugin section.
+      "lineWidth": 80,
+      "zig": { "lineWidht": 100, },
+    }`,
+    "a.zig": "const x=1;",
+  }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["--config", "dprint.jsonc", "."], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_FAILURE);
+    assertEquals(
+      io.err,
+      "dprint.jsonc: zig.lineWidht: Unknown property in configuration. "
+        + "Did you mean \"lineWidth\"?\n",
+    );
+    assertEquals(await readFile(join(dir, "a.zig"), "utf8"), "const x=1;");
+  });
+});
+
+wasmTest("runCli --config formats with a valid config", async () => {
+  await withDir({
+    "dprint.json": `{ "useTabs": false, "zig": { "locked": true } }`,
+    "a.zig": "const x=1;",
+  }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["--config", "dprint.json", "."], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_SUCCESS);
+    assertEquals(io.out, "a.zig\n");
+  });
+});
+
+Deno.test("runCli --config reports unreadable config files", async () => {
+  await withDir({ "dprint.json": "{ nope" }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["--config", "dprint.json", "."], {
+      io,
+      cwd: dir,
+    });
+    assertEquals(code, EXIT_FAILURE);
+    assertStringIncludes(io.err, "dprint.json: error: ");
+  });
+});
+
+wasmTest("runCli formats files in place and lists them", async () => {
+  await withDir({
+    "a.zig": "const x=1;",
+    "b.zig": "const y = 2;\n",
+  }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["."], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_SUCCESS);
+    assertEquals(io.out, "a.zig\n");
+    assertEquals(await readFile(join(dir, "a.zig"), "utf8"), "const x = 1;\n");
+  });
+});
+
+wasmTest("runCli --exclude adds to the default excludes", async () => {
+  await withDir({
+    "a.zig": "const x=1;",
+    "gen/b.zig": "const y=2;",
+    "zig-out/x.zig": "const z=3;",
+  }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["--exclude", "gen/**", "--no-cache", "."], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_SUCCESS);
+    assertEquals(io.out, "a.zig\n");
+    assertEquals(
+      await readFile(join(dir, "zig-out", "x.zig"), "utf8"),
+      "const z=3;",
+    );
+  });
+});
+
+wasmTest("runCli --check prints diffs without writing", async () => {
+  await withDir({ "a.zig": "const x=1;\n" }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["--check", "."], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_FAILURE);
+    assertEquals(
+      io.out,
+      [
+        "--- a/a.zig",
+        "+++ b/a.zig",
+        "@@ -1 +1 @@",
+        "-const x=1;",
+        "+const x = 1;",
+        "",
+      ].join("\n"),
+    );
+    assertEquals(await readFile(join(dir, "a.zig"), "utf8"), "const x=1;\n");
+  });
+});
+
+wasmTest("runCli --check --color always colours diffs", async () => {
+  await withDir({ "a.zig": "const x=1;\n" }, async (dir) => {
+    const io = captureIo();
+    await runCli(["--check", "--color", "always", "."], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertStringIncludes(io.out, "\x1b[31m-const x=1;\x1b[0m");
+    assertStringIncludes(io.out, "\x1b[32m+const x = 1;\x1b[0m");
+  });
+});
+
+wasmTest("runCli --check --list lists unformatted files", async () => {
+  await withDir({ "a.zig": "const x=1;" }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["--check", "--list", "*.zig"], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_FAILURE);
+    assertEquals(io.out, "a.zig\n");
+    assertEquals(await readFile(join(dir, "a.zig"), "utf8"), "const x=1;");
+  });
+});
+
+wasmTest("runCli --check succeeds on formatted files", async () => {
+  await withDir({ "a.zig": "const x = 1;\n" }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["--check", "."], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_SUCCESS);
+    assertEquals(io.out, "");
+  });
+});
+
+wasmTest("runCli reports parse errors as path:line:col: tag", async () => {
+  await withDir({ "bad.zig": "const =" }, async (dir) => {
+    const io = captureIo();
+    const code = await runCli(["bad.zig"], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_FAILURE);
+    assertEquals(/^bad\.zig:1:\d+: \w+\n$/.test(io.err), true, io.err);
+  });
+});
+
+wasmTest(
+  "runCli --check --reporter prints a report instead of diffs",
+  async () => {
+    await withDir({
+      "a.zig": "const x = 1;\nconst y=2;\n",
+      "b.zig": "const z = 3;\n",
+      "bad.zig": "const =",
+    }, async (dir) => {
+      const io = captureIo();
+      const code = await runCli(
+        ["--check", "--reporter", "github", "--no-cache", "."],
+        { io, cwd: dir, formatter: createTestFormatter() },
+      );
+      assertEquals(code, EXIT_FAILURE);
+      assertEquals(io.err, "");
+      const lines = io.out.trimEnd().split("\n");
+      assertEquals(lines.length, 2, io.out);
+      assertEquals(
+        lines[0],
+        "::error file=a.zig,line=2,title=Unformatted file::File is not formatted",
+      );
+      assertEquals(
+        lines[1].startsWith("::error file=bad.zig,line=1,col="),
+        true,
+      );
+    });
+  },
+);
+
+wasmTest("runCli --stdin --check --reporter reports stdin", async () => {
+  const io = captureIo("const x = 1;\n");
+  const code = await runCli(["--stdin", "--check", "--reporter", "junit"], {
+    io,
+    formatter: createTestFormatter(),
+  });
+  assertEquals(code, EXIT_SUCCESS);
+  assertStringIncludes(
+    io.out,
+    "<testcase classname=\"dprint-zig\" name=\"&lt;stdin&gt;\"/>",
+  );
+});
+
+Deno.test("runCli --reporter requires --check", async () => {
+  const io = captureIo();
+  assertEquals(await runCli(["--reporter", "json", "."], { io }), EXIT_FAILURE);
+  assertStringIncludes(io.err, "--reporter requires --check");
+});
+
+wasmTest("runCli skips files formatted on a previous run", async () => {
+  await withDir({
+    "a.zig": "const x=1;",
+    "b.zig": "const y = 2;\n",
+  }, async (dir) => {
+    const first = countingFormatter();
+    await runCli(["."], { io: captureIo(), cwd: dir, formatter: first });
+    assertEquals(first.calls, 2);
+
+    const second = countingFormatter();
+    const io = captureIo();
+    const code = await runCli(["--check", "."], {
+      io,
+      cwd: dir,
+      formatter: second,
+    });
+    assertEquals(code, EXIT_SUCCESS);
+    assertEquals(second.calls, 0);
+
+    const uncached = countingFormatter();
+    await runCli(["--check", "--no-cache", "."], {
+      io: captureIo(),
+      cwd: dir,
+      formatter: uncached,
+    });
+    assertEquals(uncached.calls, 2);
+  });
+});
+
+wasmTest("runCli --check reads the cache without writing it", async () => {
+  await withDir({ "a.zig": "const x = 1;\n" }, async (dir) => {
+    const cacheDir = join(dir, "node_modules", ".cache", "dprint-zig");
+    await runCli(["--check", "."], {
+      io: captureIo(),
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(existsSync(cacheDir), false);
+
+    await runCli(["."], {
+      io: captureIo(),
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    const checked = countingFormatter();
+    await runCli(["--check", "."], {
+      io: captureIo(),
+      cwd: dir,
+      formatter: checked,
+    });
+    assertEquals(checked.calls, 0);
+  });
+});
+
+wasmTest("runCli cache clean deletes the cache", async () => {
+  await withDir({ "a.zig": "const x = 1;\n" }, async (dir) => {
+    await runCli(["."], {
+      io: captureIo(),
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+
+    const io = captureIo();
+    assertEquals(
+      await runCli(["cache", "clean"], { io, cwd: dir }),
+      EXIT_SUCCESS,
+    );
+    assertEquals(
+      io.out,
+      `Removed ${join("node_modules", ".cache", "dprint-zig")}\n`,
+    );
+
+    const again = captureIo();
+    await runCli(["cache", "clean"], { io: again, cwd: dir });
+    assertStringIncludes(again.out, "No cache at ");
+  });
+});
+
+Deno.test("runCli cache rejects unknown subcommands", async () => {
+  const io = captureIo();
+  assertEquals(await runCli(["cache", "purge"], { io }), EXIT_FAILURE);
+  assertStringIncludes(io.err, "dprint-zig cache clean");
+});
+
+wasmTest("runCli --staged --check checks the staged content", async () => {
+  await withRepo({ "a.zig": "const a = 1;\n" }, async (dir, git) => {
+    await writeFile(join(dir, "a.zig"), "const a=2;\n");
+    await git("add", "a.zig");
+    await writeFile(join(dir, "a.zig"), "const a = 2;\n");
+
+    const io = captureIo();
+    const code = await runCli(["--staged", "--check", "--list", "--no-cache"], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_FAILURE);
+    assertEquals(io.out, "a.zig\n");
+  });
+});
+
+wasmTest("runCli --staged formats and re-stages files", async () => {
+  await withRepo({ "a.zig": "", "b.zig": "" }, async (dir, git) => {
+    await writeFile(join(dir, "a.zig"), "const a=1;\n");
+    await writeFile(join(dir, "b.zig"), "const b=1;\n");
+    await git("add", "a.zig", "b.zig");
+    await writeFile(join(dir, "b.zig"), "const b=1;\nconst c=2;\n");
+
+    const io = captureIo();
+    const code = await runCli(["--staged", "--no-cache"], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_SUCCESS);
+    assertEquals(io.out, "a.zig\nb.zig\n");
+    const show = (path: string) =>
+      runGit(["show", `:${path}`], { cwd: dir }).then((r) => r.stdout);
+    assertEquals(await show("a.zig"), "const a = 1;\n");
+    assertEquals(await show("b.zig"), "const b = 1;\n");
+    // The clean working-tree copy follows; unstaged edits are left alone.
+    assertEquals(await readFile(join(dir, "a.zig"), "utf8"), "const a = 1;\n");
+    assertEquals(
+      await readFile(join(dir, "b.zig"), "utf8"),
+      "const b=1;\nconst c=2;\n",
+    );
+  });
+});
+
+wasmTest("runCli --changed-since formats only changed files", async () => {
+  await withRepo({ "a.zig": "const a=1;\n", "b.zig": "" }, async (dir) => {
+    await writeFile(join(dir, "b.zig"), "const b=1;\n");
+
+    const io = captureIo();
+    const code = await runCli(["--changed-since", "HEAD", "--no-cache"], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_SUCCESS);
+    assertEquals(io.out, "b.zig\n");
+    assertEquals(await readFile(join(dir, "a.zig"), "utf8"), "const a=1;\n");
+  });
+});
+
+Deno.test("runCli rejects --staged with --stdin or --changed-since", async () => {
+  const io = captureIo();
+  assertEquals(await runCli(["--staged", "--stdin"], { io }), EXIT_FAILURE);
+  assertEquals(
+    await runCli(["--staged", "--changed-since", "main"], { io }),
+    EXIT_FAILURE,
+  );
+  assertStringIncludes(io.err, "cannot combine --stdin with --staged");
+  assertStringIncludes(io.err, "cannot combine --staged with --changed-since");
+});
+
+Deno.test("runCli install-hook reports errors outside a repository", async () => {
+  await withDir({}, async (dir) => {
+    const io = captureIo();
+    assertEquals(
+      await runCli(["install-hook"], { io, cwd: dir }),
+      EXIT_FAILURE,
+    );
+    assertStringIncludes(io.err, "error: git rev-parse failed");
+  });
+});
+
+wasmTest("runCli --watch reformats files that change", async () => {
+  await withDir({
+    "a.zig": "const x=1;",
+    "b.zig": "const y = 2;\n",
+  }, async (dir) => {
+    const listeners: ((path: string) => void)[] = [];
+    const watcher: Watcher = (_root, onEvent) => {
+      listeners.push(onEvent);
+      return { close: () => listeners.splice(0) };
+    };
+    const emit = (name: string) => {
+      for (const onEvent of listeners) onEvent(join(dir, name));
+    };
+    const settle = () => new Promise((r) => setTimeout(r, 300));
+
+    const controller = new AbortController();
+    const io = captureIo();
+    const done = runCli(["--watch", "--no-cache", "."], {
+      io,
+      cwd: dir,
+      formatter: createTestFormatter(),
+      signal: controller.signal,
+      watcher,
+    });
+    await settle();
+    assertEquals(io.out, "a.zig\n");
+    assertStringIncludes(io.err, "Watching for changes");
+
+    // Our own write of a.zig is not formatted again.
+    emit("a.zig");
+    await settle();
+    assertEquals(io.out, "a.zig\n");
+
+    await writeFile(join(dir, "b.zig"), "const y=2;");
+    emit("b.zig");
+    await settle();
+    assertEquals(io.out, "a.zig\nb.zig\n");
+    assertEquals(await readFile(join(dir, "b.zig"), "utf8"), "const y = 2;\n");
+
+    controller.abort();
+    assertEquals(await done, EXIT_SUCCESS);
+    assertEquals(listeners.length, 0);
+  });
+});
+
+Deno.test("runCli rejects --watch with --stdin or git modes", async () => {
+  const io = captureIo();
+  assertEquals(await runCli(["--watch", "--stdin"], { io }), EXIT_FAILURE);
+  assertEquals(await runCli(["--watch", "--staged"], { io }), EXIT_FAILURE);
+  assertStringIncludes(io.err, "cannot combine --watch with --stdin");
+});
+
+wasmTest("runCli --stdin writes formatted text to stdout", async () => {
+  const io = captureIo("const x=1;");
+  const code = await runCli(["--stdin"], {
+    io,
+    formatter: createTestFormatter(),
+  });
+  assertEquals(code, EXIT_SUCCESS);
+  assertEquals(io.out, "const x = 1;\n");
+});
+
+wasmTest("runCli --stdin echoes already formatted input", async () => {
+  const io = captureIo("const x = 1;\n");
+  assertEquals(
+    await runCli(["--stdin"], { io, formatter: createTestFormatter() }),
+    EXIT_SUCCESS,
+  );
+  assertEquals(io.out, "const x = 1;\n");
+});
+
+wasmTest("runCli --stdin --check prints a diff", async () => {
+  const io = captureIo("const x=1;\n");
+  const code = await runCli(["--stdin", "--check"], {
+    io,
+    formatter: createTestFormatter(),
+  });
+  assertEquals(code, EXIT_FAILURE);
+  assertStringIncludes(io.out, "--- a/<stdin>\n");
+  assertStringIncludes(io.out, "-const x=1;\n+const x = 1;\n");
+});
+
+wasmTest(
+  "runCli --stdin --check exits 0 without output when formatted",
+  async () => {
+    const io = captureIo("const x = 1;\n");
+    const code = await runCli(["--stdin", "--check"], {
+      io,
+      formatter: createTestFormatter(),
+    });
+    assertEquals(code, EXIT_SUCCESS);
+    assertEquals(io.out, "");
+  },
+);
+
+wasmTest("runCli --stdin-filepath names parse errors", async () => {
+  const io = captureIo(".{ .a = 1");
+  const code = await runCli(["--stdin", "--stdin-filepath", "x.zon"], {
+    io,
+    formatter: createTestFormatter(),
+  });
+  assertEquals(code, EXIT_FAILURE);
+  assertStringIncludes(io.err, "x.zon:1:");
+});
@@ -0,0 +1,392 @@
+/**
+ * @module
+ * Validation of dprint configuration for the Zig plugin.
+ *
+ * The plugin's `get_config_diagnostics` accepts everything, so a typo such as
+ * `"zig": { "lineWidht": 100 }` would be ignored. {@link validateConfig}
+ * checks dprint's global keys and the `zig` section against the plugin's
+ * JSON schema (`schema.json`) and returns diagnostics shaped like the
+ * plugin's (`{ propertyName, message }`). The CLI (`--config`) and the
+ * language server (`initializationOptions`) run it before formatting.
+ *
+ * @example Check a dprint config file
+ * ```ts
+ * import { parseJsonc, validateConfig } from "@kjanat/dprint-zig";
+ * import { readFileSync } from "node:fs";
+ *
+ * const { diagnostics } = validateConfig(
+ *   parseJsonc(readFileSync("dprint.json", "utf8")),
+ * );
+ * for (const d of diagnostics) console.error(`${d.propertyName}: ${d.message}`);
+ * ```
+ */
+
+import type { GlobalConfig } from "./formatter.ts";
+import { VERSION } from "./version.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A configuration problem, in the shape of `get_config_diagnostics` items. */
+export type ConfigDiagnostic = {
+  /** Key of the offending property, e.g. `zig.lineWidht`. */
+  propertyName: string;
+  message: string;
+};
+
+/** The subset of JSON Schema used by the plugin's `schema.json`. */
+export type ConfigSchemaProperty = {
+  type?: "boolean" | "integer" | "number" | "string";
+  enum?: readonly (string | number | boolean)[];
+  minimum?: number;
+  default?: boolean | number | string;
+  description?: string;
+};
+
+/** A plugin option: its schema, default value and documentation. */
+export type ConfigOption = ConfigSchemaProperty & {
+  type: NonNullable<ConfigSchemaProperty["type"]>;
+  default: boolean | number | string;
+  description: string;
+};
+
+/** The value type of an option definition. */
+export type OptionValue<T extends ConfigOption> = T extends
+  { enum: readonly (infer E)[] } ? E
+  : T["type"] extends "boolean" ? boolean
+  : T["type"] extends "string" ? string
+  : number;
+
+/** The plugin's configuration schema (the contents of `schema.json`). */
+export type ConfigSchema = {
+  $schema: string;
+  $id: string;
+  type: "object";
+  title: string;
+  description: string;
+  properties: Record<string, ConfigSchemaProperty>;
+  additionalProperties: boolean;
+};
+
+/** Result of {@link validateConfig}. */
+export type ConfigValidation = {
+  /** Global keys from the top level, to pass to `createFormatter`. */
+  globalConfig: GlobalConfig;
+  /** The `zig` section, to pass to `createFormatter`. */
+  pluginConfig: Record<string, unknown>;
+  /** Problems found; empty when the config is valid. */
+  diagnostics: ConfigDiagnostic[];
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Key of the plugin's section in dprint config files. */
+export const CONFIG_KEY = "zig";
+
+/**
+ * The plugin's options: the one definition that {@link ZigConfig},
+ * `schema.json` ({@link createConfigSchema}) and the Configuration section of
+ * the README ({@link renderConfigDocs}) are generated from. zig fmt has no
+ * settings, so there are none yet. Each entry must be a {@link ConfigOption};
+ * `scripts/generate_schema.ts` rewrites the generated files after a change.
+ */
+export const CONFIG_OPTIONS = {} as const;
+
+/** Options of the `zig` section, as typed by {@link CONFIG_OPTIONS}. */
+export type ZigConfig = {
+  -readonly [K in keyof typeof CONFIG_OPTIONS]?: OptionValue<
+    (typeof CONFIG_OPTIONS)[K]
+  >;
+};
+
+const SCHEMA_DESCRIPTION =
+  "Zig formatter plugin has no configurable options; Zig enforces a single canonical style.";
+
+/** The plugin's configuration schema for this version; `schema.json` holds the same. */
+export const CONFIG_SCHEMA: ConfigSchema = createConfigSchema(VERSION);
+
+/**
+ * dprint's global options. They may also appear in a plugin's section,
+ * where they override the top-level value for that plugin.
+ */
+export const GLOBAL_CONFIG_SCHEMA: Readonly<
+  Record<keyof GlobalConfig, ConfigSchemaProperty>
+> = {
+  lineWidth: { type: "integer", minimum: 1 },
+  indentWidth: { type: "integer", minimum: 1 },
+  useTabs: { type: "boolean" },
+  newLineKind: { type: "string", enum: ["auto", "crlf", "lf", "system"] },
+};
+
+/** Keys dprint itself reads from a plugin section before passing it on. */
+const SECTION_KEYS: readonly string[] = ["associations", "locked"];
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/** URL of the schema for plugin `version`, as published with each release. */
+export function configSchemaUrl(version: string): string {
+  return `https://plugins.dprint.dev/kjanat/zig/${version}/schema.json`;
+}
+
+/** Builds the JSON schema of the `zig` section for plugin `version`. */
+export function createConfigSchema(version: string): ConfigSchema {
+  const options: Record<string, ConfigOption> = CONFIG_OPTIONS;
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: configSchemaUrl(version),
+    type: "object",
+    title: "dprint-plugin-zig Configuration",
+    description: Object.keys(options).length === 0
+      ? SCHEMA_DESCRIPTION
+      : "Configuration for the dprint-plugin-zig formatter.",
+    properties: { ...options },
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Renders the options as the body of the README's Configuration section: a
+ * table aligned the way dprint formats Markdown, or a note that there are
+ * none.
+ */
+export function renderConfigDocs(): string {
+  const options = Object.entries<ConfigOption>(CONFIG_OPTIONS);
+  if (options.length === 0) {
+    return "No configuration options. Zig enforces a single canonical style, "
+      + "producing\nidentical output to `zig fmt`.\n";
+  }
+  const code = (value: unknown) => `\`${JSON.stringify(value)}\``;
+  const rows = [
+    ["Option", "Type", "Default", "Description"],
+    ...options.map(([name, option]) => [
+      `\`${name}\``,
+      option.enum ? option.enum.map(code).join(" \\| ") : option.type,
+      code(option.default),
+      option.description,
+    ]),
+  ];
+  const widths = rows[0].map((_, i) =>
+    Math.max(3, ...rows.map((row) => row[i].length))
+  );
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell, i) => cell.padEnd(widths[i])).join(" | ")} |`;
+  return [
+    line(rows[0]),
+    line(widths.map((width) => "-".repeat(width))),
+    ...rows.slice(1).map(line),
+    "",
+  ].join("\n");
+}
+
+// =============================================================================
+// JSONC
+// =============================================================================
+
+/**
+ * Parses JSON with comments and trailing commas, as dprint config files
+ * allow. Throws `SyntaxError` on invalid input.
+ */
+export function parseJsonc(text: string): unknown {
+  let json = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "\"") {
+      let end = i + 1;
+      while (end < text.length && text[end] !== "\"") {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      json += text.slice(i, end + 1);
+      i = end + 1;
+    } else if (text.startsWith("//", i)) {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      if (end === -1) throw new SyntaxError("Unterminated comment in JSONC");
+      // Keep line breaks so JSON.parse positions stay on the right line.
+      json += text.slice(i, end + 2).replace(/[^\n]/g, " ");
+      i = end + 2;
+    } else if (ch === ",") {
+      // Drop a trailing comma before `}` or `]`.
+      let next = i + 1;
+      while (/\s/.test(text[next] ?? "")) next++;
+      json += text[next] === "}" || text[next] === "]" ? " " : ",";
+      i++;
+    } else {
+      json += ch;
+      i++;
+    }
+  }
+  return JSON.parse(json);
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Returns why `value` does not match `schema`, or undefined if it does. */
+function checkValue(
+  schema: ConfigSchemaProperty,
+  value: unknown,
+): string | undefined {
+  switch (schema.type) {
+    case "boolean":
+      if (typeof value !== "boolean") return "Expected a boolean.";
+      break;
+    case "integer":
+      if (!Number.isInteger(value)) return "Expected an integer.";
+      break;
+    case "number":
+      if (typeof value !== "number") return "Expected a number.";
+      break;
+    case "string":
+      if (typeof value !== "string") return "Expected a string.";
+      break;
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return `Expected one of: ${schema.enum.join(", ")}.`;
+  }
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+    return `Expected a value of at least ${schema.minimum}.`;
+  }
+  return undefined;
+}
+
+/** Levenshtein distance between `a` and `b`. */
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(
+        row[j] + 1,
+        next[j - 1] + 1,
+        row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    row = next;
+  }
+  return row[b.length];
+}
+
+/** Message for an unknown key, suggesting a known key within two edits. */
+function unknownPropertyMessage(key: string, known: string[]): string {
+  const lower = key.toLowerCase();
+  const match = known
+    .map((name) => ({
+      name,
+      distance: editDistance(lower, name.toLowerCase()),
+    }))
+    .filter((m) => m.distance <= 2)
+    .sort((a, b) => a.distance - b.distance)[0];
+  return match
+    ? `Unknown property in configuration. Did you mean "${match.name}"?`
+    : "Unknown property in configuration.";
+}
+
+/**
+ * Checks the global options in `config`. Other keys are left alone: at the
+ * top level of a dprint config they belong to dprint or to other plugins.
+ */
+export function validateGlobalConfig(
+  config: Record<string, unknown>,
+): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  for (const [key, schema] of Object.entries(GLOBAL_CONFIG_SCHEMA)) {
+    if (!(key in config)) continue;
+    const message = checkValue(schema, config[key]);
+    if (message) diagnostics.push({ propertyName: key, message });
+  }
+  return diagnostics;
+}
+
+/**
+ * Checks the plugin's `zig` section against {@link CONFIG_SCHEMA}. Global
+ * options and dprint's `associations` and `locked` are allowed too; property
+ * names are relative to the section, like the plugin's own diagnostics.
+ */
+export function validatePluginConfig(config: unknown): ConfigDiagnostic[] {
+  if (!isObject(config)) {
+    return [{ propertyName: CONFIG_KEY, message: "Expected an object." }];
+  }
+  const known = [
+    ...Object.keys(CONFIG_SCHEMA.properties),
+    ...Object.keys(GLOBAL_CONFIG_SCHEMA),
+    ...SECTION_KEYS,
+  ];
+  const diagnostics = validateGlobalConfig(config);
+  for (const [key, value] of Object.entries(config)) {
+    if (Object.hasOwn(CONFIG_SCHEMA.properties, key)) {
+      const schema = CONFIG_SCHEMA.properties[key];
+      const message = checkValue(schema, value);
+      if (message) diagnostics.push({ propertyName: key, message });
+    } else if (
+      !known.includes(key) && !CONFIG_SCHEMA.additionalProperties
+    ) {
+      diagnostics.push({
+        propertyName: key,
+        message: unknownPropertyMessage(key, known),
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Validates a whole dprint config object: the global options at the top
+ * level and the `zig` section. Returns both, ready for `createFormatter`,
+ * with diagnostics named from the top level (`zig.lineWidht`).
+ */
+export function validateConfig(config: unknown): ConfigValidation {
+  if (!isObject(config)) {
+    return {
+      globalConfig: {},
+      pluginConfig: {},
+      diagnostics: [{
+        propertyName: "",
+        message: "Expected the configuration to be an object.",
+      }],
+    };
+  }
+
+  const globalConfig: GlobalConfig = {};
+  for (const key of Object.keys(GLOBAL_CONFIG_SCHEMA)) {
+    if (key in config) {
+      (globalConfig as Record<string, unknown>)[key] = config[key];
+    }
+  }
+  // A missing section is fine; `"zig": null` is not.
+  const section = Object.hasOwn(config, CONFIG_KEY) ? config[CONFIG_KEY] : {};
+  const diagnostics = [
+    ...validateGlobalConfig(config),
+    ...validatePluginConfig(section).map((d) => ({
+      ...d,
+      propertyName: d.propertyName === CONFIG_KEY
+        ? CONFIG_KEY
+        : `${CONFIG_KEY}.${d.propertyName}`,
+    })),
+  ];
+  return {
+    globalConfig,
+    pluginConfig: isObject(section) ? section : {},
+    diagnostics,
+  };
+}
+
+/** Formats diagnostics as `propertyName: message` lines. */
+export function formatConfigDiagnostics(
+  diagnostics: ConfigDiagnostic[],
+): string[] {
+  return diagnostics.map((d) =>
+    d.propertyName ? `${d.propertyName}: ${d.message}` : d.message
+  );
+}
@@ -0,0 +1,134 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { readFileSync } from "node:fs";
+import {
+  CONFIG_SCHEMA,
+  formatConfigDiagnostics,
+  parseJsonc,
+  validateConfig,
+  validateGlobalConfig,
+  validatePluginConfig,
+} from "./config.ts";
+
+// =============================================================================
+// parseJsonc tests
+// =============================================================================
+
+Deno.test("parseJsonc strips comments and trailing commas", () => {
+  assertEquals(
+    parseJsonc(`{
+  // line comment
+  "a": "// not a comment, \\"/* nor this */\\"",
+  /* block
+     comment */
+  "b": [1, 2,],
+}`),
+    { a: "// not a comment, \"/* nor this */\"", b: [1, 2] },
+  );
+  assertEquals(parseJsonc("{ \"a\": \",}\" }"), { a: ",}" });
+});
+
+Deno.test("parseJsonc throws SyntaxError on invalid input", () => {
+  assertThrows(() => parseJsonc("{ /* open"), SyntaxError);
+  assertThrows(() => parseJsonc("{ a: 1 }"), SyntaxError);
+});
+
+// =============================================================================
+// Validation tests
+// =============================================================================
+
+Deno.test("CONFIG_SCHEMA matches schema.json", () => {
+  const schema = JSON.parse(
+    readFileSync(new URL("../schema.json", import.meta.url), "utf8"),
+  );
+  assertEquals(CONFIG_SCHEMA, schema);
+});
+
+Deno.test("validateGlobalConfig checks known keys and ignores others", () => {
+  assertEquals(
+    validateGlobalConfig({
+      lineWidth: 0,
+      indentWidth: 2.5,
+      useTabs: "yes",
+      newLineKind: "cr",
+      typescript: {},
+      excludes: ["x"],
+    }),
+    [
+      { propertyName: "lineWidth", message: "Expected a value of at least 1." },
+      { propertyName: "indentWidth", message: "Expected an integer." },
+      { propertyName: "useTabs", message: "Expected a boolean." },
+      {
+        propertyName: "newLineKind",
+        message: "Expected one of: auto, crlf, lf, system.",
+      },
+    ],
+  );
+});
+
+Deno.test("validatePluginConfig rejects unknown keys with suggestions", () => {
+  assertEquals(
+    validatePluginConfig({
+      lineWidth: 100,
+      locked: true,
+      associations: ["**/*.zig"],
+      lineWidht: 100,
+      indent: 4,
+    }),
+    [
+      {
+        propertyName: "lineWidht",
+        message:
+          "Unknown property in configuration. Did you mean \"lineWidth\"?",
+      },
+      { propertyName: "indent", message: "Unknown property in configuration." },
+    ],
+  );
+  assertEquals(validatePluginConfig([]), [
+    { propertyName: "zig", message: "Expected an object." },
+  ]);
+});
+
+Deno.test("validatePluginConfig rejects inherited object keys", () => {
+  assertEquals(
+    validatePluginConfig({ constructor: 1, toString: "x" }).map((d) =>
+      d.propertyName
+    ),
+    ["constructor", "toString"],
+  );
+});
+
+Deno.test("validateConfig returns formatter options and prefixed diagnostics", () => {
+  assertEquals(
+    validateConfig({
+      lineWidth: 80,
+      useTabs: true,
+      plugins: [],
+      zig: { newLineKind: "lf" },
+    }),
+    {
+      globalConfig: { lineWidth: 80, useTabs: true },
+      pluginConfig: { newLineKind: "lf" },
+      diagnostics: [],
+    },
+  );
+
+  const { diagnostics } = validateConfig({ zig: { useTabs: 1, x: 1 } });
+  assertEquals(formatConfigDiagnostics(diagnostics), [
+    "zig.useTabs: Expected a boolean.",
+    "zig.x: Unknown property in configuration.",
+  ]);
+  assertEquals(formatConfigDiagnostics(validateConfig("x").diagnostics), [
+    "Expected the configuration to be an object.",
+  ]);
+});
+
+Deno.test("validateConfig rejects a zig section that is not an object", () => {
+  for (const zig of [null, 1, "x", []]) {
+    const { pluginConfig, diagnostics } = validateConfig({ zig });
+    assertEquals(pluginConfig, {});
+    assertEquals(formatConfigDiagnostics(diagnostics), [
+      "zig: Expected an object.",
+    ]);
+  }
+  assertEquals(validateConfig({}).diagnostics, []);
+});
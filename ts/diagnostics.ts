@@ -0,0 +1,229 @@
+/**
+ * @module
+ * Structured diagnostics for Zig parse errors.
+ *
+ * The plugin reports parse errors as lines of `path:line:column: tag`, built
+ * by `buildParseErrorMessage` in src/main.zig from `std.zig.Ast.Error` tags.
+ * This module parses that text, maps each tag to a readable sentence, and
+ * renders code frames pointing at the offending source.
+ *
+ * @example Render parse errors with context
+ * ```ts
+ * import { formatText, parseDiagnostics, renderCodeFrame } from "@kjanat/dprint-zig";
+ *
+ * const source = "const =";
+ * const result = formatText("main.zig", source);
+ * if (result.kind === "error") {
+ *   for (const d of parseDiagnostics(result.message)) {
+ *     console.log(`${d.file}:${d.line}:${d.column}: ${d.message}`);
+ *     console.log(renderCodeFrame(source, d));
+ *   }
+ * }
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A single parse error reported by the plugin. */
+export type ZigParseDiagnostic = {
+  /** File path as given to the plugin (`<unknown>` when none was set). */
+  file: string;
+  /** 1-based line number. */
+  line: number;
+  /** 1-based column, counted in UTF-8 bytes like the plugin does. */
+  column: number;
+  /** Raw `std.zig.Ast.Error.Tag` name, e.g. `expected_expr`. */
+  tag: string;
+  /** Human-readable description of `tag`. */
+  message: string;
+};
+
+/** Location inside a source file (1-based line, 1-based byte column). */
+export type SourceLocation = { line: number; column: number };
+
+/** Options for {@link renderCodeFrame}. */
+export type CodeFrameOptions = {
+  /** Lines of context shown above and below the error line. Default: 2. */
+  contextLines?: number;
+};
+
+/** Tag names of `std.zig.Ast.Error.Tag` (Zig 0.15). */
+export type AstErrorTag = keyof typeof AST_ERROR_MESSAGES;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Readable sentence for every `std.zig.Ast.Error.Tag`.
+ * Wording follows `std.zig.Ast.renderError`, minus the token that was found
+ * (the plugin only reports the tag).
+ */
+export const AST_ERROR_MESSAGES = {
+  asterisk_after_ptr_deref:
+    "'.*' cannot be followed by '*'; are you missing a space?",
+  chained_comparison_operators: "comparison operators cannot be chained",
+  decl_between_fields: "declarations are not allowed between container fields",
+  expected_block: "expected block",
+  expected_block_or_assignment: "expected block or assignment",
+  expected_block_or_expr: "expected block or expression",
+  expected_block_or_field: "expected block or field",
+  expected_container_members:
+    "expected test, comptime, var decl, or container field",
+  expected_expr: "expected expression",
+  expected_expr_or_assignment: "expected expression or assignment",
+  expected_expr_or_var_decl: "expected expression or var decl",
+  expected_fn: "expected function",
+  expected_inlinable: "expected 'while' or 'for'",
+  expected_labelable: "expected 'while', 'for', 'inline', or '{'",
+  expected_param_list: "expected parameter list",
+  expected_prefix_expr: "expected prefix expression",
+  expected_primary_type_expr: "expected primary type expression",
+  expected_pub_item: "expected function or variable declaration after pub",
+  expected_return_type: "expected return type expression",
+  expected_semi_or_else: "expected ';' or 'else' after statement",
+  expected_semi_or_lbrace: "expected ';' or block after function prototype",
+  expected_statement: "expected statement",
+  expected_suffix_op:
+    "expected pointer dereference, optional unwrap, or field access",
+  expected_type_expr: "expected type expression",
+  expected_var_decl: "expected variable declaration",
+  expected_var_decl_or_fn: "expected variable declaration or function",
+  expected_loop_payload: "expected loop payload",
+  expected_container: "expected a struct, enum or union",
+  extern_fn_body: "extern functions have no body",
+  extra_addrspace_qualifier: "extra addrspace qualifier",
+  extra_align_qualifier: "extra align qualifier",
+  extra_allowzero_qualifier: "extra allowzero qualifier",
+  extra_const_qualifier: "extra const qualifier",
+  extra_volatile_qualifier: "extra volatile qualifier",
+  ptr_mod_on_array_child_type:
+    "pointer modifier not allowed on array child type",
+  invalid_bit_range: "bit range not allowed on slices and arrays",
+  same_line_doc_comment: "same line documentation comment",
+  unattached_doc_comment: "unattached documentation comment",
+  test_doc_comment: "documentation comments cannot be attached to tests",
+  comptime_doc_comment:
+    "documentation comments cannot be attached to comptime blocks",
+  varargs_nonfinal: "function prototype has parameter after varargs",
+  expected_continue_expr: "expected ':' before while continue expression",
+  expected_semi_after_decl: "expected ';' after declaration",
+  expected_semi_after_stmt: "expected ';' after statement",
+  expected_comma_after_field: "expected ',' after field",
+  expected_comma_after_arg: "expected ',' after argument",
+  expected_comma_after_param: "expected ',' after parameter",
+  expected_comma_after_initializer: "expected ',' after initializer",
+  expected_comma_after_switch_prong: "expected ',' after switch prong",
+  expected_comma_after_for_operand: "expected ',' after for operand",
+  expected_comma_after_capture: "expected ',' after for capture",
+  expected_initializer: "expected field initializer",
+  mismatched_binary_op_whitespace:
+    "binary operator has whitespace on one side, but not the other",
+  invalid_ampersand_ampersand:
+    "ambiguous use of '&&'; use 'and' for logical AND, or change whitespace to ' & &' for bitwise AND",
+  c_style_container: "C-style container declarations are invalid",
+  expected_var_const: "expected 'var' or 'const' before variable declaration",
+  wrong_equal_var_decl: "variable initialized with '==' instead of '='",
+  var_const_decl: "use 'var' or 'const' to declare variable",
+  extra_for_capture: "extra capture in for loop",
+  for_input_not_captured: "for input is not captured",
+  zig_style_container: "to declare a container do 'const Name = struct'",
+  previous_field: "field before declarations here",
+  next_field: "field after declarations here",
+  expected_token: "expected a different token",
+  invalid_byte: "invalid byte",
+} as const;
+
+/** Regex matching one `path:line:column: tag` line from the plugin. */
+export const PARSE_ERROR_LINE_RE: RegExp = /^(.*):(\d+):(\d+): (\w+)$/;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/** Returns true if `tag` is a known `std.zig.Ast.Error.Tag` name. */
+export function isAstErrorTag(tag: string): tag is AstErrorTag {
+  return Object.hasOwn(AST_ERROR_MESSAGES, tag);
+}
+
+/** Returns the readable message for `tag`, or the tag itself if unknown. */
+export function describeAstError(tag: string): string {
+  return isAstErrorTag(tag) ? AST_ERROR_MESSAGES[tag] : tag;
+}
+
+/**
+ * Parses the plugin's error text into diagnostics.
+ * Lines that are not `path:line:column: tag` (e.g. "Out of memory") are
+ * skipped.
+ */
+export function parseDiagnostics(errorText: string): ZigParseDiagnostic[] {
+  const diagnostics: ZigParseDiagnostic[] = [];
+
+  for (const line of errorText.split("\n")) {
+    const match = line.trimEnd().match(PARSE_ERROR_LINE_RE);
+    if (!match) continue;
+
+    const [, file, lineNo, column, tag] = match;
+    diagnostics.push({
+      file,
+      line: Number(lineNo),
+      column: Number(column),
+      tag,
+      message: describeAstError(tag),
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Renders the lines around `location` with a caret under the error column.
+ *
+ * ```text
+ *   1 | pub fn main() void {
+ * > 2 |     let = 1;
+ *     |         ^
+ *   3 | }
+ * ```
+ */
+export function renderCodeFrame(
+  source: string,
+  location: SourceLocation,
+  options: CodeFrameOptions = {},
+): string {
+  const contextLines = options.contextLines ?? 2;
+  const lines = source.split(/\r?\n/);
+  const errorIdx = Math.min(Math.max(location.line, 1), lines.length) - 1;
+  const first = Math.max(0, errorIdx - contextLines);
+  const last = Math.min(lines.length - 1, errorIdx + contextLines);
+  const gutterWidth = String(last + 1).length;
+
+  const out: string[] = [];
+  for (let i = first; i <= last; i++) {
+    const marker = i === errorIdx ? ">" : " ";
+    const lineNo = String(i + 1).padStart(gutterWidth);
+    out.push(`${marker} ${lineNo} |${lines[i] ? ` ${lines[i]}` : ""}`);
+
+    if (i === errorIdx) {
+      const padding = caretPadding(lines[i], location.column);
+      out.push(`  ${" ".repeat(gutterWidth)} | ${padding}^`);
+    }
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * Whitespace placing a caret under the 1-based byte `column` of `line`.
+ * Tabs are kept so the caret lines up however the terminal renders them.
+ */
+function caretPadding(line: string, column: number): string {
+  const bytes = encoder.encode(line);
+  const prefix = decoder.decode(bytes.subarray(0, Math.max(column - 1, 0)));
+  return Array.from(prefix, (ch) => ch === "\t" ? "\t" : " ").join("");
+}
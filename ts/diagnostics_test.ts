@@ -0,0 +1,136 @@
+import { assertEquals } from "@std/assert";
+import {
+  AST_ERROR_MESSAGES,
+  describeAstError,
+  isAstErrorTag,
+  parseDiagnostics,
+  renderCodeFrame,
+} from "./diagnostics.ts";
+
+// =============================================================================
+// AST_ERROR_MESSAGES tests
+// =============================================================================
+
+Deno.test("AST_ERROR_MESSAGES has a non-empty message for every tag", () => {
+  for (const [tag, message] of Object.entries(AST_ERROR_MESSAGES)) {
+    assertEquals(/^[a-z_]+$/.test(tag), true, `bad tag name: ${tag}`);
+    assertEquals(message.length > 0, true, `empty message for ${tag}`);
+  }
+});
+
+Deno.test("isAstErrorTag recognizes known tags only", () => {
+  assertEquals(isAstErrorTag("expected_expr"), true);
+  assertEquals(isAstErrorTag("expected_token"), true);
+  assertEquals(isAstErrorTag("not_a_tag"), false);
+  assertEquals(isAstErrorTag("toString"), false);
+});
+
+Deno.test("describeAstError falls back to the raw tag", () => {
+  assertEquals(describeAstError("expected_expr"), "expected expression");
+  assertEquals(describeAstError("future_tag"), "future_tag");
+});
+
+// =============================================================================
+// parseDiagnostics tests
+// =============================================================================
+
+Deno.test("parseDiagnostics parses plugin error lines", () => {
+  const text = "src/main.zig:12:5: expected_expr\n"
+    + "src/main.zig:14:1: expected_semi_after_decl";
+  assertEquals(parseDiagnostics(text), [
+    {
+      file: "src/main.zig",
+      line: 12,
+      column: 5,
+      tag: "expected_expr",
+      message: "expected expression",
+    },
+    {
+      file: "src/main.zig",
+      line: 14,
+      column: 1,
+      tag: "expected_semi_after_decl",
+      message: "expected ';' after declaration",
+    },
+  ]);
+});
+
+Deno.test("parseDiagnostics keeps colons in paths", () => {
+  const [d] = parseDiagnostics("C:\\src\\main.zig:3:7: expected_token");
+  assertEquals(d.file, "C:\\src\\main.zig");
+  assertEquals(d.line, 3);
+  assertEquals(d.column, 7);
+});
+
+Deno.test("parseDiagnostics handles <unknown> path and CRLF", () => {
+  const [d] = parseDiagnostics("<unknown>:1:1: expected_expr\r\n");
+  assertEquals(d.file, "<unknown>");
+  assertEquals(d.tag, "expected_expr");
+});
+
+Deno.test("parseDiagnostics skips non-diagnostic text", () => {
+  assertEquals(parseDiagnostics("Out of memory"), []);
+  assertEquals(parseDiagnostics(""), []);
+});
+
+// =============================================================================
+// renderCodeFrame tests
+// =============================================================================
+
+const SOURCE = [
+  "const std = @import(\"std\");",
+  "",
+  "pub fn main() void {",
+  "    let = 1;",
+  "}",
+].join("\n");
+
+Deno.test("renderCodeFrame points at the column with context", () => {
+  assertEquals(
+    renderCodeFrame(SOURCE, { line: 4, column: 9 }),
+    [
+      "  2 |",
+      "  3 | pub fn main() void {",
+      "> 4 |     let = 1;",
+      "    |         ^",
+      "  5 | }",
+    ].join("\n"),
+  );
+});
+
+Deno.test("renderCodeFrame respects contextLines", () => {
+  assertEquals(
+    renderCodeFrame(SOURCE, { line: 1, column: 1 }, { contextLines: 0 }),
+    "> 1 | const std = @import(\"std\");\n    | ^",
+  );
+});
+
+Deno.test("renderCodeFrame pads the gutter for wide line numbers", () => {
+  const source = Array.from({ length: 10 }, (_, i) => `const a${i} = ${i};`)
+    .join("\n");
+  assertEquals(
+    renderCodeFrame(source, { line: 10, column: 7 }, { contextLines: 1 }),
+    [
+      "   9 | const a8 = 8;",
+      "> 10 | const a9 = 9;",
+      "     |       ^",
+    ].join("\n"),
+  );
+});
+
+Deno.test("renderCodeFrame converts byte columns for UTF-8 and tabs", () => {
+  // "é" is 2 bytes, so byte column 8 is the `=` after `const é`.
+  assertEquals(
+    renderCodeFrame("\tconst é = 1;", { line: 1, column: 9 }, {
+      contextLines: 0,
+    }),
+    "> 1 | \tconst é = 1;\n    | \t       ^",
+  );
+});
+
+Deno.test("renderCodeFrame clamps out-of-range lines", () => {
+  assertEquals(
+    renderCodeFrame("const x = 1;", { line: 5, column: 1 }),
+    "> 1 | const x = 1;\n    | ^",
+  );
+});
@@ -0,0 +1,342 @@
+/**
+ * @module
+ * Unified diffs between source text and the plugin's formatted output.
+ *
+ * Lines are compared with Myers' O(ND) algorithm; output follows the
+ * `diff -u` / `git diff` format, so it can be pasted into PR comments or
+ * applied with `git apply`.
+ *
+ * @example Show what formatting would change
+ * ```ts
+ * import { diffFormatted } from "@kjanat/dprint-zig";
+ *
+ * const result = diffFormatted("main.zig", "const x=1;");
+ * if (result.kind === "changed") console.log(result.diff);
+ * // --- a/main.zig
+ * // +++ b/main.zig
+ * // @@ -1 +1 @@
+ * // -const x=1;
+ * // \ No newline at end of file
+ * // +const x = 1;
+ * ```
+ */
+
+import {
+  type CancellationOptions,
+  type FormatError,
+  type FormatNoChange,
+  type Formatter,
+  getDefaultFormatter,
+} from "./formatter.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One line of an edit script: kept (`" "`), removed (`"-"`) or added (`"+"`). */
+export type DiffOp = { type: " " | "-" | "+"; line: string };
+
+/** Options for {@link createUnifiedDiff}. */
+export type UnifiedDiffOptions = {
+  /** Path shown in the `---`/`+++` headers. Default: `"file"`. */
+  path?: string;
+  /** Unchanged lines shown around each change. Default: 3. */
+  context?: number;
+  /** Wrap output in ANSI colour codes. Default: false. */
+  color?: boolean;
+};
+
+/** Options for {@link diffFormatted}. */
+export type DiffFormattedOptions =
+  & Omit<UnifiedDiffOptions, "path">
+  & CancellationOptions
+  & {
+    /** Formatter to use. Defaults to one backed by the bundled plugin. */
+    formatter?: Formatter;
+  };
+
+/** Source was reformatted; `diff` shows the changes as a unified diff. */
+export type FormatDiffChanged = { kind: "changed"; text: string; diff: string };
+
+/** Result of {@link diffFormatted}, tagged like `FormatResult`. */
+export type FormatDiff = FormatNoChange | FormatDiffChanged | FormatError;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default number of context lines, as in `diff -u`. */
+export const DEFAULT_CONTEXT = 3;
+
+/** Marker line for a final line without a trailing newline. */
+export const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+const ANSI = {
+  bold: "\x1b[1m",
+  cyan: "\x1b[36m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  reset: "\x1b[0m",
+} as const;
+
+// =============================================================================
+// Line Diff
+// =============================================================================
+
+/**
+ * Computes a shortest edit script turning `a` into `b` (Myers' algorithm,
+ * in its linear-space form: the search splits both sides where the forward
+ * and backward paths meet and recurses on each half, so memory stays
+ * proportional to the input rather than to the square of the differences).
+ * Common leading and trailing lines are stripped at every step.
+ */
+export function diffLines(
+  a: readonly string[],
+  b: readonly string[],
+): DiffOp[] {
+  const ops: DiffOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+}
+
+/** Appends the edit script for `a[aLo..aHi)` to `b[bLo..bHi)` to `ops`. */
+function diffRange(
+  a: readonly string[],
+  aLo: number,
+  aHi: number,
+  b: readonly string[],
+  bLo: number,
+  bHi: number,
+  ops: DiffOp[],
+): void {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    ops.push({ type: " ", line: a[aLo++] });
+    bLo++;
+  }
+  let endA = aHi;
+  let endB = bHi;
+  while (endA > aLo && endB > bLo && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  if (aLo === endA) {
+    for (let y = bLo; y < endB; y++) ops.push({ type: "+", line: b[y] });
+  } else if (bLo === endB) {
+    for (let x = aLo; x < endA; x++) ops.push({ type: "-", line: a[x] });
+  } else {
+    const split = bisect(a, aLo, endA, b, bLo, endB);
+    if (split) {
+      const [x, y] = split;
+      diffRange(a, aLo, x, b, bLo, y, ops);
+      diffRange(a, x, endA, b, y, endB, ops);
+    } else {
+      for (let x = aLo; x < endA; x++) ops.push({ type: "-", line: a[x] });
+      for (let y = bLo; y < endB; y++) ops.push({ type: "+", line: b[y] });
+    }
+  }
+
+  for (let x = endA; x < aHi; x++) ops.push({ type: " ", line: a[x] });
+}
+
+/**
+ * Runs Myers' search from both ends of `a[aLo..aHi)` and `b[bLo..bHi)` and
+ * returns the point `[x, y]` where the paths overlap, which lies on a
+ * shortest edit script; undefined when the ranges share no line.
+ */
+function bisect(
+  a: readonly string[],
+  aLo: number,
+  aHi: number,
+  b: readonly string[],
+  bLo: number,
+  bHi: number,
+): [number, number] | undefined {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  // forward[k] / backward[k]: furthest x reached on diagonal k (-1: none),
+  // the backward one counted from the ends of the ranges.
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, otherwise backward.
+  const front = delta % 2 !== 0;
+  // Diagonals that ran off the edge are not searched again.
+  let kStart1 = 0, kEnd1 = 0, kStart2 = 0, kEnd2 = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + kStart1; k <= d - kEnd1; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && forward[i - 1] < forward[i + 1])
+        ? forward[i + 1]
+        : forward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[i] = x;
+      if (x > n) kEnd1 += 2;
+      else if (y > m) kStart1 += 2;
+      else if (front) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < size && backward[j] !== -1 && x >= n - backward[j]) {
+          return [aLo + x, bLo + y];
+        }
+      }
+    }
+
+    for (let k = -d + kStart2; k <= d - kEnd2; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && backward[i - 1] < backward[i + 1])
+        ? backward[i + 1]
+        : backward[i - 1] + 1;
+      let y = x - k;
+      while (
+        x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]
+      ) {
+        x++;
+        y++;
+      }
+      backward[i] = x;
+      if (x > n) kEnd2 += 2;
+      else if (y > m) kStart2 += 2;
+      else if (!front) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < size && forward[j] !== -1) {
+          const x1 = forward[j];
+          if (x1 >= n - x) return [aLo + x1, bLo + x1 - (j - offset)];
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Unified Diff
+// =============================================================================
+
+/**
+ * Splits text into lines that keep their trailing `\n`. Only a final line
+ * without a newline lacks it, so it never equals the same text with one.
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** `start,count` range of a hunk header (`count` omitted when 1). */
+function hunkRange(start: number, count: number): string {
+  if (count === 1) return `${start}`;
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Returns a unified diff from `oldText` to `newText`, or `""` if they are
+ * equal. A missing newline at end of file is shown with
+ * {@link NO_NEWLINE_MARKER}.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  if (oldText === newText) return "";
+
+  const path = options.path ?? "file";
+  const context = Math.max(0, options.context ?? DEFAULT_CONTEXT);
+  const paint = (code: string, line: string) =>
+    options.color ? `${code}${line}${ANSI.reset}` : line;
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Line numbers (0-based) of each op in the old and new text.
+  const positions: { oldLine: number; newLine: number }[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    positions.push({ oldLine, newLine });
+    if (op.type !== "+") oldLine++;
+    if (op.type !== "-") newLine++;
+  }
+
+  const out = [
+    paint(ANSI.bold, `--- a/${path}`),
+    paint(ANSI.bold, `+++ b/${path}`),
+  ];
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === " ") {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while changes are within 2 * context lines.
+    const hunkStart = Math.max(0, i - context);
+    let hunkEnd = i;
+    let lastChange = i;
+    while (hunkEnd < ops.length) {
+      if (ops[hunkEnd].type !== " ") lastChange = hunkEnd;
+      else if (hunkEnd - lastChange > 2 * context) break;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    const { oldLine: oldStart, newLine: newStart } = positions[hunkStart];
+    out.push(paint(
+      ANSI.cyan,
+      `@@ -${hunkRange(oldStart + 1, oldCount)} +${
+        hunkRange(newStart + 1, newCount)
+      } @@`,
+    ));
+
+    for (const op of hunk) {
+      const line = op.type + op.line.replace(/\n$/, "");
+      const color = op.type === "-"
+        ? ANSI.red
+        : op.type === "+"
+        ? ANSI.green
+        : "";
+      out.push(color ? paint(color, line) : line);
+      if (!op.line.endsWith("\n")) out.push(NO_NEWLINE_MARKER);
+    }
+
+    i = hunkEnd;
+  }
+
+  return out.join("\n") + "\n";
+}
+
+// =============================================================================
+// Formatter Diff
+// =============================================================================
+
+/**
+ * Formats `text` and returns a unified diff from the input to the plugin's
+ * formatted output. Throws `FormatCancelledError` if cancelled.
+ */
+export function diffFormatted(
+  path: string,
+  text: string,
+  options: DiffFormattedOptions = {},
+): FormatDiff {
+  const formatter = options.formatter
+    ?? getDefaultFormatter();
+  const result = formatter.formatText(path, text, undefined, options);
+  if (result.kind !== "changed") return result;
+
+  return {
+    kind: "changed",
+    text: result.text,
+    diff: createUnifiedDiff(text, result.text, { ...options, path }),
+  };
+}
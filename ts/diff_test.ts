@@ -0,0 +1,179 @@
+import { assertEquals, assertLess } from "@std/assert";
+import { createTestFormatter, wasmTest } from "./_testing.ts";
+import {
+  createUnifiedDiff,
+  diffFormatted,
+  diffLines,
+  NO_NEWLINE_MARKER,
+} from "./diff.ts";
+
+/** Numbered lines `prefix1\n` .. `prefixN\n`. */
+const numbered = (n: number, prefix = "line") =>
+  Array.from({ length: n }, (_, i) => `${prefix}${i + 1}\n`).join("");
+
+/** Applies an edit script: returns the new side. */
+const applyOps = (ops: ReturnType<typeof diffLines>) =>
+  ops.filter((op) => op.type !== "-").map((op) => op.line);
+
+// =============================================================================
+// diffLines tests
+// =============================================================================
+
+Deno.test("diffLines returns only kept lines for equal input", () => {
+  assertEquals(diffLines(["a", "b"], ["a", "b"]), [
+    { type: " ", line: "a" },
+    { type: " ", line: "b" },
+  ]);
+});
+
+Deno.test("diffLines finds a minimal edit script", () => {
+  const a = ["a", "b", "c", "a", "b", "b", "a"];
+  const b = ["c", "b", "a", "b", "a", "c"];
+  const ops = diffLines(a, b);
+  assertEquals(ops.filter((op) => op.type !== " ").length, 5);
+  assertEquals(applyOps(ops), b);
+  assertEquals(ops.filter((op) => op.type !== "+").map((op) => op.line), a);
+});
+
+Deno.test("diffLines diffs a large, fully changed file in linear space", () => {
+  // A re-indented file: every line changes. Keeping a copy of the search
+  // state per edit used to need hundreds of MB here.
+  const a = Array.from({ length: 5000 }, (_, i) => `line${i + 1}\n`);
+  const b = a.map((line) => `    ${line}`);
+  const rss = Deno.memoryUsage().rss;
+  const ops = diffLines(a, b);
+  assertLess(Deno.memoryUsage().rss - rss, 100 * 1024 * 1024);
+  assertEquals(ops.filter((op) => op.type === "-").length, 5000);
+  assertEquals(applyOps(ops), b);
+});
+
+Deno.test("diffLines handles empty sides", () => {
+  assertEquals(diffLines([], ["x"]), [{ type: "+", line: "x" }]);
+  assertEquals(diffLines(["x"], []), [{ type: "-", line: "x" }]);
+  assertEquals(diffLines([], []), []);
+});
+
+// =============================================================================
+// createUnifiedDiff tests
+// =============================================================================
+
+Deno.test("createUnifiedDiff returns an empty string for equal text", () => {
+  assertEquals(createUnifiedDiff("a\n", "a\n"), "");
+});
+
+Deno.test("createUnifiedDiff renders a single hunk with context", () => {
+  const before = numbered(9);
+  const after = before.replace("line5\n", "LINE5\n");
+  assertEquals(
+    createUnifiedDiff(before, after, { path: "src/main.zig" }),
+    [
+      "--- a/src/main.zig",
+      "+++ b/src/main.zig",
+      "@@ -2,7 +2,7 @@",
+      " line2",
+      " line3",
+      " line4",
+      "-line5",
+      "+LINE5",
+      " line6",
+      " line7",
+      " line8",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("createUnifiedDiff merges nearby changes and splits distant ones", () => {
+  const before = numbered(20);
+  const near = before.replace("line2\n", "X\n").replace("line7\n", "Y\n");
+  assertEquals(
+    createUnifiedDiff(before, near, { context: 2 })
+      .split("\n").filter((l) => l.startsWith("@@")),
+    ["@@ -1,9 +1,9 @@"],
+  );
+
+  const far = before.replace("line2\n", "X\n").replace("line18\n", "Y\n");
+  assertEquals(
+    createUnifiedDiff(before, far, { context: 2 })
+      .split("\n").filter((l) => l.startsWith("@@")),
+    ["@@ -1,4 +1,4 @@", "@@ -16,5 +16,5 @@"],
+  );
+});
+
+Deno.test("createUnifiedDiff supports zero context", () => {
+  assertEquals(
+    createUnifiedDiff("a\nb\nc\n", "a\nc\n", { context: 0 }),
+    "--- a/file\n+++ b/file\n@@ -2 +1,0 @@\n-b\n",
+  );
+});
+
+Deno.test("createUnifiedDiff marks a missing final newline", () => {
+  assertEquals(
+    createUnifiedDiff("const x=1;", "const x = 1;\n"),
+    [
+      "--- a/file",
+      "+++ b/file",
+      "@@ -1 +1 @@",
+      "-const x=1;",
+      NO_NEWLINE_MARKER,
+      "+const x = 1;",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("createUnifiedDiff shows an added final newline alone", () => {
+  assertEquals(
+    createUnifiedDiff("a\nb", "a\nb\n"),
+    [
+      "--- a/file",
+      "+++ b/file",
+      "@@ -1,2 +1,2 @@",
+      " a",
+      "-b",
+      NO_NEWLINE_MARKER,
+      "+b",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("createUnifiedDiff colours headers and changed lines", () => {
+  const diff = createUnifiedDiff("a\n", "b\n", { color: true });
+  assertEquals(diff.split("\n"), [
+    "\x1b[1m--- a/file\x1b[0m",
+    "\x1b[1m+++ b/file\x1b[0m",
+    "\x1b[36m@@ -1 +1 @@\x1b[0m",
+    "\x1b[31m-a\x1b[0m",
+    "\x1b[32m+b\x1b[0m",
+    "",
+  ]);
+});
+
+// =============================================================================
+// diffFormatted tests
+// =============================================================================
+
+wasmTest("diffFormatted diffs input against the formatted output", () => {
+  const result = diffFormatted("main.zig", "const x=1;\n", {
+    formatter: createTestFormatter(),
+  });
+  assertEquals(result, {
+    kind: "changed",
+    text: "const x = 1;\n",
+    diff: "--- a/main.zig\n+++ b/main.zig\n@@ -1 +1 @@\n"
+      + "-const x=1;\n+const x = 1;\n",
+  });
+});
+
+wasmTest("diffFormatted passes through no_change and errors", () => {
+  const formatter = createTestFormatter();
+  assertEquals(
+    diffFormatted("main.zig", "const x = 1;\n", { formatter }),
+    { kind: "no_change" },
+  );
+  assertEquals(
+    diffFormatted("main.zig", "const =", { formatter }).kind,
+    "error",
+  );
+});
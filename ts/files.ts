@@ -0,0 +1,213 @@
+/**
+ * @module
+ * File discovery for Zig sources: path routing, globs, and directory walks.
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import { join, relative, resolve, sep } from "node:path";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** File extensions handled by the plugin (mirrors `PluginInfo.fileExtensions`). */
+export const FILE_EXTENSIONS: readonly string[] = ["zig", "zon"];
+
+/** Directory names skipped when walking (mirrors dprint.jsonc `excludes`). */
+export const DEFAULT_EXCLUDES: readonly string[] = [
+  "node_modules",
+  ".zig-cache",
+  "zig-out",
+];
+
+const GLOB_CHARS_RE = /[*?[{]/;
+
+// =============================================================================
+// Path Routing
+// =============================================================================
+
+/** Parse mode of a file, chosen like `resolveModeFromPath` in src/main.zig. */
+export type ZigMode = "zig" | "zon";
+
+/** Returns `"zon"` for `.zon` paths and `"zig"` for everything else. */
+export function resolveMode(filePath: string): ZigMode {
+  return filePath.endsWith(".zon") ? "zon" : "zig";
+}
+
+/** Returns true if `filePath` has an extension the plugin formats. */
+export function isZigPath(filePath: string): boolean {
+  return FILE_EXTENSIONS.some((ext) => filePath.endsWith(`.${ext}`));
+}
+
+// =============================================================================
+// Globs
+// =============================================================================
+
+/** Returns true if `pattern` contains glob syntax. */
+export function isGlob(pattern: string): boolean {
+  return GLOB_CHARS_RE.test(pattern);
+}
+
+/**
+ * Converts a glob to a regex matching `/`-separated relative paths.
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    switch (ch) {
+      case "*":
+        if (glob[i + 1] === "*") {
+          // `**/` matches zero or more directories; a trailing `**` anything.
+          const slash = glob[i + 2] === "/";
+          re += slash ? "(?:[^/]*/)*" : ".*";
+          i += slash ? 2 : 1;
+        } else {
+          re += "[^/]*";
+        }
+        break;
+      case "?":
+        re += "[^/]";
+        break;
+      case "[": {
+        const end = glob.indexOf("]", i + 1);
+        if (end === -1) {
+          re += "\\[";
+          break;
+        }
+        const body = glob.slice(i + 1, end).replace(/^!/, "^");
+        re += `[${body.replace(/\\/g, "\\\\")}]`;
+        i = end;
+        break;
+      }
+      case "{":
+        inGroup = true;
+        re += "(?:";
+        break;
+      case "}":
+        if (inGroup) {
+          inGroup = false;
+          re += ")";
+        } else {
+          re += "\\}";
+        }
+        break;
+      case ",":
+        re += inGroup ? "|" : ",";
+        break;
+      default:
+        re += ch.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${re}$`);
+}
+
+/** Returns the leading path segments of `glob` that contain no glob syntax. */
+export function globBase(glob: string): string {
+  const segments = glob.split("/");
+  const base: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    if (isGlob(segment)) break;
+    base.push(segment);
+  }
+  return base.join("/") || ".";
+}
+
+// =============================================================================
+// Directory Walking
+// =============================================================================
+
+/** Options for {@link collectFiles}. */
+export type CollectOptions = {
+  /** Directory that relative patterns resolve against. Default: `cwd`. */
+  cwd?: string;
+  /** Globs or directory names to skip. Default: {@link DEFAULT_EXCLUDES}. */
+  excludes?: readonly string[];
+};
+
+/** Converts a native path to `/`-separated form for glob matching. */
+function toPosix(path: string): string {
+  return sep === "/" ? path : path.split(sep).join("/");
+}
+
+/** Recursively yields files below `dir` (absolute), skipping `isExcluded`. */
+export async function* walk(
+  dir: string,
+  isExcluded: (path: string) => boolean,
+): AsyncGenerator<string> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (isExcluded(path)) continue;
+    if (entry.isDirectory()) {
+      yield* walk(path, isExcluded);
+    } else if (entry.isFile()) {
+      yield path;
+    }
+  }
+}
+
+/**
+ * Returns a predicate telling whether an absolute path is excluded: one of
+ * its segments (relative to `cwd`) is an excluded name, or it matches an
+ * excluded glob.
+ */
+export function createExcludeMatcher(
+  cwd: string,
+  excludes: readonly string[] = DEFAULT_EXCLUDES,
+): (path: string) => boolean {
+  const excludeNames = new Set(excludes.filter((e) => !isGlob(e)));
+  const excludeGlobs = excludes.filter(isGlob).map(globToRegExp);
+
+  return (path) => {
+    const rel = toPosix(relative(cwd, path));
+    if (rel.split("/").some((part) => excludeNames.has(part))) return true;
+    return excludeGlobs.some((re) => re.test(rel));
+  };
+}
+
+/**
+ * Expands files, directories and globs into a sorted, de-duplicated list of
+ * absolute `.zig`/`.zon` paths. Explicit file paths are kept even if their
+ * extension is not `.zig`/`.zon`; directories and globs only yield Zig files.
+ */
+export async function collectFiles(
+  patterns: readonly string[],
+  options: CollectOptions = {},
+): Promise<string[]> {
+  const cwd = resolve(options.cwd ?? ".");
+  const isExcluded = createExcludeMatcher(cwd, options.excludes);
+
+  const found = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (isGlob(pattern)) {
+      const glob = toPosix(pattern).replace(/^\.\//, "");
+      const matcher = globToRegExp(glob);
+      const absolute = glob.startsWith("/");
+      for await (const path of walk(resolve(cwd, globBase(glob)), isExcluded)) {
+        const candidate = toPosix(absolute ? path : relative(cwd, path));
+        if (matcher.test(candidate) && isZigPath(path)) found.add(path);
+      }
+      continue;
+    }
+
+    const path = resolve(cwd, pattern);
+    const info = await stat(path);
+    if (info.isDirectory()) {
+      for await (const file of walk(path, isExcluded)) {
+        if (isZigPath(file)) found.add(file);
+      }
+    } else {
+      found.add(path);
+    }
+  }
+
+  return [...found].sort();
+}
@@ -0,0 +1,149 @@
+import { assertEquals } from "@std/assert";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  collectFiles,
+  globBase,
+  globToRegExp,
+  isGlob,
+  isZigPath,
+  resolveMode,
+} from "./files.ts";
+
+// =============================================================================
+// Path routing tests
+// =============================================================================
+
+Deno.test("resolveMode picks zon only for .zon paths", () => {
+  assertEquals(resolveMode("build.zig.zon"), "zon");
+  assertEquals(resolveMode("src/main.zig"), "zig");
+  assertEquals(resolveMode("<stdin>"), "zig");
+  assertEquals(resolveMode("notes.zon.txt"), "zig");
+});
+
+Deno.test("isZigPath accepts .zig and .zon", () => {
+  assertEquals(isZigPath("a.zig"), true);
+  assertEquals(isZigPath("build.zig.zon"), true);
+  assertEquals(isZigPath("a.ts"), false);
+  assertEquals(isZigPath("zig"), false);
+});
+
+// =============================================================================
+// Glob tests
+// =============================================================================
+
+Deno.test("isGlob detects glob syntax", () => {
+  assertEquals(isGlob("src/*.zig"), true);
+  assertEquals(isGlob("src/{a,b}.zig"), true);
+  assertEquals(isGlob("src/main.zig"), false);
+});
+
+Deno.test("globToRegExp matches single segments with *", () => {
+  const re = globToRegExp("src/*.zig");
+  assertEquals(re.test("src/main.zig"), true);
+  assertEquals(re.test("src/sub/main.zig"), false);
+  assertEquals(re.test("src/main.zon"), false);
+});
+
+Deno.test("globToRegExp matches any depth with **", () => {
+  const re = globToRegExp("**/*.zig");
+  assertEquals(re.test("main.zig"), true);
+  assertEquals(re.test("a/b/c/main.zig"), true);
+  assertEquals(re.test("a/b/main.zon"), false);
+});
+
+Deno.test("globToRegExp supports ?, classes and alternatives", () => {
+  assertEquals(globToRegExp("a?.zig").test("ab.zig"), true);
+  assertEquals(globToRegExp("a?.zig").test("a/.zig"), false);
+  assertEquals(globToRegExp("[ab].zig").test("b.zig"), true);
+  assertEquals(globToRegExp("[!ab].zig").test("b.zig"), false);
+  assertEquals(globToRegExp("*.{zig,zon}").test("build.zig.zon"), true);
+  assertEquals(globToRegExp("*.{zig,zon}").test("x.ts"), false);
+});
+
+Deno.test("globToRegExp escapes regex metacharacters", () => {
+  assertEquals(globToRegExp("a+b.zig").test("a+b.zig"), true);
+  assertEquals(globToRegExp("a+b.zig").test("aab.zig"), false);
+});
+
+Deno.test("globBase returns the static prefix", () => {
+  assertEquals(globBase("src/**/*.zig"), "src");
+  assertEquals(globBase("src/lib/*.zig"), "src/lib");
+  assertEquals(globBase("*.zig"), ".");
+});
+
+// =============================================================================
+// collectFiles tests
+// =============================================================================
+
+async function withTree(
+  files: string[],
+  fn: (dir: string) => Promise<void>,
+): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), "dprint-zig-files-"));
+  try {
+    for (const file of files) {
+      await mkdir(join(dir, file, ".."), { recursive: true });
+      await writeFile(join(dir, file), "");
+    }
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+}
+
+const TREE = [
+  "build.zig",
+  "build.zig.zon",
+  "README.md",
+  "src/main.zig",
+  "src/lib/util.zig",
+  "zig-out/gen.zig",
+  ".zig-cache/o/x.zig",
+  "node_modules/pkg/a.zig",
+];
+
+Deno.test("collectFiles walks directories and skips default excludes", async () => {
+  await withTree(TREE, async (dir) => {
+    const files = await collectFiles(["."], { cwd: dir });
+    assertEquals(files, [
+      join(dir, "build.zig"),
+      join(dir, "build.zig.zon"),
+      join(dir, "src/lib/util.zig"),
+      join(dir, "src/main.zig"),
+    ]);
+  });
+});
+
+Deno.test("collectFiles expands globs relative to cwd", async () => {
+  await withTree(TREE, async (dir) => {
+    assertEquals(await collectFiles(["src/*.zig"], { cwd: dir }), [
+      join(dir, "src/main.zig"),
+    ]);
+    assertEquals(await collectFiles(["./src/**/*.zig"], { cwd: dir }), [
+      join(dir, "src/lib/util.zig"),
+      join(dir, "src/main.zig"),
+    ]);
+  });
+});
+
+Deno.test("collectFiles keeps explicit files and de-duplicates", async () => {
+  await withTree(TREE, async (dir) => {
+    const files = await collectFiles(
+      ["README.md", "build.zig", "*.zig"],
+      { cwd: dir },
+    );
+    assertEquals(files, [join(dir, "README.md"), join(dir, "build.zig")]);
+  });
+});
+
+Deno.test("collectFiles applies custom exclude globs", async () => {
+  await withTree(TREE, async (dir) => {
+    const files = await collectFiles(["src"], {
+      cwd: dir,
+      excludes: ["src/lib/**"],
+    });
+    assertEquals(files, [join(dir, "src/main.zig")]);
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * @module
+ * Host implementation of dprint's Wasm Plugin Schema v4 for `plugin.wasm`.
+ *
+ * Instantiates the bundled Wasm module directly, so Zig and ZON source can be
+ * formatted without `@dprint/formatter`.
+ *
+ * @example Format a string
+ * ```ts
+ * import { formatText } from "@kjanat/dprint-zig";
+ *
+ * const result = formatText("main.zig", "const x=1;");
+ * if (result.kind === "changed") console.log(result.text);
+ * // => "const x = 1;\n"
+ * ```
+ *
+ * Line endings follow dprint's `newLineKind` (`"auto"` when unset, keeping
+ * those of the input), and a leading UTF-8 BOM is kept; the plugin itself
+ * only sees LF text without a BOM. `dprint-ignore-file` and
+ * `dprint-ignore-start`/`-end` comments are honoured (see `ignore.ts`).
+ *
+ * @example Give up on slow files
+ * ```ts
+ * import { FormatCancelledError, formatText } from "@kjanat/dprint-zig";
+ *
+ * try {
+ *   formatText("generated.zig", source, { timeout: 5_000 });
+ * } catch (err) {
+ *   if (!(err instanceof FormatCancelledError)) throw err;
+ * }
+ * ```
+ */
+
+import { EOL } from "node:os";
+
+import { parseDiagnostics, type ZigParseDiagnostic } from "./diagnostics.ts";
+import { findIgnoreDirectives, restoreIgnoredRegions } from "./ignore.ts";
+import { sha256Hex } from "./verify.ts";
+import { readPluginBytes } from "./wasm.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Numeric codes returned by the plugin's `format` export.
+ * Mirrors the Zig `FormatResult` enum in src/main.zig.
+ */
+export const FormatResultCode = {
+  /** Source unchanged, no output needed. */
+  NoChange: 0,
+  /** Source was reformatted. */
+  Changed: 1,
+  /** Error occurred (usually a parse error). */
+  Error: 2,
+} as const;
+
+/** Source was already formatted. */
+export type FormatNoChange = { kind: "no_change" };
+
+/** Source was reformatted; `text` holds the formatted output. */
+export type FormatChanged = { kind: "changed"; text: string };
+
+/**
+ * Formatting failed; `message` holds the plugin's error text and
+ * `diagnostics` the parse errors parsed from it (empty for other failures).
+ */
+export type FormatError = {
+  kind: "error";
+  message: string;
+  diagnostics: ZigParseDiagnostic[];
+};
+
+/** Result of formatting a file, tagged like the Zig `FormatResult` enum. */
+export type FormatResult = FormatNoChange | FormatChanged | FormatError;
+
+/**
+ * dprint's `newLineKind`: `"auto"` keeps the input's first line ending,
+ * `"system"` uses the platform's.
+ */
+export type NewLineKind = "auto" | "crlf" | "lf" | "system";
+
+/** Global dprint configuration passed to the plugin on registration. */
+export type GlobalConfig = {
+  lineWidth?: number;
+  indentWidth?: number;
+  useTabs?: boolean;
+  newLineKind?: NewLineKind;
+};
+
+/**
+ * Plugin metadata from the `get_plugin_info` export.
+ * Mirrors the Zig `PluginInfo` struct in src/main.zig.
+ */
+export type PluginInfo = {
+  /** Plugin name, e.g. `dprint-plugin-zig`. */
+  name: string;
+  /** Plugin version (the `build.zig.zon` version). */
+  version: string;
+  /** Key of the plugin's section in dprint config files (`zig`). */
+  configKey: string;
+  /** File extensions the plugin formats, without dots. */
+  fileExtensions: string[];
+  /** Exact file names the plugin formats. */
+  fileNames: string[];
+  /** Documentation URL. */
+  helpUrl: string;
+  /** JSON schema URL for the plugin's config section. */
+  configSchemaUrl: string;
+  /** URL dprint checks for plugin updates. */
+  updateUrl: string;
+};
+
+/**
+ * Per-call cancellation for {@link Formatter.formatText}.
+ *
+ * Formatting is synchronous, so both are only checked before the call and
+ * at the plugin's `host_has_cancelled` checkpoints (before parsing, after
+ * parsing and after rendering); a long parse or render runs to completion
+ * before a cancellation during it is noticed.
+ */
+export type CancellationOptions = {
+  /** Abort formatting when this signal is aborted (at the next checkpoint). */
+  signal?: AbortSignal;
+  /**
+   * Abort formatting once this many milliseconds have passed, checked at the
+   * next checkpoint.
+   */
+  timeout?: number;
+};
+
+/** Options for {@link createFormatter}. */
+export type FormatterOptions = {
+  /** Wasm module bytes. Defaults to the bundled `plugin.wasm`. */
+  wasm?: BufferSource;
+  /** Global dprint configuration. */
+  globalConfig?: GlobalConfig;
+  /**
+   * Plugin (`"zig"`) configuration. A `newLineKind` here overrides the
+   * global one.
+   */
+  pluginConfig?: Record<string, unknown>;
+};
+
+/** A warm instance of the Zig formatting plugin. */
+export interface Formatter {
+  /**
+   * Formats `fileText` as the file at `filePath`.
+   * The extension picks the parse mode (`.zon` or `.zig`).
+   * Throws {@link FormatCancelledError} if cancelled through `options`.
+   */
+  formatText(
+    filePath: string,
+    fileText: string,
+    overrideConfig?: Record<string, unknown>,
+    options?: CancellationOptions,
+  ): FormatResult;
+
+  /** Returns the plugin's metadata from `get_plugin_info`. */
+  getPluginInfo(): PluginInfo;
+
+  /** Returns the plugin's license text from `get_license_text`. */
+  getLicenseText(): string;
+
+  /** Returns the lowercase hex SHA-256 of the Wasm module bytes. */
+  getModuleChecksum(): string;
+}
+
+/**
+ * Thrown when formatting is cancelled by an `AbortSignal` or timeout.
+ * `cause` holds the signal's reason or a `TimeoutError` `DOMException`.
+ */
+export class FormatCancelledError extends Error {
+  /** Path of the file that was being formatted. */
+  readonly filePath: string;
+
+  constructor(filePath: string, cause: unknown) {
+    super(`${filePath}: formatting cancelled`, { cause });
+    this.name = "FormatCancelledError";
+    this.filePath = filePath;
+  }
+}
+
+/** Exports of a Schema v4 plugin used by this host. */
+type PluginExports = {
+  memory: WebAssembly.Memory;
+  dprint_plugin_version_4(): number;
+  get_shared_bytes_ptr(): number;
+  clear_shared_bytes(size: number): number;
+  get_plugin_info(): number;
+  get_license_text(): number;
+  register_config(configId: number): void;
+  release_config(configId: number): void;
+  set_file_path(): void;
+  set_override_config(): void;
+  format(configId: number): number;
+  get_formatted_text(): number;
+  get_error_text(): number;
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Largest buffer the plugin accepts (mirrors `ensureBufferCapacity`). */
+export const MAX_BUFFER_SIZE: number = 8 * 1024 * 1024;
+
+/** UTF-8 byte order mark, as decoded into a string. */
+const BOM = "\uFEFF";
+
+const NEW_LINE_KINDS: readonly string[] = ["auto", "crlf", "lf", "system"];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// =============================================================================
+// Line endings
+// =============================================================================
+
+/** Returns `config.newLineKind` if it is a valid {@link NewLineKind}. */
+function newLineKindOf(
+  config: Record<string, unknown> | undefined,
+): NewLineKind | undefined {
+  const kind = config?.newLineKind;
+  return typeof kind === "string" && NEW_LINE_KINDS.includes(kind)
+    ? kind as NewLineKind
+    : undefined;
+}
+
+/**
+ * Returns the line ending `kind` asks for in `text`. `"auto"` takes the
+ * first line ending of `text`, falling back to LF.
+ */
+export function resolveNewLine(kind: NewLineKind, text: string): "\n" | "\r\n" {
+  switch (kind) {
+    case "crlf":
+      return "\r\n";
+    case "lf":
+      return "\n";
+    case "system":
+      return EOL === "\r\n" ? "\r\n" : "\n";
+    case "auto": {
+      const lf = text.indexOf("\n");
+      return lf > 0 && text[lf - 1] === "\r" ? "\r\n" : "\n";
+    }
+  }
+}
+
+// =============================================================================
+// Formatter
+// =============================================================================
+
+/**
+ * Instantiates the Zig plugin and registers its configuration.
+ * Each formatter owns one Wasm instance; reuse it across calls.
+ */
+export function createFormatter(options: FormatterOptions = {}): Formatter {
+  const wasm = options.wasm ?? readPluginBytes();
+  const module = new WebAssembly.Module(wasm);
+  let checksum: string | undefined;
+
+  // Bytes the plugin may request through host_write_buffer.
+  let hostBuffer = new Uint8Array(0);
+  // Cancellation check for the request in progress, polled by the plugin.
+  let isCancelled: (() => boolean) | undefined;
+  let pollCancelled = false;
+
+  const instance = new WebAssembly.Instance(module, {
+    dprint: {
+      host_write_buffer: (ptr: number) => {
+        memoryAt(ptr, hostBuffer.length).set(hostBuffer);
+      },
+      // This host formats no embedded languages, so report no change.
+      host_format: () => FormatResultCode.NoChange,
+      host_get_formatted_text: () => {
+        hostBuffer = new Uint8Array(0);
+        return 0;
+      },
+      host_get_error_text: () => {
+        hostBuffer = new Uint8Array(0);
+        return 0;
+      },
+      host_has_cancelled: () => {
+        pollCancelled = isCancelled?.() ?? false;
+        return pollCancelled ? 1 : 0;
+      },
+    },
+  });
+  const exports = instance.exports as unknown as PluginExports;
+
+  function memoryAt(ptr: number, len: number): Uint8Array {
+    return new Uint8Array(exports.memory.buffer, ptr, len);
+  }
+
+  function sendBytes(bytes: Uint8Array): void {
+    const ptr = exports.clear_shared_bytes(bytes.length);
+    memoryAt(ptr, bytes.length).set(bytes);
+  }
+
+  function sendString(text: string): void {
+    sendBytes(encoder.encode(text));
+  }
+
+  function receiveString(len: number): string {
+    return decoder.decode(memoryAt(exports.get_shared_bytes_ptr(), len));
+  }
+
+  const configId = 1;
+  const newLineKind = newLineKindOf(options.pluginConfig)
+    ?? newLineKindOf(options.globalConfig)
+    ?? "auto";
+  sendString(JSON.stringify({
+    plugin: options.pluginConfig ?? {},
+    global: options.globalConfig ?? {},
+  }));
+  exports.register_config(configId);
+
+  /** Returns why the request was cancelled, or undefined if it was not. */
+  function cancelReason(
+    options: CancellationOptions,
+    deadline: number,
+  ): unknown {
+    if (options.signal?.aborted) {
+      return options.signal.reason
+        ?? new DOMException("Formatting was aborted", "AbortError");
+    }
+    if (performance.now() >= deadline) {
+      return new DOMException(
+        `Formatting timed out after ${options.timeout} ms`,
+        "TimeoutError",
+      );
+    }
+    return undefined;
+  }
+
+  return {
+    formatText(filePath, fileText, overrideConfig, options = {}) {
+      const deadline = options.timeout === undefined
+        ? Infinity
+        : performance.now() + options.timeout;
+      let reason = cancelReason(options, deadline);
+      if (reason !== undefined) {
+        throw new FormatCancelledError(filePath, reason);
+      }
+
+      // The plugin parses LF text without a BOM and renders LF; both are
+      // put back (or the configured line ending applied) on the way out.
+      const bom = fileText.startsWith(BOM) ? BOM : "";
+      const source = fileText.slice(bom.length).replaceAll("\r\n", "\n");
+      const newLine = resolveNewLine(
+        newLineKindOf(overrideConfig) ?? newLineKind,
+        fileText,
+      );
+      const restore = (text: string): FormatResult => {
+        const output = bom + (newLine === "\n"
+          ? text
+          : text.replaceAll("\n", newLine));
+        return output === fileText
+          ? { kind: "no_change" }
+          : { kind: "changed", text: output };
+      };
+
+      const directives = findIgnoreDirectives(filePath, source);
+      if (directives.ignoreFile) return { kind: "no_change" };
+      if (directives.diagnostics.length > 0) {
+        return {
+          kind: "error",
+          message: directives.diagnostics
+            .map((d) => `${d.file}:${d.line}:${d.column}: ${d.tag}`)
+            .join("\n"),
+          diagnostics: directives.diagnostics,
+        };
+      }
+
+      const fileBytes = encoder.encode(source);
+      if (fileBytes.length > MAX_BUFFER_SIZE) {
+        return {
+          kind: "error",
+          message: `${filePath}: file exceeds ${MAX_BUFFER_SIZE} bytes`,
+          diagnostics: [],
+        };
+      }
+
+      sendString(filePath);
+      exports.set_file_path();
+      if (overrideConfig) {
+        sendString(JSON.stringify(overrideConfig));
+        exports.set_override_config();
+      }
+      sendBytes(fileBytes);
+
+      let code: number;
+      isCancelled = () =>
+        (reason = cancelReason(options, deadline)) !== undefined;
+      pollCancelled = false;
+      try {
+        code = exports.format(configId);
+      } finally {
+        isCancelled = undefined;
+      }
+      // The plugin has already reset its request state; the next call is safe.
+      if (pollCancelled && code === FormatResultCode.Error) {
+        throw new FormatCancelledError(filePath, reason);
+      }
+
+      switch (code) {
+        case FormatResultCode.NoChange:
+          return restore(source);
+        case FormatResultCode.Changed:
+          return restore(restoreIgnoredRegions(
+            source,
+            receiveString(exports.get_formatted_text()),
+            directives.regions,
+          ));
+        case FormatResultCode.Error: {
+          const message = receiveString(exports.get_error_text());
+          return {
+            kind: "error",
+            message,
+            diagnostics: parseDiagnostics(message),
+          };
+        }
+        default:
+          throw new Error(`Unexpected format result from plugin: ${code}`);
+      }
+    },
+
+    getPluginInfo() {
+      return JSON.parse(receiveString(exports.get_plugin_info()));
+    },
+
+    getLicenseText() {
+      return receiveString(exports.get_license_text());
+    },
+
+    getModuleChecksum() {
+      checksum ??= sha256Hex(
+        ArrayBuffer.isView(wasm)
+          ? new Uint8Array(wasm.buffer, wasm.byteOffset, wasm.byteLength)
+          : new Uint8Array(wasm),
+      );
+      return checksum;
+    },
+  };
+}
+
+// =============================================================================
+// Default Formatter
+// =============================================================================
+
+let defaultFormatter: Formatter | undefined;
+
+/**
+ * Returns the shared formatter backed by the bundled `plugin.wasm`, created
+ * on first use. Every API that defaults its formatter uses this one, so the
+ * process holds a single plugin instance.
+ */
+export function getDefaultFormatter(): Formatter {
+  defaultFormatter ??= createFormatter();
+  return defaultFormatter;
+}
+
+/**
+ * Formats `fileText` with a shared formatter backed by the bundled
+ * `plugin.wasm`, created on first use. Throws {@link FormatCancelledError}
+ * if cancelled through `options`.
+ */
+export function formatText(
+  filePath: string,
+  fileText: string,
+  options?: CancellationOptions,
+): FormatResult {
+  return getDefaultFormatter().formatText(
+    filePath,
+    fileText,
+    undefined,
+    options,
+  );
+}
+
+/** Returns the bundled plugin's metadata (see {@link PluginInfo}). */
+export function getPluginInfo(): PluginInfo {
+  return getDefaultFormatter().getPluginInfo();
+}
+
+/** Returns the license text embedded in the bundled plugin. */
+export function getLicenseText(): string {
+  return getDefaultFormatter().getLicenseText();
+}
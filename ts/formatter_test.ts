@@ -0,0 +1,349 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertStringIncludes,
+  assertThrows,
+} from "@std/assert";
+import { readFileSync } from "node:fs";
+import { createTestFormatter, WASM_PATH, wasmTest } from "./_testing.ts";
+import {
+  createFormatter,
+  FormatCancelledError,
+  FormatResultCode,
+  resolveNewLine,
+} from "./formatter.ts";
+import { VERSION } from "./version.ts";
+
+/**
+ * Minimal plugin whose `format` returns 2 (error) if `host_has_cancelled`
+ * reports a cancellation and 0 (no_change) otherwise:
+ *
+ * ```wat
+ * (func (export "format") (param i32) (result i32)
+ *   (i32.shl (i32.ne (call $host_has_cancelled) (i32.const 0)) (i32.const 1)))
+ * ```
+ */
+const CANCELLABLE_PLUGIN = Uint8Array.from(
+  atob(
+    "AGFzbQEAAAABEQRgAAF/YAF/AX9gAX8AYAAAAh0BBmRwcmludBJob3N0X2hhc19j"
+      + "YW5jZWxsZWQAAAMGBQABAgMBBQMBAAEHYQYGbWVtb3J5AgAUZ2V0X3NoYXJlZF9i"
+      + "eXRlc19wdHIAARJjbGVhcl9zaGFyZWRfYnl0ZXMAAg9yZWdpc3Rlcl9jb25maWcA"
+      + "Aw1zZXRfZmlsZV9wYXRoAAQGZm9ybWF0AAUKHAUEAEEACwQAQQALAgALAgALCgAQ"
+      + "AEEAR0EBdAs=",
+  ),
+  (ch) => ch.charCodeAt(0),
+);
+
+/** An AbortSignal that reports aborted from its `calls`-th check on. */
+function abortAfterChecks(calls: number): AbortSignal {
+  const signal = new AbortController().signal;
+  let checks = 0;
+  Object.defineProperty(signal, "aborted", { get: () => ++checks >= calls });
+  return signal;
+}
+
+/** Runs `fn` with `performance.now` returning `times` in turn, then the last. */
+function withClock<T>(times: number[], fn: () => T): T {
+  const now = performance.now;
+  let calls = 0;
+  performance.now = () => times[Math.min(calls++, times.length - 1)];
+  try {
+    return fn();
+  } finally {
+    performance.now = now;
+  }
+}
+
+// =============================================================================
+// FormatResultCode tests
+// =============================================================================
+
+Deno.test("FormatResultCode matches the Zig FormatResult enum", () => {
+  assertEquals(FormatResultCode.NoChange, 0);
+  assertEquals(FormatResultCode.Changed, 1);
+  assertEquals(FormatResultCode.Error, 2);
+});
+
+// =============================================================================
+// formatText tests
+// =============================================================================
+
+wasmTest("formatText reformats unformatted Zig", () => {
+  const result = createTestFormatter().formatText("main.zig", "const x=1;");
+  assertEquals(result, { kind: "changed", text: "const x = 1;\n" });
+});
+
+wasmTest("formatText reports no_change for formatted Zig", () => {
+  const result = createTestFormatter().formatText(
+    "main.zig",
+    "const x = 1;\n",
+  );
+  assertEquals(result, { kind: "no_change" });
+});
+
+wasmTest("formatText reports no_change for empty input", () => {
+  assertEquals(createTestFormatter().formatText("main.zig", ""), {
+    kind: "no_change",
+  });
+});
+
+wasmTest("formatText returns parse errors", () => {
+  const result = createTestFormatter().formatText(
+    "main.zig",
+    "pub fn main() { let = 1; }",
+  );
+  assertEquals(result.kind, "error");
+  if (result.kind === "error") {
+    assertStringIncludes(result.message, ":1:");
+    assertEquals(result.diagnostics.length > 0, true);
+    assertEquals(result.diagnostics[0].line, 1);
+  }
+});
+
+wasmTest("formatter instance is reusable across calls", () => {
+  const formatter = createTestFormatter();
+  for (let i = 0; i < 50; i++) {
+    assertEquals(formatter.formatText("main.zig", "const x=1;"), {
+      kind: "changed",
+      text: "const x = 1;\n",
+    });
+    assertEquals(formatter.formatText("main.zig", "const =").kind, "error");
+  }
+});
+
+wasmTest("formatText handles multi-byte UTF-8", () => {
+  const result = createTestFormatter().formatText(
+    "main.zig",
+    `const s="héllo → wörld";`,
+  );
+  assertEquals(result, {
+    kind: "changed",
+    text: `const s = "héllo → wörld";\n`,
+  });
+});
+
+// =============================================================================
+// Line ending tests
+// =============================================================================
+
+Deno.test("resolveNewLine applies newLineKind", () => {
+  assertEquals(resolveNewLine("lf", "a\r\n"), "\n");
+  assertEquals(resolveNewLine("crlf", "a\n"), "\r\n");
+  assertEquals(resolveNewLine("auto", "a\r\nb\n"), "\r\n");
+  assertEquals(resolveNewLine("auto", "a\nb\r\n"), "\n");
+  assertEquals(resolveNewLine("auto", "a"), "\n");
+});
+
+wasmTest("formatText keeps CRLF line endings by default", () => {
+  const formatter = createTestFormatter();
+  assertEquals(
+    formatter.formatText("main.zig", "const x=1;\r\nconst y=2;\r\n"),
+    {
+      kind: "changed",
+      text: "const x = 1;\r\nconst y = 2;\r\n",
+    },
+  );
+  assertEquals(
+    formatter.formatText("main.zig", "const x = 1;\r\nconst y = 2;\r\n"),
+    { kind: "no_change" },
+  );
+});
+
+wasmTest("formatText applies the configured newLineKind", () => {
+  const lf = createFormatter({
+    wasm: readFileSync(WASM_PATH!),
+    globalConfig: { newLineKind: "lf" },
+  });
+  assertEquals(lf.formatText("main.zig", "const x = 1;\r\n"), {
+    kind: "changed",
+    text: "const x = 1;\n",
+  });
+  assertEquals(
+    lf.formatText("main.zig", "const x = 1;\n", { newLineKind: "crlf" }),
+    { kind: "changed", text: "const x = 1;\r\n" },
+  );
+
+  const crlf = createFormatter({
+    wasm: readFileSync(WASM_PATH!),
+    globalConfig: { newLineKind: "lf" },
+    pluginConfig: { newLineKind: "crlf" },
+  });
+  assertEquals(crlf.formatText("main.zig", "const x = 1;\r\n"), {
+    kind: "no_change",
+  });
+});
+
+wasmTest("formatText keeps a leading BOM", () => {
+  const formatter = createTestFormatter();
+  assertEquals(formatter.formatText("main.zig", "\uFEFFconst x=1;"), {
+    kind: "changed",
+    text: "\uFEFFconst x = 1;\n",
+  });
+  assertEquals(formatter.formatText("main.zig", "\uFEFFconst x = 1;\n"), {
+    kind: "no_change",
+  });
+});
+
+// =============================================================================
+// Ignore directive tests
+// =============================================================================
+
+wasmTest("formatText leaves files with dprint-ignore-file alone", () => {
+  const text = "// dprint-ignore-file\nconst x=1;\nconst y = ;\n";
+  assertEquals(createTestFormatter().formatText("main.zig", text), {
+    kind: "no_change",
+  });
+});
+
+wasmTest("formatText keeps dprint-ignore regions as written", () => {
+  const formatter = createTestFormatter();
+  const region = "// dprint-ignore-start\r\n"
+    + "const table = [_]u8{ 0x00,0x01,\r\n"
+    + "\t\t0x02,0x03 };\r\n"
+    + "// dprint-ignore-end\r\n";
+  assertEquals(formatter.formatText("main.zig", `const x=1;\r\n${region}`), {
+    kind: "changed",
+    text: `const x = 1;\r\n${region}`,
+  });
+  assertEquals(formatter.formatText("main.zig", `const x = 1;\r\n${region}`), {
+    kind: "no_change",
+  });
+});
+
+wasmTest("formatText reports unbalanced dprint-ignore comments", () => {
+  const result = createTestFormatter().formatText(
+    "main.zig",
+    "const x=1;\n  // dprint-ignore-start\nconst y=2;\n",
+  );
+  assertEquals(result.kind, "error");
+  if (result.kind === "error") {
+    assertEquals(result.message, "main.zig:2:3: unmatched_ignore_start");
+    assertEquals(result.diagnostics[0].line, 2);
+  }
+});
+
+// =============================================================================
+// Cancellation tests
+// =============================================================================
+
+Deno.test("formatText throws FormatCancelledError for an aborted signal", () => {
+  const controller = new AbortController();
+  controller.abort(new Error("stop"));
+  const formatter = createFormatter({ wasm: CANCELLABLE_PLUGIN });
+  const err = assertThrows(
+    () =>
+      formatter.formatText("main.zig", "x", undefined, {
+        signal: controller.signal,
+      }),
+    FormatCancelledError,
+    "main.zig: formatting cancelled",
+  );
+  assertEquals(err.filePath, "main.zig");
+  assertEquals((err.cause as Error).message, "stop");
+});
+
+Deno.test("formatText throws FormatCancelledError for an expired timeout", () => {
+  const formatter = createFormatter({ wasm: CANCELLABLE_PLUGIN });
+  const err = assertThrows(
+    () => formatter.formatText("main.zig", "x", undefined, { timeout: 0 }),
+    FormatCancelledError,
+  );
+  assertInstanceOf(err.cause, DOMException);
+  assertEquals(err.cause.name, "TimeoutError");
+});
+
+Deno.test("formatText cancels when the plugin polls host_has_cancelled", () => {
+  const formatter = createFormatter({ wasm: CANCELLABLE_PLUGIN });
+  const err = assertThrows(
+    () =>
+      formatter.formatText("main.zig", "x", undefined, {
+        signal: abortAfterChecks(2),
+      }),
+    FormatCancelledError,
+  );
+  assertInstanceOf(err.cause, DOMException);
+  assertEquals(err.cause.name, "AbortError");
+
+  // The next request is not affected by the cancelled one.
+  assertEquals(formatter.formatText("main.zig", "x"), { kind: "no_change" });
+});
+
+Deno.test("formatText times out when the deadline passes mid-format", () => {
+  const formatter = createFormatter({ wasm: CANCELLABLE_PLUGIN });
+  // Deadline at 10 ms; the check before the call sees 0, the plugin's poll 50.
+  const err = withClock([0, 0, 50], () =>
+    assertThrows(
+      () => formatter.formatText("main.zig", "x", undefined, { timeout: 10 }),
+      FormatCancelledError,
+    ));
+  assertInstanceOf(err.cause, DOMException);
+  assertEquals(err.cause.name, "TimeoutError");
+});
+
+wasmTest(
+  "formatText notices a deadline passed while parsing after the parse",
+  () => {
+    const formatter = createTestFormatter();
+    // The check before the call and the plugin's first checkpoint (before
+    // parsing) see 0; its next checkpoint, after parsing, sees 50.
+    assertThrows(
+      () =>
+        withClock(
+          [0, 0, 0, 50],
+          () =>
+            formatter.formatText("main.zig", "const x=1;", undefined, {
+              timeout: 10,
+            }),
+        ),
+      FormatCancelledError,
+      "main.zig: formatting cancelled",
+    );
+    assertEquals(formatter.formatText("main.zig", "const x=1;"), {
+      kind: "changed",
+      text: "const x = 1;\n",
+    });
+  },
+);
+
+wasmTest("formatter is reusable after a cancelled call", () => {
+  const formatter = createTestFormatter();
+  assertThrows(
+    () =>
+      formatter.formatText("main.zig", "const x=1;", undefined, { timeout: 0 }),
+    FormatCancelledError,
+  );
+  assertEquals(
+    formatter.formatText("main.zig", "const x=1;", undefined, {
+      timeout: 60_000,
+    }),
+    { kind: "changed", text: "const x = 1;\n" },
+  );
+});
+
+// =============================================================================
+// Plugin metadata tests
+// =============================================================================
+
+wasmTest("getPluginInfo returns the Zig PluginInfo fields", () => {
+  const info = createTestFormatter().getPluginInfo();
+  assertEquals(info.name, "dprint-plugin-zig");
+  assertEquals(info.configKey, "zig");
+  assertEquals(info.fileExtensions, ["zig", "zon"]);
+  assertEquals(info.fileNames, []);
+  assertStringIncludes(info.helpUrl, "github.com/kjanat/dprint-plugin-zig");
+  assertStringIncludes(info.configSchemaUrl, "schema.json");
+  assertStringIncludes(info.updateUrl, "plugins.dprint.dev");
+});
+
+wasmTest("getPluginInfo version matches the package VERSION", () => {
+  assertEquals(createTestFormatter().getPluginInfo().version, VERSION);
+});
+
+wasmTest("getLicenseText returns the embedded license", () => {
+  const license = createTestFormatter().getLicenseText();
+  assertStringIncludes(license, "MIT License");
+  assertEquals(
+    license,
+    readFileSync(new URL("../LICENSE", import.meta.url), "utf8"),
+  );
+});
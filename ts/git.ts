@@ -0,0 +1,257 @@
+/**
+ * @module
+ * Git helpers for formatting only the files a commit or branch touches.
+ *
+ * Shells out to `git`: {@link listStagedFiles} and {@link listChangedFiles}
+ * select Zig files from `git diff`, {@link readStagedFile} and
+ * {@link writeStagedFile} read and replace blobs in the index (so a
+ * pre-commit hook formats what is being committed, not the working-tree
+ * copy), and {@link installPreCommitHook} writes a hook running
+ * `dprint-zig --staged`.
+ *
+ * @example Check the staged Zig files
+ * ```ts
+ * import { formatText, listStagedFiles, readStagedFile } from "@kjanat/dprint-zig";
+ *
+ * for (const path of await listStagedFiles(".")) {
+ *   const { text } = await readStagedFile(path, ".");
+ *   if (formatText(path, text).kind !== "no_change") console.log(path);
+ * }
+ * ```
+ */
+
+import { Buffer } from "node:buffer";
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { chmod, mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+
+import { isZigPath } from "./files.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Exit code and output of a git command. */
+export type GitResult = { code: number; stdout: string; stderr: string };
+
+/** Options for {@link runGit}. */
+export type RunGitOptions = {
+  /** Working directory. Defaults to the process cwd. */
+  cwd?: string;
+  /** Text written to the command's stdin. */
+  input?: string;
+  /** Throw if the command exits non-zero. */
+  check?: boolean;
+};
+
+/** A file's entry in the index. */
+export type StagedFile = {
+  /** File mode, e.g. `100644`. */
+  mode: string;
+  /** Staged contents. */
+  text: string;
+};
+
+/** Options for {@link installPreCommitHook}. */
+export type InstallHookOptions = {
+  /** Command the hook runs. Default: {@link DEFAULT_HOOK_COMMAND}. */
+  command?: string;
+  /** Format and re-stage files instead of only checking them. */
+  fix?: boolean;
+  /** Replace a pre-commit hook that was not installed by dprint-zig. */
+  force?: boolean;
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Command a pre-commit hook runs by default. */
+export const DEFAULT_HOOK_COMMAND = "npx --no-install dprint-zig";
+
+/** Marks hooks written by {@link installPreCommitHook}. */
+export const HOOK_MARKER = "# Installed by dprint-zig install-hook";
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+/** Runs `git` with `args`, collecting its output. */
+export function runGit(
+  args: string[],
+  options: RunGitOptions = {},
+): Promise<GitResult> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn("git", args, { cwd: options.cwd });
+    const stdout: Uint8Array[] = [];
+    const stderr: Uint8Array[] = [];
+    child.stdout.on("data", (chunk) => stdout.push(chunk));
+    child.stderr.on("data", (chunk) => stderr.push(chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      // Keep a leading BOM: file contents (`cat-file blob`) pass through here.
+      const decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+      const result = {
+        code: code ?? 1,
+        stdout: decoder.decode(Buffer.concat(stdout)),
+        stderr: decoder.decode(Buffer.concat(stderr)),
+      };
+      if (options.check && result.code !== 0) {
+        reject(
+          new Error(`git ${args[0]} failed: ${result.stderr.trim()}`),
+        );
+      } else {
+        resolvePromise(result);
+      }
+    });
+    child.stdin.end(options.input ?? "");
+  });
+}
+
+/** Returns the absolute path of the work tree containing `cwd`. */
+export async function gitRoot(cwd: string): Promise<string> {
+  const { stdout } = await runGit(["rev-parse", "--show-toplevel"], {
+    cwd,
+    check: true,
+  });
+  return resolve(stdout.trim());
+}
+
+/** Lists the added, copied, modified or renamed Zig files in a diff. */
+async function diffZigFiles(
+  cwd: string,
+  diffArgs: string[],
+  pathspecs: readonly string[],
+): Promise<string[]> {
+  const root = await gitRoot(cwd);
+  const { stdout } = await runGit(
+    [
+      "diff",
+      ...diffArgs,
+      "--name-only",
+      "--diff-filter=ACMR",
+      "-z",
+      "--",
+      ...pathspecs,
+    ],
+    { cwd, check: true },
+  );
+  return stdout
+    .split("\0")
+    .filter((path) => path !== "" && isZigPath(path))
+    .map((path) => join(root, path))
+    .sort();
+}
+
+/**
+ * Lists the Zig files staged for commit (`git diff --cached`), as absolute
+ * paths. `pathspecs` narrow the diff, relative to `cwd`.
+ */
+export function listStagedFiles(
+  cwd: string,
+  pathspecs: readonly string[] = [],
+): Promise<string[]> {
+  return diffZigFiles(cwd, ["--cached"], pathspecs);
+}
+
+/**
+ * Lists the Zig files changed in the working tree since the merge base of
+ * `ref` and `HEAD`, as absolute paths.
+ */
+export async function listChangedFiles(
+  ref: string,
+  cwd: string,
+  pathspecs: readonly string[] = [],
+): Promise<string[]> {
+  const { stdout } = await runGit(["merge-base", ref, "HEAD"], {
+    cwd,
+    check: true,
+  });
+  return diffZigFiles(cwd, [stdout.trim()], pathspecs);
+}
+
+/** Returns the work tree root and `path` relative to it, `/`-separated. */
+async function indexPath(
+  path: string,
+  cwd: string,
+): Promise<{ root: string; name: string }> {
+  const root = await gitRoot(cwd);
+  return {
+    root,
+    name: relative(root, resolve(cwd, path)).split(sep).join("/"),
+  };
+}
+
+/** Reads the staged contents of `path`. Throws if it is not in the index. */
+export async function readStagedFile(
+  path: string,
+  cwd: string,
+): Promise<StagedFile> {
+  const { root, name } = await indexPath(path, cwd);
+  const { stdout } = await runGit(["ls-files", "--stage", "-z", "--", name], {
+    cwd: root,
+    check: true,
+  });
+  const [mode, blob] = stdout.split(/[ \t]/);
+  if (!blob) throw new Error(`${name} is not in the index`);
+  const { stdout: text } = await runGit(["cat-file", "blob", blob], {
+    cwd: root,
+    check: true,
+  });
+  return { mode, text };
+}
+
+/** Stages `file.text` with `file.mode` as the contents of `path`. */
+export async function writeStagedFile(
+  path: string,
+  file: StagedFile,
+  cwd: string,
+): Promise<void> {
+  const { root, name } = await indexPath(path, cwd);
+  const { stdout } = await runGit(
+    ["hash-object", "-w", "--stdin", "--path", name],
+    { cwd: root, input: file.text, check: true },
+  );
+  await runGit(
+    ["update-index", "--cacheinfo", `${file.mode},${stdout.trim()},${name}`],
+    { cwd: root, check: true },
+  );
+}
+
+// =============================================================================
+// Hooks
+// =============================================================================
+
+/** Returns the pre-commit hook script {@link installPreCommitHook} writes. */
+export function preCommitHook(options: InstallHookOptions = {}): string {
+  const command = options.command ?? DEFAULT_HOOK_COMMAND;
+  const args = options.fix ? "--staged" : "--staged --check";
+  return `#!/bin/sh\n${HOOK_MARKER}\nexec ${command} ${args}\n`;
+}
+
+/**
+ * Writes the repository's pre-commit hook (honouring `core.hooksPath`) and
+ * returns its path. Throws if another pre-commit hook exists, unless
+ * `force` is set.
+ */
+export async function installPreCommitHook(
+  cwd: string,
+  options: InstallHookOptions = {},
+): Promise<string> {
+  const { stdout } = await runGit(
+    ["rev-parse", "--git-path", "hooks/pre-commit"],
+    { cwd, check: true },
+  );
+  const path = resolve(cwd, stdout.trim());
+  if (
+    !options.force && existsSync(path)
+    && !(await readFile(path, "utf8")).includes(HOOK_MARKER)
+  ) {
+    throw new Error(`${path} already exists (use --force to replace it)`);
+  }
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, preCommitHook(options));
+  await chmod(path, 0o755);
+  return path;
+}
@@ -0,0 +1,196 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  HOOK_MARKER,
+  installPreCommitHook,
+  listChangedFiles,
+  listStagedFiles,
+  preCommitHook,
+  readStagedFile,
+  runGit,
+  writeStagedFile,
+} from "./git.ts";
+
+/** Runs `fn` in a new repository with one commit holding `files`. */
+async function withRepo(
+  files: Record<string, string>,
+  fn: (dir: string) => Promise<void>,
+): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), "dprint-zig-git-"));
+  const git = (...args: string[]) => runGit(args, { cwd: dir, check: true });
+  try {
+    await git("init", "-q", "-b", "main");
+    await git("config", "user.email", "test@example.com");
+    await git("config", "user.name", "Test");
+    for (const [name, text] of Object.entries(files)) {
+      await writeFile(join(dir, name), text);
+    }
+    await git("add", "-A");
+    await git("commit", "-q", "--allow-empty", "-m", "initial");
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+}
+
+const git = (dir: string, ...args: string[]) =>
+  runGit(args, { cwd: dir, check: true });
+
+/** Runs `fn` without config passed through `GIT_CONFIG_*` variables. */
+async function withoutEnvConfig(fn: () => Promise<void>): Promise<void> {
+  const count = Deno.env.get("GIT_CONFIG_COUNT");
+  Deno.env.delete("GIT_CONFIG_COUNT");
+  try {
+    await fn();
+  } finally {
+    if (count !== undefined) Deno.env.set("GIT_CONFIG_COUNT", count);
+  }
+}
+
+// =============================================================================
+// runGit tests
+// =============================================================================
+
+Deno.test("runGit reports failures", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "dprint-zig-git-"));
+  try {
+    const result = await runGit(["rev-parse", "HEAD"], { cwd: dir });
+    assertEquals(result.code !== 0, true);
+    await assertRejects(
+      () => runGit(["rev-parse", "HEAD"], { cwd: dir, check: true }),
+      Error,
+      "git rev-parse failed",
+    );
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+});
+
+// =============================================================================
+// File selection tests
+// =============================================================================
+
+Deno.test("listStagedFiles lists staged Zig files only", async () => {
+  await withRepo({ "a.zig": "", "b.zig": "", "c.zig": "" }, async (dir) => {
+    await writeFile(join(dir, "a.zig"), "const a = 1;\n");
+    await writeFile(join(dir, "b.zig"), "const b = 1;\n");
+    await writeFile(join(dir, "d.zon"), ".{}\n");
+    await writeFile(join(dir, "notes.md"), "# notes\n");
+    await git(dir, "add", "a.zig", "d.zon", "notes.md");
+    await git(dir, "rm", "-q", "c.zig");
+
+    assertEquals(await listStagedFiles(dir), [
+      join(dir, "a.zig"),
+      join(dir, "d.zon"),
+    ]);
+    assertEquals(await listStagedFiles(dir, ["*.zon"]), [join(dir, "d.zon")]);
+  });
+});
+
+Deno.test("listChangedFiles lists files changed since the merge base", async () => {
+  await withRepo({ "a.zig": "", "b.zig": "" }, async (dir) => {
+    await git(dir, "checkout", "-q", "-b", "topic");
+    await writeFile(join(dir, "a.zig"), "const a = 1;\n");
+    await git(dir, "commit", "-q", "-am", "change a");
+    await writeFile(join(dir, "c.zig"), "const c = 1;\n");
+    await git(dir, "add", "c.zig");
+
+    assertEquals(await listChangedFiles("main", dir), [
+      join(dir, "a.zig"),
+      join(dir, "c.zig"),
+    ]);
+  });
+});
+
+// =============================================================================
+// Index tests
+// =============================================================================
+
+Deno.test("readStagedFile and writeStagedFile use the index", async () => {
+  await withRepo({ "a.zig": "const a=1;\n" }, async (dir) => {
+    await writeFile(join(dir, "a.zig"), "const a=2;\n");
+    const staged = await readStagedFile(join(dir, "a.zig"), dir);
+    assertEquals(staged, { mode: "100644", text: "const a=1;\n" });
+
+    await writeStagedFile("a.zig", { ...staged, text: "const a = 1;\n" }, dir);
+    assertEquals(
+      (await git(dir, "show", ":a.zig")).stdout,
+      "const a = 1;\n",
+    );
+    assertEquals(await readFile(join(dir, "a.zig"), "utf8"), "const a=2;\n");
+  });
+});
+
+Deno.test("readStagedFile and writeStagedFile keep a leading BOM", async () => {
+  await withRepo({ "a.zig": "\uFEFFconst a=1;\n" }, async (dir) => {
+    const staged = await readStagedFile("a.zig", dir);
+    assertEquals(staged.text, "\uFEFFconst a=1;\n");
+
+    await writeStagedFile(
+      "a.zig",
+      { ...staged, text: "\uFEFFconst a = 1;\n" },
+      dir,
+    );
+    const { stdout } = await git(dir, "cat-file", "-p", ":a.zig");
+    assertEquals(stdout, "\uFEFFconst a = 1;\n");
+  });
+});
+
+Deno.test("readStagedFile rejects files missing from the index", async () => {
+  await withRepo({}, async (dir) => {
+    await assertRejects(
+      () => readStagedFile("a.zig", dir),
+      Error,
+      "not in the index",
+    );
+  });
+});
+
+// =============================================================================
+// Hook tests
+// =============================================================================
+
+Deno.test("preCommitHook runs --staged with the given command", () => {
+  assertStringIncludes(
+    preCommitHook(),
+    "exec npx --no-install dprint-zig --staged --check\n",
+  );
+  assertStringIncludes(
+    preCommitHook({ command: "deno run -A bin.ts", fix: true }),
+    "exec deno run -A bin.ts --staged\n",
+  );
+});
+
+Deno.test("installPreCommitHook writes an executable hook", async () => {
+  await withRepo({}, (dir) =>
+    withoutEnvConfig(async () => {
+      const path = await installPreCommitHook(dir);
+      assertEquals(path, join(dir, ".git", "hooks", "pre-commit"));
+      assertStringIncludes(await readFile(path, "utf8"), HOOK_MARKER);
+      assertEquals((await stat(path)).mode & 0o111, 0o111);
+
+      // Reinstalling over its own hook is fine; a foreign hook needs force.
+      await installPreCommitHook(dir, { fix: true });
+      await writeFile(path, "#!/bin/sh\nmake lint\n");
+      await assertRejects(
+        () => installPreCommitHook(dir),
+        Error,
+        "already exists",
+      );
+      await installPreCommitHook(dir, { force: true });
+      assertStringIncludes(await readFile(path, "utf8"), HOOK_MARKER);
+    }));
+});
+
+Deno.test("installPreCommitHook honours core.hooksPath", async () => {
+  await withRepo({}, (dir) =>
+    withoutEnvConfig(async () => {
+      await git(dir, "config", "core.hooksPath", "tools/hooks");
+      assertEquals(
+        await installPreCommitHook(dir),
+        join(dir, "tools", "hooks", "pre-commit"),
+      );
+    }));
+});
@@ -0,0 +1,146 @@
+/**
+ * @module
+ * `dprint-ignore` directives for Zig source.
+ *
+ * A `// dprint-ignore-file` comment among the comments at the top of a file
+ * leaves the whole file alone. Lines between `// dprint-ignore-start` and
+ * `// dprint-ignore-end` comments (each on a line of its own) are kept as
+ * written while the rest of the file is formatted. The formatter applies
+ * both; a start without an end, or an end without a start, is reported as a
+ * diagnostic instead of formatting the file.
+ *
+ * @example Keep a generated table as written
+ * ```zig
+ * // dprint-ignore-start
+ * const table = [_]u8{ 0x00,0x01,
+ *                      0x02,0x03 };
+ * // dprint-ignore-end
+ * ```
+ */
+
+import type { ZigParseDiagnostic } from "./diagnostics.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** An ignored region, as 0-based indices of its directive lines. */
+export type IgnoreRegion = { startLine: number; endLine: number };
+
+/** Directives found by {@link findIgnoreDirectives}. */
+export type IgnoreDirectives = {
+  /** The file has a `dprint-ignore-file` comment. */
+  ignoreFile: boolean;
+  /** Balanced `dprint-ignore-start`/`-end` pairs, in order. */
+  regions: IgnoreRegion[];
+  /** Unbalanced directives; the file should not be formatted if any. */
+  diagnostics: ZigParseDiagnostic[];
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Matches a line holding only a `// dprint-ignore-*` comment. */
+const DIRECTIVE_RE = /^[ \t]*\/\/[ \t]*dprint-ignore-(file|start|end)[ \t]*$/;
+
+/** Matches a line that may come before a `dprint-ignore-file` comment. */
+const LEADING_RE = /^[ \t]*(\/\/.*)?$/;
+
+/** Readable message for each directive diagnostic tag. */
+export const IGNORE_ERROR_MESSAGES = {
+  unmatched_ignore_start:
+    "dprint-ignore-start has no matching dprint-ignore-end",
+  unmatched_ignore_end: "dprint-ignore-end has no matching dprint-ignore-start",
+} as const;
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Finds the ignore directives in `text` (LF line endings). Diagnostics are
+ * reported at `filePath`, at the directive's comment.
+ */
+export function findIgnoreDirectives(
+  filePath: string,
+  text: string,
+): IgnoreDirectives {
+  const lines = text.split("\n");
+  const regions: IgnoreRegion[] = [];
+  const diagnostics: ZigParseDiagnostic[] = [];
+  let ignoreFile = false;
+  let leading = true;
+  let open: number | undefined;
+
+  const report = (
+    index: number,
+    tag: keyof typeof IGNORE_ERROR_MESSAGES,
+  ) => {
+    diagnostics.push({
+      file: filePath,
+      line: index + 1,
+      column: lines[index].indexOf("/") + 1,
+      tag,
+      message: IGNORE_ERROR_MESSAGES[tag],
+    });
+  };
+
+  lines.forEach((line, index) => {
+    leading &&= LEADING_RE.test(line);
+    switch (line.match(DIRECTIVE_RE)?.[1]) {
+      case "file":
+        ignoreFile ||= leading;
+        break;
+      case "start":
+        if (open !== undefined) report(open, "unmatched_ignore_start");
+        open = index;
+        break;
+      case "end":
+        if (open === undefined) report(index, "unmatched_ignore_end");
+        else regions.push({ startLine: open, endLine: index });
+        open = undefined;
+        break;
+    }
+  });
+  if (open !== undefined) report(open, "unmatched_ignore_start");
+
+  return { ignoreFile, regions, diagnostics };
+}
+
+/**
+ * Replaces the lines between each pair of directives in `formatted` with the
+ * same lines of `source`, so ignored regions come out as they went in. The
+ * directive comments themselves keep their formatted indentation.
+ */
+export function restoreIgnoredRegions(
+  source: string,
+  formatted: string,
+  regions: IgnoreRegion[],
+): string {
+  if (regions.length === 0) return formatted;
+  const sourceLines = source.split("\n");
+  const out: string[] = [];
+  let region = 0;
+  let skipping = false;
+
+  for (const line of formatted.split("\n")) {
+    const directive = line.match(DIRECTIVE_RE)?.[1];
+    if (skipping) {
+      if (directive !== "end") continue;
+      skipping = false;
+      region++;
+    } else if (directive === "start" && region < regions.length) {
+      const { startLine, endLine } = regions[region];
+      out.push(line, ...sourceLines.slice(startLine + 1, endLine));
+      skipping = true;
+      continue;
+    }
+    out.push(line);
+  }
+
+  if (region !== regions.length) {
+    throw new Error("dprint-ignore directives were lost while formatting");
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,102 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { findIgnoreDirectives, restoreIgnoredRegions } from "./ignore.ts";
+
+// =============================================================================
+// findIgnoreDirectives tests
+// =============================================================================
+
+Deno.test("findIgnoreDirectives finds dprint-ignore-file in leading comments", () => {
+  const header = "//! Generated.\n\n// dprint-ignore-file\nconst a=1;\n";
+  assertEquals(findIgnoreDirectives("a.zig", header).ignoreFile, true);
+
+  const late = "const a=1;\n// dprint-ignore-file\n";
+  assertEquals(findIgnoreDirectives("a.zig", late).ignoreFile, false);
+});
+
+Deno.test("findIgnoreDirectives pairs start and end comments", () => {
+  const text = [
+    "const a=1;",
+    "// dprint-ignore-start",
+    "const b=2;",
+    "    //dprint-ignore-end",
+    "/// dprint-ignore-start",
+    "// dprint-ignore-start: not a directive",
+  ].join("\n");
+  assertEquals(findIgnoreDirectives("a.zig", text), {
+    ignoreFile: false,
+    regions: [{ startLine: 1, endLine: 3 }],
+    diagnostics: [],
+  });
+});
+
+Deno.test("findIgnoreDirectives reports unbalanced comments", () => {
+  const text = [
+    "  // dprint-ignore-end",
+    "// dprint-ignore-start",
+    "// dprint-ignore-start",
+    "// dprint-ignore-end",
+    "// dprint-ignore-start",
+  ].join("\n");
+  const { regions, diagnostics } = findIgnoreDirectives("a.zig", text);
+  assertEquals(regions, [{ startLine: 2, endLine: 3 }]);
+  assertEquals(
+    diagnostics.map((d) => [d.file, d.line, d.column, d.tag]),
+    [
+      ["a.zig", 1, 3, "unmatched_ignore_end"],
+      ["a.zig", 2, 1, "unmatched_ignore_start"],
+      ["a.zig", 5, 1, "unmatched_ignore_start"],
+    ],
+  );
+  assertEquals(
+    diagnostics[0].message,
+    "dprint-ignore-end has no matching dprint-ignore-start",
+  );
+});
+
+// =============================================================================
+// restoreIgnoredRegions tests
+// =============================================================================
+
+Deno.test("restoreIgnoredRegions puts back the ignored lines", () => {
+  const source = [
+    "const a=1;",
+    "fn f() void {",
+    "        // dprint-ignore-start",
+    "    const  b = .{1,2};",
+    "  // dprint-ignore-end",
+    "}",
+    "",
+  ].join("\n");
+  const formatted = [
+    "const a = 1;",
+    "fn f() void {",
+    "    // dprint-ignore-start",
+    "    const b = .{ 1, 2 };",
+    "    // dprint-ignore-end",
+    "}",
+    "",
+  ].join("\n");
+  const { regions } = findIgnoreDirectives("a.zig", source);
+  assertEquals(
+    restoreIgnoredRegions(source, formatted, regions),
+    [
+      "const a = 1;",
+      "fn f() void {",
+      "    // dprint-ignore-start",
+      "    const  b = .{1,2};",
+      "    // dprint-ignore-end",
+      "}",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("restoreIgnoredRegions throws if a directive went missing", () => {
+  const source = "// dprint-ignore-start\nconst a=1;\n// dprint-ignore-end\n";
+  const { regions } = findIgnoreDirectives("a.zig", source);
+  assertThrows(
+    () => restoreIgnoredRegions(source, "const a = 1;\n", regions),
+    Error,
+    "lost",
+  );
+});
@@ -0,0 +1,561 @@
+/**
+ * @module
+ * Language Server Protocol server for Zig formatting over stdio.
+ *
+ * Implements `textDocument/formatting`, `textDocument/rangeFormatting` and
+ * `textDocument/publishDiagnostics` (parse errors) for `.zig` and `.zon`
+ * documents, using one warm `plugin.wasm` instance for the whole process.
+ * Documents are synced in full (`TextDocumentSyncKind.Full`). A dprint config
+ * object passed as `initializationOptions` is validated (see `./config.ts`);
+ * problems are shown with `window/showMessage`.
+ *
+ * @example Start the server (what `dprint-zig lsp` runs)
+ * ```ts
+ * import { runLanguageServer } from "@kjanat/dprint-zig/lsp";
+ *
+ * process.exitCode = await runLanguageServer();
+ * ```
+ */
+
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { formatConfigDiagnostics, validateConfig } from "./config.ts";
+import type { ZigParseDiagnostic } from "./diagnostics.ts";
+import { isZigPath } from "./files.ts";
+import {
+  createFormatter,
+  type FormatResult,
+  type Formatter,
+  type FormatterOptions,
+} from "./formatter.ts";
+import { formatRange } from "./range.ts";
+import { VERSION } from "./version.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A JSON-RPC 2.0 request, notification or response. */
+export type JsonRpcMessage = {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+/** Zero-based line and UTF-16 character offset, as in LSP. */
+export type Position = { line: number; character: number };
+
+/** Half-open range between two positions. */
+export type Range = { start: Position; end: Position };
+
+/** Replacement of `range` with `newText`. */
+export type TextEdit = { range: Range; newText: string };
+
+/** An LSP diagnostic for a parse error. */
+export type Diagnostic = {
+  range: Range;
+  severity: 1;
+  source: "zig";
+  code: string;
+  message: string;
+};
+
+/** Options for {@link createLanguageServer}. */
+export type LanguageServerOptions = {
+  /** Sends a message to the client. */
+  send(message: JsonRpcMessage): void;
+  /** Formatter to use. Defaults to one backed by the bundled plugin. */
+  formatter?: Formatter;
+};
+
+/** Protocol state machine; feed it client messages with `handle`. */
+export interface LanguageServer {
+  /** Handles one message from the client. */
+  handle(message: JsonRpcMessage): void;
+  /** Exit code once the client sent `exit` (0 after `shutdown`, else 1). */
+  readonly exitCode: number | undefined;
+}
+
+/** Options for {@link runLanguageServer}. */
+export type RunLanguageServerOptions = {
+  /** Incoming bytes. Defaults to stdin. */
+  input?: AsyncIterable<Uint8Array>;
+  /** Writes outgoing bytes. Defaults to stdout. */
+  write?(text: string): void;
+  /** Formatter to use. Defaults to one backed by the bundled plugin. */
+  formatter?: Formatter;
+};
+
+type TextDocument = {
+  path: string;
+  version: number;
+  text: string;
+  /** Formatting result for `text`, computed on first use. */
+  result?: FormatResult;
+};
+
+type DocumentParams = { textDocument: { uri: string } };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** JSON-RPC and LSP error codes used by the server. */
+export const ErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+/** `MessageType.Warning` for `window/showMessage`. */
+const MESSAGE_WARNING = 2;
+
+/** `TextDocumentSyncKind.Full`: clients send the whole text on change. */
+const SYNC_FULL = 1;
+
+const START: Position = { line: 0, character: 0 };
+
+const HEADER_END = "\r\n\r\n";
+const CONTENT_LENGTH_RE = /^Content-Length: *(\d+)$/im;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// =============================================================================
+// Message Framing
+// =============================================================================
+
+/** Frames `message` with a `Content-Length` header. */
+export function encodeMessage(message: JsonRpcMessage): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${encoder.encode(body).length}${HEADER_END}${body}`;
+}
+
+/**
+ * Returns a function that accepts raw input chunks and calls `onMessage`
+ * with each complete message body (JSON text).
+ */
+export function createMessageParser(
+  onMessage: (body: string) => void,
+): (chunk: Uint8Array) => void {
+  let buffer = new Uint8Array(0);
+  const headerEnd = encoder.encode(HEADER_END);
+
+  const indexOfHeaderEnd = () => {
+    outer: for (let i = 0; i + headerEnd.length <= buffer.length; i++) {
+      for (let j = 0; j < headerEnd.length; j++) {
+        if (buffer[i + j] !== headerEnd[j]) continue outer;
+      }
+      return i;
+    }
+    return -1;
+  };
+
+  return (chunk) => {
+    const next = new Uint8Array(buffer.length + chunk.length);
+    next.set(buffer);
+    next.set(chunk, buffer.length);
+    buffer = next;
+
+    for (;;) {
+      const end = indexOfHeaderEnd();
+      if (end === -1) return;
+      const header = decoder.decode(buffer.subarray(0, end));
+      const match = header.match(CONTENT_LENGTH_RE);
+      const bodyStart = end + headerEnd.length;
+      if (!match) {
+        // Drop a header without a length; nothing can be recovered from it.
+        buffer = buffer.slice(bodyStart);
+        continue;
+      }
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (buffer.length < bodyEnd) return;
+      const body = decoder.decode(buffer.subarray(bodyStart, bodyEnd));
+      buffer = buffer.slice(bodyEnd);
+      onMessage(body);
+    }
+  };
+}
+
+// =============================================================================
+// Text Positions
+// =============================================================================
+
+/** Converts a string offset into an LSP position. */
+export function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length - 1;
+  return { line, character: offset - (before.lastIndexOf("\n") + 1) };
+}
+
+/** Converts an LSP position into a string offset, clamped to the text. */
+export function offsetAt(text: string, position: Position): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = text.indexOf("\n", offset);
+    if (next === -1) return text.length;
+    offset = next + 1;
+  }
+  const lineEnd = text.indexOf("\n", offset);
+  const max = lineEnd === -1 ? text.length : lineEnd;
+  return Math.min(offset + position.character, max);
+}
+
+/**
+ * Returns the edits turning `text` into `newText`: one edit covering only
+ * the part between their common prefix and suffix.
+ */
+export function computeEdits(text: string, newText: string): TextEdit[] {
+  if (text === newText) return [];
+
+  const max = Math.min(text.length, newText.length);
+  let start = 0;
+  while (start < max && text[start] === newText[start]) start++;
+  let end = 0;
+  while (
+    end < max - start
+    && text[text.length - 1 - end] === newText[newText.length - 1 - end]
+  ) {
+    end++;
+  }
+  // Keep surrogate pairs whole.
+  if (start > 0 && isHighSurrogate(text.charCodeAt(start - 1))) start--;
+  if (end > 0 && isHighSurrogate(text.charCodeAt(text.length - 1 - end))) {
+    end--;
+  }
+
+  return [{
+    range: {
+      start: positionAt(text, start),
+      end: positionAt(text, text.length - end),
+    },
+    newText: newText.slice(start, newText.length - end),
+  }];
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/** Converts a plugin diagnostic (1-based, byte column) into an LSP one. */
+export function toLspDiagnostic(
+  text: string,
+  diagnostic: ZigParseDiagnostic,
+): Diagnostic {
+  const lines = text.split("\n");
+  const line = Math.min(Math.max(diagnostic.line, 1), lines.length) - 1;
+  const bytes = encoder.encode(lines[line]);
+  const character = decoder.decode(
+    bytes.subarray(0, Math.max(diagnostic.column - 1, 0)),
+  ).length;
+  const position = { line, character };
+  return {
+    range: { start: position, end: position },
+    severity: 1,
+    source: "zig",
+    code: diagnostic.tag,
+    message: diagnostic.message,
+  };
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/** Error returned to the client as a JSON-RPC error response. */
+class ResponseError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/** Returns the file path for a document URI. */
+function uriToPath(uri: string): string {
+  return uri.startsWith("file:") ? fileURLToPath(uri) : uri;
+}
+
+/**
+ * Creates the protocol state machine. It keeps open documents in memory and
+ * formats with a single formatter for its whole lifetime.
+ */
+export function createLanguageServer(
+  options: LanguageServerOptions,
+): LanguageServer {
+  const { send } = options;
+  const documents = new Map<string, TextDocument>();
+  let formatter = options.formatter;
+  let config: Pick<FormatterOptions, "globalConfig" | "pluginConfig"> = {};
+  let initialized = false;
+  let shuttingDown = false;
+  let exitCode: number | undefined;
+
+  function getFormatter(): Formatter {
+    return formatter ??= createFormatter(config);
+  }
+
+  /** Validates the client's dprint config and warns about its problems. */
+  function configure(initializationOptions: unknown): void {
+    if (initializationOptions == null) return;
+    const { globalConfig, pluginConfig, diagnostics } = validateConfig(
+      initializationOptions,
+    );
+    config = { globalConfig, pluginConfig };
+    if (diagnostics.length === 0) return;
+    send({
+      jsonrpc: "2.0",
+      method: "window/showMessage",
+      params: {
+        type: MESSAGE_WARNING,
+        message: `dprint-zig: invalid configuration:\n${
+          formatConfigDiagnostics(diagnostics).join("\n")
+        }`,
+      },
+    });
+  }
+
+  function getDocument(params: unknown): [string, TextDocument] {
+    const uri = (params as DocumentParams)?.textDocument?.uri;
+    const document = uri === undefined ? undefined : documents.get(uri);
+    if (!document) {
+      throw new ResponseError(
+        ErrorCode.InvalidParams,
+        `unknown document: ${uri}`,
+      );
+    }
+    return [uri, document];
+  }
+
+  function formatDocument(document: TextDocument): FormatResult {
+    return document.result ??= getFormatter().formatText(
+      document.path,
+      document.text,
+    );
+  }
+
+  function publishDiagnostics(uri: string, document: TextDocument): void {
+    let diagnostics: Diagnostic[] = [];
+    if (isZigPath(document.path)) {
+      const result = formatDocument(document);
+      if (result.kind === "error") {
+        diagnostics = result.diagnostics.length > 0
+          ? result.diagnostics.map((d) => toLspDiagnostic(document.text, d))
+          : [{
+            range: { start: START, end: START },
+            severity: 1,
+            source: "zig",
+            code: "error",
+            message: result.message,
+          }];
+      }
+    }
+    send({
+      jsonrpc: "2.0",
+      method: "textDocument/publishDiagnostics",
+      params: { uri, version: document.version, diagnostics },
+    });
+  }
+
+  function openDocument(params: unknown): void {
+    const { uri, version, text } = (params as {
+      textDocument: { uri: string; version: number; text: string };
+    }).textDocument;
+    const document = { path: uriToPath(uri), version, text };
+    documents.set(uri, document);
+    publishDiagnostics(uri, document);
+  }
+
+  function changeDocument(params: unknown): void {
+    const [uri, document] = getDocument(params);
+    const { textDocument, contentChanges } = params as {
+      textDocument: { version: number };
+      contentChanges: { text: string }[];
+    };
+    const change = contentChanges.at(-1);
+    if (!change) return;
+    document.version = textDocument.version;
+    document.text = change.text;
+    document.result = undefined;
+    publishDiagnostics(uri, document);
+  }
+
+  function closeDocument(params: unknown): void {
+    const [uri] = getDocument(params);
+    documents.delete(uri);
+    send({
+      jsonrpc: "2.0",
+      method: "textDocument/publishDiagnostics",
+      params: { uri, diagnostics: [] },
+    });
+  }
+
+  function formatting(params: unknown): TextEdit[] | null {
+    const [, document] = getDocument(params);
+    if (!isZigPath(document.path)) return null;
+    const result = formatDocument(document);
+    return result.kind === "changed"
+      ? computeEdits(document.text, result.text)
+      : result.kind === "no_change"
+      ? []
+      : null;
+  }
+
+  function rangeFormatting(params: unknown): TextEdit[] | null {
+    const [, document] = getDocument(params);
+    if (!isZigPath(document.path)) return null;
+    const { range } = params as { range: Range };
+    const { text } = document;
+    const byteOffset = (position: Position) =>
+      encoder.encode(text.slice(0, offsetAt(text, position))).length;
+
+    const result = formatRange(
+      document.path,
+      text,
+      byteOffset(range.start),
+      byteOffset(range.end),
+      { formatter: getFormatter() },
+    );
+    return result.kind === "changed"
+      ? computeEdits(text, result.text)
+      : result.kind === "no_change"
+      ? []
+      : null;
+  }
+
+  function request(method: string, params: unknown): unknown {
+    if (method === "initialize") {
+      initialized = true;
+      configure(
+        (params as { initializationOptions?: unknown })?.initializationOptions,
+      );
+      return {
+        capabilities: {
+          textDocumentSync: { openClose: true, change: SYNC_FULL },
+          documentFormattingProvider: true,
+          documentRangeFormattingProvider: true,
+        },
+        serverInfo: { name: "dprint-zig", version: VERSION },
+      };
+    }
+    if (!initialized) {
+      throw new ResponseError(
+        ErrorCode.ServerNotInitialized,
+        "server not initialized",
+      );
+    }
+    if (shuttingDown) {
+      throw new ResponseError(ErrorCode.InvalidRequest, "server shut down");
+    }
+    switch (method) {
+      case "shutdown":
+        shuttingDown = true;
+        return null;
+      case "textDocument/formatting":
+        return formatting(params);
+      case "textDocument/rangeFormatting":
+        return rangeFormatting(params);
+      default:
+        throw new ResponseError(
+          ErrorCode.MethodNotFound,
+          `unhandled method: ${method}`,
+        );
+    }
+  }
+
+  function notification(method: string, params: unknown): void {
+    if (method === "exit") {
+      exitCode = shuttingDown ? 0 : 1;
+      return;
+    }
+    if (!initialized || shuttingDown) return;
+    switch (method) {
+      case "textDocument/didOpen":
+        return openDocument(params);
+      case "textDocument/didChange":
+        return changeDocument(params);
+      case "textDocument/didClose":
+        return closeDocument(params);
+    }
+  }
+
+  return {
+    get exitCode() {
+      return exitCode;
+    },
+
+    handle(message) {
+      if (message.method === undefined) return; // Responses to our requests.
+
+      if (message.id === undefined) {
+        try {
+          notification(message.method, message.params);
+        } catch {
+          // Notifications have no response to carry an error.
+        }
+        return;
+      }
+
+      try {
+        const result = request(message.method, message.params);
+        send({ jsonrpc: "2.0", id: message.id, result: result ?? null });
+      } catch (err) {
+        send({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: err instanceof ResponseError
+              ? err.code
+              : ErrorCode.InternalError,
+            message: err instanceof Error ? err.message : String(err),
+          },
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Runs a language server on stdin/stdout until the client sends `exit` or
+ * closes the input. Resolves to the exit code.
+ */
+export async function runLanguageServer(
+  options: RunLanguageServerOptions = {},
+): Promise<number> {
+  const write = options.write ?? ((text: string) => process.stdout.write(text));
+  const server = createLanguageServer({
+    formatter: options.formatter,
+    send: (message) => write(encodeMessage(message)),
+  });
+  const parse = createMessageParser((body) => {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(body);
+    } catch (err) {
+      write(encodeMessage({
+        jsonrpc: "2.0",
+        id: null,
+        error: {
+          code: ErrorCode.ParseError,
+          message: err instanceof Error ? err.message : String(err),
+        },
+      }));
+      return;
+    }
+    server.handle(message);
+  });
+
+  for await (const chunk of options.input ?? process.stdin) {
+    parse(chunk);
+    if (server.exitCode !== undefined) return server.exitCode;
+  }
+  return server.exitCode ?? 1;
+}
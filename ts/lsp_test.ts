@@ -0,0 +1,293 @@
+import { assertEquals } from "@std/assert";
+import { createTestFormatter, wasmTest } from "./_testing.ts";
+import {
+  computeEdits,
+  createLanguageServer,
+  createMessageParser,
+  encodeMessage,
+  ErrorCode,
+  type JsonRpcMessage,
+  offsetAt,
+  positionAt,
+  runLanguageServer,
+  toLspDiagnostic,
+} from "./lsp.ts";
+
+const URI = "file:///project/src/main.zig";
+
+/** A server with its sent messages, already initialized. */
+function startServer() {
+  const sent: JsonRpcMessage[] = [];
+  const server = createLanguageServer({
+    formatter: createTestFormatter(),
+    send: (message) => void sent.push(message),
+  });
+  server.handle({ jsonrpc: "2.0", id: 0, method: "initialize", params: {} });
+  server.handle({ jsonrpc: "2.0", method: "initialized", params: {} });
+  sent.length = 0;
+  return { server, sent };
+}
+
+function open(
+  server: ReturnType<typeof startServer>["server"],
+  text: string,
+  uri = URI,
+) {
+  server.handle({
+    jsonrpc: "2.0",
+    method: "textDocument/didOpen",
+    params: { textDocument: { uri, languageId: "zig", version: 1, text } },
+  });
+}
+
+// =============================================================================
+// Framing tests
+// =============================================================================
+
+Deno.test("encodeMessage counts Content-Length in UTF-8 bytes", () => {
+  const framed = encodeMessage({ jsonrpc: "2.0", method: "é" });
+  const body = "{\"jsonrpc\":\"2.0\",\"method\":\"é\"}";
+  assertEquals(framed, `Content-Length: 31\r\n\r\n${body}`);
+});
+
+Deno.test("createMessageParser handles split and batched chunks", () => {
+  const bodies: string[] = [];
+  const parse = createMessageParser((body) => void bodies.push(body));
+  const bytes = new TextEncoder().encode(
+    encodeMessage({ jsonrpc: "2.0", method: "a" })
+      + encodeMessage({ jsonrpc: "2.0", method: "ü" }),
+  );
+  for (const cut of [5, 30, 40]) {
+    parse(bytes.subarray(0, cut));
+    parse(bytes.subarray(cut));
+  }
+  assertEquals(bodies.map((b) => JSON.parse(b).method), [
+    "a",
+    "ü",
+    "a",
+    "ü",
+    "a",
+    "ü",
+  ]);
+});
+
+// =============================================================================
+// Position tests
+// =============================================================================
+
+Deno.test("positionAt and offsetAt round-trip", () => {
+  const text = "ab\nc€d\n\nx";
+  for (let offset = 0; offset <= text.length; offset++) {
+    assertEquals(offsetAt(text, positionAt(text, offset)), offset);
+  }
+  assertEquals(offsetAt(text, { line: 1, character: 99 }), 6);
+  assertEquals(offsetAt(text, { line: 99, character: 0 }), text.length);
+});
+
+Deno.test("computeEdits replaces only the changed middle", () => {
+  assertEquals(computeEdits("const x=1;\n", "const x = 1;\n"), [{
+    range: {
+      start: { line: 0, character: 7 },
+      end: { line: 0, character: 8 },
+    },
+    newText: " = ",
+  }]);
+  assertEquals(computeEdits("same", "same"), []);
+});
+
+Deno.test("computeEdits keeps surrogate pairs whole", () => {
+  const [edit] = computeEdits("a😀", "a😃");
+  assertEquals(edit.newText, "😃");
+  assertEquals(edit.range.start, { line: 0, character: 1 });
+});
+
+Deno.test("toLspDiagnostic converts byte columns to UTF-16", () => {
+  const diagnostic = toLspDiagnostic("x\nconst é = ;\n", {
+    file: "main.zig",
+    line: 2,
+    column: 12,
+    tag: "expected_expr",
+    message: "expected expression",
+  });
+  assertEquals(diagnostic.range.start, { line: 1, character: 10 });
+  assertEquals(diagnostic.code, "expected_expr");
+});
+
+// =============================================================================
+// Server tests
+// =============================================================================
+
+wasmTest("server advertises formatting capabilities", () => {
+  const sent: JsonRpcMessage[] = [];
+  const server = createLanguageServer({
+    formatter: createTestFormatter(),
+    send: (message) => void sent.push(message),
+  });
+  server.handle({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+  const result = sent[0].result as {
+    capabilities: Record<string, unknown>;
+  };
+  assertEquals(result.capabilities.documentFormattingProvider, true);
+  assertEquals(result.capabilities.documentRangeFormattingProvider, true);
+});
+
+wasmTest("server warns about invalid initializationOptions", () => {
+  const sent: JsonRpcMessage[] = [];
+  const server = createLanguageServer({
+    formatter: createTestFormatter(),
+    send: (message) => void sent.push(message),
+  });
+  server.handle({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { initializationOptions: { useTabs: 1, zig: { lineWidht: 9 } } },
+  });
+  assertEquals(sent[0], {
+    jsonrpc: "2.0",
+    method: "window/showMessage",
+    params: {
+      type: 2,
+      message: "dprint-zig: invalid configuration:\n"
+        + "useTabs: Expected a boolean.\n"
+        + "zig.lineWidht: Unknown property in configuration. Did you mean \"lineWidth\"?",
+    },
+  });
+  assertEquals(sent[1].id, 1);
+});
+
+wasmTest("server rejects requests before initialize", () => {
+  const sent: JsonRpcMessage[] = [];
+  const server = createLanguageServer({
+    formatter: createTestFormatter(),
+    send: (message) => void sent.push(message),
+  });
+  server.handle({ jsonrpc: "2.0", id: 1, method: "shutdown" });
+  assertEquals(sent[0].error?.code, ErrorCode.ServerNotInitialized);
+});
+
+wasmTest("server formats an open document", () => {
+  const { server, sent } = startServer();
+  open(server, "const x=1;\n");
+  sent.length = 0;
+  server.handle({
+    jsonrpc: "2.0",
+    id: 2,
+    method: "textDocument/formatting",
+    params: { textDocument: { uri: URI }, options: {} },
+  });
+  assertEquals(sent, [{
+    jsonrpc: "2.0",
+    id: 2,
+    result: [{
+      range: {
+        start: { line: 0, character: 7 },
+        end: { line: 0, character: 8 },
+      },
+      newText: " = ",
+    }],
+  }]);
+});
+
+wasmTest("server formats only the declarations in a range", () => {
+  const { server, sent } = startServer();
+  open(server, "const a=1;\nconst b=2;\n");
+  sent.length = 0;
+  server.handle({
+    jsonrpc: "2.0",
+    id: 3,
+    method: "textDocument/rangeFormatting",
+    params: {
+      textDocument: { uri: URI },
+      range: {
+        start: { line: 1, character: 0 },
+        end: { line: 1, character: 3 },
+      },
+      options: {},
+    },
+  });
+  assertEquals(sent[0].result, [{
+    range: {
+      start: { line: 1, character: 7 },
+      end: { line: 1, character: 8 },
+    },
+    newText: " = ",
+  }]);
+});
+
+wasmTest("server publishes parse errors and clears them when fixed", () => {
+  const { server, sent } = startServer();
+  open(server, "const x = ;\n");
+  assertEquals(sent[0].method, "textDocument/publishDiagnostics");
+  const params = sent[0].params as {
+    uri: string;
+    diagnostics: { code: string; range: { start: unknown } }[];
+  };
+  assertEquals(params.uri, URI);
+  assertEquals(params.diagnostics.length, 1);
+  assertEquals(params.diagnostics[0].range.start, { line: 0, character: 10 });
+
+  sent.length = 0;
+  server.handle({
+    jsonrpc: "2.0",
+    method: "textDocument/didChange",
+    params: {
+      textDocument: { uri: URI, version: 2 },
+      contentChanges: [{ text: "const x = 1;\n" }],
+    },
+  });
+  assertEquals(sent[0].params, { uri: URI, version: 2, diagnostics: [] });
+});
+
+wasmTest("server handles .zon documents and ignores other files", () => {
+  const { server, sent } = startServer();
+  const zon = "file:///project/build.zig.zon";
+  const txt = "file:///project/notes.txt";
+  open(server, ".{.a=1}", zon);
+  open(server, "whatever", txt);
+  sent.length = 0;
+  for (const [id, uri] of [[1, zon], [2, txt]] as const) {
+    server.handle({
+      jsonrpc: "2.0",
+      id,
+      method: "textDocument/formatting",
+      params: { textDocument: { uri }, options: {} },
+    });
+  }
+  assertEquals((sent[0].result as unknown[]).length, 1);
+  assertEquals(sent[1].result, null);
+});
+
+wasmTest("server reports unknown documents and methods", () => {
+  const { server, sent } = startServer();
+  server.handle({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "textDocument/formatting",
+    params: { textDocument: { uri: "file:///nope.zig" }, options: {} },
+  });
+  server.handle({ jsonrpc: "2.0", id: 2, method: "textDocument/hover" });
+  assertEquals(sent[0].error?.code, ErrorCode.InvalidParams);
+  assertEquals(sent[1].error?.code, ErrorCode.MethodNotFound);
+});
+
+wasmTest("runLanguageServer exits 0 after shutdown and exit", async () => {
+  let output = "";
+  const messages: JsonRpcMessage[] = [
+    { jsonrpc: "2.0", id: 1, method: "initialize", params: {} },
+    { jsonrpc: "2.0", id: 2, method: "shutdown" },
+    { jsonrpc: "2.0", method: "exit" },
+  ];
+  async function* input() {
+    for (const message of messages) {
+      yield new TextEncoder().encode(encodeMessage(message));
+    }
+  }
+  const code = await runLanguageServer({
+    input: input(),
+    write: (text) => void (output += text),
+    formatter: createTestFormatter(),
+  });
+  assertEquals(code, 0);
+  assertEquals(output.match(/Content-Length/g)?.length, 2);
+});
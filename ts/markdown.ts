@@ -0,0 +1,219 @@
+/**
+ * @module
+ * Formatting of Zig code blocks embedded in Markdown.
+ *
+ * {@link formatMarkdown} finds fenced code blocks tagged `zig` or `zon`,
+ * formats their contents with the plugin, and splices them back. Everything
+ * outside those blocks, including the fences, is left untouched. Blocks that
+ * fail to parse are kept as they are and reported with Markdown positions.
+ *
+ * @example Format the Zig blocks of a README
+ * ```ts
+ * import { formatMarkdown } from "@kjanat/dprint-zig";
+ * import { readFileSync, writeFileSync } from "node:fs";
+ *
+ * const result = formatMarkdown("README.md", readFileSync("README.md", "utf8"));
+ * for (const block of result.skipped) console.error(block.message);
+ * if (result.changed) writeFileSync("README.md", result.text);
+ * ```
+ */
+
+import type { ZigParseDiagnostic } from "./diagnostics.ts";
+import type { ZigMode } from "./files.ts";
+import {
+  type CancellationOptions,
+  type Formatter,
+  getDefaultFormatter,
+} from "./formatter.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A fenced `zig` or `zon` code block. */
+export type MarkdownCodeBlock = {
+  /** Language of the block, from the first word of its info string. */
+  mode: ZigMode;
+  /** 1-based line of the opening fence. */
+  line: number;
+  /** Indentation of the opening fence, removed from the block's lines. */
+  indent: string;
+  /** String index where the block's contents start (after the fence line). */
+  start: number;
+  /** String index where the block's contents end (the closing fence line). */
+  end: number;
+};
+
+/** A code block left unformatted because the plugin reported an error. */
+export type SkippedCodeBlock = {
+  /** Language of the block. */
+  mode: ZigMode;
+  /** 1-based line of the opening fence. */
+  line: number;
+  /** Error text, with positions in the Markdown file. */
+  message: string;
+  /** Parse errors, with positions in the Markdown file. */
+  diagnostics: ZigParseDiagnostic[];
+};
+
+/** Options for {@link formatMarkdown}. */
+export type FormatMarkdownOptions = CancellationOptions & {
+  /** Formatter to use. Defaults to one backed by the bundled plugin. */
+  formatter?: Formatter;
+};
+
+/** Result of {@link formatMarkdown}. */
+export type FormatMarkdownResult = {
+  /** The Markdown with its code blocks formatted. */
+  text: string;
+  /** True when `text` differs from the input. */
+  changed: boolean;
+  /** Blocks that did not parse, in document order. */
+  skipped: SkippedCodeBlock[];
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Opening fence: indentation, three or more backticks or tildes, info. */
+const OPEN_FENCE_RE = /^([ \t]*)(`{3,}|~{3,})(.*)$/;
+
+/** Closing fence: only the fence characters and trailing whitespace. */
+const CLOSE_FENCE_RE = /^[ \t]*(`{3,}|~{3,})[ \t]*\r?$/;
+
+const encoder = new TextEncoder();
+
+// =============================================================================
+// Code Block Scanning
+// =============================================================================
+
+/** Code block whose closing fence has not been seen yet. */
+type OpenFence = Omit<MarkdownCodeBlock, "mode" | "end"> & {
+  fence: string;
+  mode?: ZigMode;
+};
+
+/** Language of a fence's info string, if it is one the plugin formats. */
+function infoMode(info: string): ZigMode | undefined {
+  const lang = info.trim().split(/[\s{,]/)[0].toLowerCase();
+  return lang === "zig" || lang === "zon" ? lang : undefined;
+}
+
+/**
+ * Finds the closed fenced code blocks tagged `zig` or `zon`. Blocks in other
+ * languages are still matched, so fences shown inside them are not mistaken
+ * for code blocks; unclosed blocks are ignored.
+ */
+export function findCodeBlocks(markdown: string): MarkdownCodeBlock[] {
+  const blocks: MarkdownCodeBlock[] = [];
+  let open: OpenFence | undefined;
+
+  let offset = 0;
+  for (const [index, line] of markdown.split("\n").entries()) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    if (!open) {
+      const match = line.match(OPEN_FENCE_RE);
+      // Backtick fences may not have backticks in their info string.
+      if (!match || (match[2][0] === "`" && match[3].includes("`"))) continue;
+      open = {
+        fence: match[2],
+        mode: infoMode(match[3]),
+        line: index + 1,
+        indent: match[1],
+        start: offset,
+      };
+      continue;
+    }
+
+    const close = line.match(CLOSE_FENCE_RE)?.[1];
+    if (
+      !close || close[0] !== open.fence[0]
+      || close.length < open.fence.length
+    ) continue;
+    if (open.mode) {
+      const { mode, line: fenceLine, indent, start } = open;
+      blocks.push({ mode, line: fenceLine, indent, start, end: lineStart });
+    }
+    open = undefined;
+  }
+
+  return blocks;
+}
+
+/** Removes up to `indent.length` leading whitespace characters per line. */
+function dedent(code: string, indent: string): string {
+  if (!indent) return code;
+  const re = new RegExp(`^[ \\t]{0,${indent.length}}`, "gm");
+  return code.replace(re, "");
+}
+
+/** Prefixes each non-empty line of `code` with `indent`. */
+function reindent(code: string, indent: string): string {
+  return indent ? code.replace(/^(?=.)/gm, indent) : code;
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Formats the `zig` and `zon` code blocks of `markdown`. `filePath` names the
+ * Markdown file in error messages. Blocks that fail to format are left as they
+ * are and listed in `skipped`. Throws `FormatCancelledError` if cancelled.
+ */
+export function formatMarkdown(
+  filePath: string,
+  markdown: string,
+  options: FormatMarkdownOptions = {},
+): FormatMarkdownResult {
+  const formatter = options.formatter
+    ?? getDefaultFormatter();
+  const skipped: SkippedCodeBlock[] = [];
+  let text = "";
+  let last = 0;
+
+  for (const block of findCodeBlocks(markdown)) {
+    const code = dedent(markdown.slice(block.start, block.end), block.indent);
+    if (code.trim() === "") continue;
+
+    const result = formatter.formatText(
+      `${filePath}.${block.mode}`,
+      code,
+      undefined,
+      options,
+    );
+    if (result.kind === "error") {
+      // Line 1 of the block is the line after its opening fence.
+      const columnOffset = encoder.encode(block.indent).length;
+      const diagnostics = result.diagnostics.map((d) => ({
+        ...d,
+        file: filePath,
+        line: d.line + block.line,
+        column: d.column + columnOffset,
+      }));
+      const message = diagnostics.length === 0
+        ? `${filePath}:${block.line}: ${result.message}`
+        : diagnostics
+          .map((d) => `${d.file}:${d.line}:${d.column}: ${d.tag}`)
+          .join("\n");
+      skipped.push({
+        mode: block.mode,
+        line: block.line,
+        message,
+        diagnostics,
+      });
+      continue;
+    }
+    if (result.kind === "no_change") continue;
+
+    text += markdown.slice(last, block.start)
+      + reindent(result.text, block.indent);
+    last = block.end;
+  }
+
+  text += markdown.slice(last);
+  return { text, changed: text !== markdown, skipped };
+}
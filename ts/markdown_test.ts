@@ -0,0 +1,90 @@
+import { assertEquals } from "@std/assert";
+import { createTestFormatter, wasmTest } from "./_testing.ts";
+import { findCodeBlocks, formatMarkdown } from "./markdown.ts";
+
+const README = `# Example
+
+\`\`\`zig
+const x=1;
+\`\`\`
+
+Some *text*   that stays as it is.
+
+~~~zon title="build.zig.zon"
+.{.name=.demo}
+~~~
+
+\`\`\`sh
+zig build
+\`\`\`
+`;
+
+// =============================================================================
+// findCodeBlocks tests
+// =============================================================================
+
+Deno.test("findCodeBlocks finds zig and zon fences", () => {
+  assertEquals(
+    findCodeBlocks(README).map((block) => [
+      block.mode,
+      block.line,
+      README.slice(block.start, block.end),
+    ]),
+    [["zig", 3, "const x=1;\n"], ["zon", 9, ".{.name=.demo}\n"]],
+  );
+});
+
+Deno.test("findCodeBlocks ignores fences nested in other blocks", () => {
+  const text = "````md\n```zig\nconst x=1;\n```\n````\n";
+  assertEquals(findCodeBlocks(text), []);
+});
+
+Deno.test("findCodeBlocks needs a matching closing fence", () => {
+  assertEquals(findCodeBlocks("```zig\nconst x=1;\n~~~\n``\n"), []);
+  assertEquals(findCodeBlocks("~~~~Zig\na\n~~~\n~~~~~\n").length, 1);
+});
+
+// =============================================================================
+// formatMarkdown tests
+// =============================================================================
+
+wasmTest("formatMarkdown formats blocks and keeps the rest", () => {
+  const result = formatMarkdown("README.md", README, {
+    formatter: createTestFormatter(),
+  });
+  assertEquals(result, {
+    text: README
+      .replace("const x=1;", "const x = 1;")
+      .replace(".{.name=.demo}", ".{ .name = .demo }"),
+    changed: true,
+    skipped: [],
+  });
+});
+
+wasmTest("formatMarkdown keeps the indentation of nested blocks", () => {
+  const text = "- item\n\n  ```zig\n  fn f() void {\n  return;\n  }\n  ```\n";
+  assertEquals(
+    formatMarkdown("list.md", text, { formatter: createTestFormatter() }).text,
+    "- item\n\n  ```zig\n  fn f() void {\n      return;\n  }\n  ```\n",
+  );
+});
+
+wasmTest("formatMarkdown skips blocks that do not parse", () => {
+  const text = "Intro\n\n  ```zig\n  const a = 1;\n  const b = ;\n  ```\n";
+  const result = formatMarkdown("docs/design.md", text, {
+    formatter: createTestFormatter(),
+  });
+  assertEquals(result.changed, false);
+  assertEquals(result.text, text);
+  assertEquals(result.skipped.length, 1);
+  assertEquals(result.skipped[0].line, 3);
+  assertEquals(result.skipped[0].message, "docs/design.md:5:13: expected_expr");
+});
+
+wasmTest("formatMarkdown reports no change for formatted blocks", () => {
+  const text = "```zig\nconst x = 1;\n```\n\n```zig\n```\n";
+  assertEquals(
+    formatMarkdown("a.md", text, { formatter: createTestFormatter() }),
+    { text, changed: false, skipped: [] },
+  );
+});
@@ -1,4 +0,0 @@
-/**
- * Gets the path to the Wasm module.
- */
-export declare const getPath: () => string;
@@ -2,6 +2,14 @@
  * @module
  * dprint plugin for formatting Zig code.
  *
+ * @example Format Zig source
+ * ```ts
+ * import { formatText } from "@kjanat/dprint-zig";
+ *
+ * const result = formatText("main.zig", "const x=1;");
+ * if (result.kind === "changed") console.log(result.text);
+ * ```
+ *
  * @example Get the path to the Wasm plugin
  * ```ts
  * import { getPath } from "@kjanat/dprint-zig";
@@ -11,10 +19,178 @@
  * ```
  */
 
-import { join } from "node:path";
-
-/**
- * Gets the path to the Wasm module.
- * @returns {string}
- */
-export const getPath = (): string => join(import.meta.dirname!, "plugin.wasm");
+export {
+  CACHE_FILE,
+  cleanFormatCache,
+  createCacheKey,
+  DEFAULT_CACHE_DIR,
+  type FormatCache,
+  openFormatCache,
+  resolveCacheDir,
+  withFormatCache,
+} from "./cache.ts";
+export {
+  CONFIG_KEY,
+  CONFIG_OPTIONS,
+  CONFIG_SCHEMA,
+  type ConfigDiagnostic,
+  type ConfigOption,
+  type ConfigSchema,
+  type ConfigSchemaProperty,
+  configSchemaUrl,
+  type ConfigValidation,
+  createConfigSchema,
+  formatConfigDiagnostics,
+  GLOBAL_CONFIG_SCHEMA,
+  type OptionValue,
+  parseJsonc,
+  renderConfigDocs,
+  validateConfig,
+  validateGlobalConfig,
+  validatePluginConfig,
+  type ZigConfig,
+} from "./config.ts";
+export {
+  AST_ERROR_MESSAGES,
+  type AstErrorTag,
+  type CodeFrameOptions,
+  describeAstError,
+  isAstErrorTag,
+  PARSE_ERROR_LINE_RE,
+  parseDiagnostics,
+  renderCodeFrame,
+  type SourceLocation,
+  type ZigParseDiagnostic,
+} from "./diagnostics.ts";
+export {
+  createUnifiedDiff,
+  DEFAULT_CONTEXT,
+  diffFormatted,
+  type DiffFormattedOptions,
+  diffLines,
+  type DiffOp,
+  type FormatDiff,
+  type FormatDiffChanged,
+  NO_NEWLINE_MARKER,
+  type UnifiedDiffOptions,
+} from "./diff.ts";
+export {
+  type CancellationOptions,
+  createFormatter,
+  FormatCancelledError,
+  type FormatChanged,
+  type FormatError,
+  type FormatNoChange,
+  type FormatResult,
+  FormatResultCode,
+  type Formatter,
+  type FormatterOptions,
+  formatText,
+  getDefaultFormatter,
+  getLicenseText,
+  getPluginInfo,
+  type GlobalConfig,
+  MAX_BUFFER_SIZE,
+  type NewLineKind,
+  type PluginInfo,
+  resolveNewLine,
+} from "./formatter.ts";
+export {
+  DEFAULT_HOOK_COMMAND,
+  type GitResult,
+  gitRoot,
+  HOOK_MARKER,
+  type InstallHookOptions,
+  installPreCommitHook,
+  listChangedFiles,
+  listStagedFiles,
+  preCommitHook,
+  readStagedFile,
+  runGit,
+  type RunGitOptions,
+  type StagedFile,
+  writeStagedFile,
+} from "./git.ts";
+export {
+  findIgnoreDirectives,
+  IGNORE_ERROR_MESSAGES,
+  type IgnoreDirectives,
+  type IgnoreRegion,
+  restoreIgnoredRegions,
+} from "./ignore.ts";
+export {
+  createLanguageServer,
+  type LanguageServer,
+  type LanguageServerOptions,
+  runLanguageServer,
+  type RunLanguageServerOptions,
+} from "./lsp.ts";
+export {
+  findCodeBlocks,
+  formatMarkdown,
+  type FormatMarkdownOptions,
+  type FormatMarkdownResult,
+  type MarkdownCodeBlock,
+  type SkippedCodeBlock,
+} from "./markdown.ts";
+export {
+  type DeclarationSpan,
+  formatRange,
+  type FormatRangeOptions,
+  scanDeclarations,
+} from "./range.ts";
+export {
+  type CheckedFile,
+  type CheckProblem,
+  type ErrorProblem,
+  type ParseErrorProblem,
+  renderGitHub,
+  renderJson,
+  renderJunit,
+  renderSarif,
+  type Reporter,
+  type ReporterName,
+  REPORTERS,
+  type ReportOptions,
+  toCheckedFile,
+  TOOL_NAME,
+  TOOL_URL,
+  UNFORMATTED_MESSAGE,
+  type UnformattedProblem,
+} from "./report.ts";
+export {
+  createIntegrityManifest,
+  type IntegrityManifest,
+  MANIFEST_FILE,
+  missingExports,
+  SCHEMA_V4_EXPORTS,
+  sha256Hex,
+  type VerifyOptions,
+  verifyPlugin,
+  type VerifyResult,
+} from "./verify.ts";
+export { VERSION } from "./version.ts";
+export { getPath } from "./wasm.ts";
+export {
+  DEFAULT_DEBOUNCE_MS,
+  nodeWatcher,
+  type Watcher,
+  type WatchOptions,
+  watchPaths,
+} from "./watch.ts";
+export {
+  findZonField,
+  isZonBytes,
+  isZonEnumLiteral,
+  jsonToZon,
+  parseZon,
+  stringifyZon,
+  type StringifyZonOptions,
+  type ZonBytes,
+  type ZonEnumLiteral,
+  type ZonObject,
+  ZonParseError,
+  type ZonSpan,
+  zonToJson,
+  type ZonValue,
+} from "./zon.ts";
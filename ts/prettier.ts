@@ -0,0 +1,190 @@
+/**
+ * @module
+ * Prettier plugin for Zig and ZON, built on the bundled `plugin.wasm`.
+ *
+ * The parser passes the source through unchanged and the printer formats it
+ * with the Wasm plugin, so `prettier --write` produces the same output as
+ * `dprint fmt`. Parse errors are thrown as `SyntaxError`s with a `loc`, which
+ * Prettier reports with the file's line and column.
+ *
+ * @example .prettierrc.json (npm)
+ * ```json
+ * { "plugins": ["@kjanat/dprint-zig/prettier.js"] }
+ * ```
+ */
+
+import { renderCodeFrame } from "./diagnostics.ts";
+import { resolveMode, type ZigMode } from "./files.ts";
+import { type Formatter, getDefaultFormatter } from "./formatter.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// Minimal shapes of Prettier's plugin API, so the package does not depend on
+// the `prettier` types.
+
+/** Prettier language definition. */
+export type PrettierLanguage = {
+  name: string;
+  parsers: string[];
+  extensions: string[];
+  filenames?: string[];
+  linguistLanguageId?: number;
+  vscodeLanguageIds?: string[];
+};
+
+/** Prettier options seen by the parser and printer. */
+export type PrettierOptions = { filepath?: string };
+
+/** Root node produced by the parser: the unformatted source. */
+export type ZigSourceNode = {
+  type: "ZigSource";
+  mode: ZigMode;
+  text: string;
+};
+
+/** Prettier parser definition. */
+export type PrettierParser = {
+  astFormat: string;
+  parse(text: string, options: PrettierOptions): ZigSourceNode;
+  locStart(node: ZigSourceNode): number;
+  locEnd(node: ZigSourceNode): number;
+};
+
+/** Prettier printer definition. */
+export type PrettierPrinter = {
+  print(
+    path: { node: ZigSourceNode },
+    options: PrettierOptions,
+  ): string;
+};
+
+/** Options for {@link createPrettierPlugin}. */
+export type PrettierPluginOptions = {
+  /** Formatter to use. Defaults to a shared formatter created on first use. */
+  formatter?: Formatter;
+};
+
+/** The plugin object Prettier loads. */
+export type PrettierPlugin = {
+  languages: PrettierLanguage[];
+  parsers: Record<ZigMode, PrettierParser>;
+  printers: Record<typeof AST_FORMAT, PrettierPrinter>;
+};
+
+/** Error thrown for parse errors, in the shape Prettier reports. */
+export type PrettierSyntaxError = SyntaxError & {
+  loc: { start: { line: number; column: number } };
+  codeFrame: string;
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Name of the AST format shared by the parsers and the printer. */
+export const AST_FORMAT = "zig-wasm";
+
+/** Languages handled by the plugin. */
+export const languages: PrettierLanguage[] = [
+  {
+    name: "Zig",
+    parsers: ["zig"],
+    extensions: [".zig"],
+    linguistLanguageId: 646424281,
+    vscodeLanguageIds: ["zig"],
+  },
+  {
+    name: "ZON",
+    parsers: ["zon"],
+    extensions: [".zon"],
+    vscodeLanguageIds: ["zon"],
+  },
+];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// =============================================================================
+// Plugin
+// =============================================================================
+
+/** Parser for `mode`; the source is passed through for the printer. */
+function createParser(mode: ZigMode): PrettierParser {
+  return {
+    astFormat: AST_FORMAT,
+    parse: (text) => ({ type: "ZigSource", mode, text }),
+    locStart: () => 0,
+    locEnd: (node) => node.text.length,
+  };
+}
+
+/**
+ * Path given to the Wasm plugin. Its extension selects the parse mode, so it
+ * must match the parser Prettier chose.
+ */
+function pluginPath(node: ZigSourceNode, options: PrettierOptions): string {
+  const path = options.filepath ?? "<input>";
+  return resolveMode(path) === node.mode ? path : `${path}.${node.mode}`;
+}
+
+/** Builds the error Prettier shows for a parse error at `line`/`column`. */
+function syntaxError(
+  text: string,
+  message: string,
+  line: number,
+  byteColumn: number,
+): PrettierSyntaxError {
+  // Prettier columns are 1-based characters; the plugin counts bytes.
+  const lineText = text.split("\n")[line - 1] ?? "";
+  const column = decoder.decode(
+    encoder.encode(lineText).subarray(0, Math.max(byteColumn - 1, 0)),
+  ).length + 1;
+  // Prettier appends the code frame to the message of its own parse errors.
+  const codeFrame = renderCodeFrame(text, { line, column: byteColumn });
+  const error = new SyntaxError(`${message} (${line}:${column})\n${codeFrame}`);
+  return Object.assign(error, { loc: { start: { line, column } }, codeFrame });
+}
+
+/**
+ * Creates the Prettier plugin. The module's own `languages`, `parsers` and
+ * `printers` exports come from a plugin using the default formatter.
+ */
+export function createPrettierPlugin(
+  options: PrettierPluginOptions = {},
+): PrettierPlugin {
+  const print: PrettierPrinter["print"] = (path, printOptions) => {
+    const node = path.node;
+    const formatter = options.formatter
+      ?? getDefaultFormatter();
+    const result = formatter.formatText(
+      pluginPath(node, printOptions),
+      node.text,
+    );
+    switch (result.kind) {
+      case "no_change":
+        return node.text;
+      case "changed":
+        return result.text;
+      case "error": {
+        const [first] = result.diagnostics;
+        if (!first) throw new Error(result.message);
+        throw syntaxError(node.text, first.message, first.line, first.column);
+      }
+    }
+  };
+  return {
+    languages,
+    parsers: { zig: createParser("zig"), zon: createParser("zon") },
+    printers: { [AST_FORMAT]: { print } },
+  };
+}
+
+const plugin = createPrettierPlugin();
+
+/** Parsers for Zig and ZON source. */
+export const parsers: PrettierPlugin["parsers"] = plugin.parsers;
+
+/** Printer that formats the whole source with `plugin.wasm`. */
+export const printers: PrettierPlugin["printers"] = plugin.printers;
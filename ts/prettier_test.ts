@@ -0,0 +1,67 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { createTestFormatter, wasmTest } from "./_testing.ts";
+import {
+  AST_FORMAT,
+  createPrettierPlugin,
+  languages,
+  parsers,
+  type PrettierSyntaxError,
+} from "./prettier.ts";
+
+/** Runs `text` through a parser and the printer, like Prettier does. */
+const format = (parser: "zig" | "zon", text: string, filepath?: string) => {
+  const plugin = createPrettierPlugin({
+    formatter: createTestFormatter(),
+  });
+  const options = { filepath };
+  const node = plugin.parsers[parser].parse(text, options);
+  return plugin.printers[AST_FORMAT].print({ node }, options);
+};
+
+// =============================================================================
+// Plugin shape tests
+// =============================================================================
+
+Deno.test("languages map extensions to parsers", () => {
+  assertEquals(
+    languages.map(({ extensions, parsers }) => [extensions, parsers]),
+    [[[".zig"], ["zig"]], [[".zon"], ["zon"]]],
+  );
+  for (const parser of Object.values(parsers)) {
+    assertEquals(parser.astFormat, AST_FORMAT);
+  }
+});
+
+Deno.test("parsers pass the source through", () => {
+  const node = parsers.zig.parse("const x=1;\n", {});
+  assertEquals(node, { type: "ZigSource", mode: "zig", text: "const x=1;\n" });
+  assertEquals(parsers.zig.locStart(node), 0);
+  assertEquals(parsers.zig.locEnd(node), 11);
+});
+
+// =============================================================================
+// Printer tests
+// =============================================================================
+
+wasmTest("printer formats Zig source", () => {
+  assertEquals(format("zig", "const x=1;\n", "src/main.zig"), "const x = 1;\n");
+  assertEquals(format("zig", "const x = 1;\n"), "const x = 1;\n");
+});
+
+wasmTest("printer uses the parser's mode regardless of the file name", () => {
+  assertEquals(format("zon", ".{.a=1}", "deps.txt"), ".{ .a = 1 }\n");
+});
+
+wasmTest("printer throws syntax errors with character columns", () => {
+  const err = assertThrows(
+    () =>
+      format("zig", "const a = 1;\nconst s = \"é\"; const t = ;\n", "main.zig"),
+    SyntaxError,
+  ) as PrettierSyntaxError;
+  assertEquals(err.loc, { start: { line: 2, column: 26 } });
+  assertEquals(
+    err.message.split("\n")[0],
+    "expected expression (2:26)",
+  );
+  assertEquals(err.codeFrame.includes("const t = ;"), true);
+});
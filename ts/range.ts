@@ -0,0 +1,351 @@
+/**
+ * @module
+ * Range formatting for Zig source.
+ *
+ * The plugin's `format_range` export ignores its range and formats the whole
+ * file. {@link formatRange} instead widens a byte range to the top-level
+ * declarations it touches, formats only those, and splices the result back,
+ * so text outside them stays byte-for-byte identical. Declarations inside
+ * `dprint-ignore-start`/`-end` regions are never selected, and a
+ * `dprint-ignore-file` comment leaves the file alone.
+ *
+ * @example Format the declaration under a selection
+ * ```ts
+ * import { formatRange } from "@kjanat/dprint-zig";
+ *
+ * const text = "const a=1;\nconst b=2;\n";
+ * const result = formatRange("main.zig", text, 12, 15);
+ * if (result.kind === "changed") console.log(result.text);
+ * // => "const a=1;\nconst b = 2;\n"
+ * ```
+ */
+
+import { resolveMode } from "./files.ts";
+import {
+  type CancellationOptions,
+  type FormatError,
+  type FormatResult,
+  type Formatter,
+  getDefaultFormatter,
+  resolveNewLine,
+} from "./formatter.ts";
+import { findIgnoreDirectives, type IgnoreRegion } from "./ignore.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Span of one top-level declaration, as string indices (UTF-16 code units).
+ * Includes leading comments and a trailing comment on the same line.
+ */
+export type DeclarationSpan = { start: number; end: number };
+
+/** Options for {@link formatRange}. */
+export type FormatRangeOptions = CancellationOptions & {
+  /** Formatter to use. Defaults to one backed by the bundled plugin. */
+  formatter?: Formatter;
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Keywords that may precede the keyword naming a declaration's kind. */
+const MODIFIERS = new Set([
+  "pub",
+  "export",
+  "extern",
+  "inline",
+  "noinline",
+  "threadlocal",
+]);
+
+/** Declarations that end with a block (`}`) rather than `;` or `,`. */
+const BLOCK_KEYWORDS = new Set(["fn", "test", "comptime"]);
+
+/** Tokens after a `}` that continue a block declaration (`error{A}!void`). */
+const BLOCK_CONTINUATIONS = new Set(["{", "!", ".", ";"]);
+
+const WORD_RE = /[A-Za-z0-9_]/;
+
+// =============================================================================
+// Declaration Scanning
+// =============================================================================
+
+/** Index of the next `\n` at or after `from`, or `text.length`. */
+function lineEnd(text: string, from: number): number {
+  const end = text.indexOf("\n", from);
+  return end === -1 ? text.length : end;
+}
+
+/** Index after the string or char literal opening at `from`. */
+function skipQuoted(text: string, from: number): number {
+  const quote = text[from];
+  let i = from + 1;
+  while (i < text.length && text[i] !== quote && text[i] !== "\n") {
+    i += text[i] === "\\" ? 2 : 1;
+  }
+  return Math.min(i + 1, text.length);
+}
+
+/** First character after `from` that is not whitespace or a comment. */
+function peekToken(text: string, from: number): string {
+  let i = from;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) i++;
+    else if (text.startsWith("//", i)) i = lineEnd(text, i);
+    else return text[i];
+  }
+  return "";
+}
+
+/** Extends `end` over a `// comment` on the same line. */
+function withTrailingComment(text: string, end: number): number {
+  let i = end;
+  while (text[i] === " " || text[i] === "\t") i++;
+  return text.startsWith("//", i) ? lineEnd(text, i) : end;
+}
+
+/**
+ * Splits Zig source into top-level declarations: `;`/`,`-terminated
+ * declarations and fields, and `fn`/`test`/`comptime` blocks. Comments before
+ * a declaration belong to it; `//!` lines form their own spans.
+ */
+export function scanDeclarations(text: string): DeclarationSpan[] {
+  const spans: DeclarationSpan[] = [];
+  let start = -1;
+  let depth = 0;
+  let isBlock: boolean | undefined;
+  let i = 0;
+
+  const close = (end: number) => {
+    const spanEnd = withTrailingComment(text, end);
+    spans.push({ start, end: spanEnd });
+    start = -1;
+    depth = 0;
+    isBlock = undefined;
+    i = spanEnd;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (text.startsWith("//", i)) {
+      const end = lineEnd(text, i);
+      if (start === -1 && text.startsWith("//!", i)) {
+        spans.push({ start: i, end });
+      } else if (start === -1) {
+        start = i;
+      }
+      i = end;
+      continue;
+    }
+
+    if (start === -1) start = i;
+
+    if (text.startsWith("\\\\", i)) {
+      i = lineEnd(text, i);
+    } else if (ch === "\"" || ch === "'") {
+      i = skipQuoted(text, i);
+    } else if (WORD_RE.test(ch)) {
+      const wordStart = i;
+      while (i < text.length && WORD_RE.test(text[i])) i++;
+      const word = text.slice(wordStart, i);
+      if (depth === 0 && isBlock === undefined && !MODIFIERS.has(word)) {
+        isBlock = BLOCK_KEYWORDS.has(word);
+      }
+    } else if (ch === "(" || ch === "[" || ch === "{") {
+      depth++;
+      i++;
+    } else if (ch === ")" || ch === "]" || ch === "}") {
+      depth = Math.max(0, depth - 1);
+      i++;
+      if (
+        ch === "}" && depth === 0 && isBlock
+        && !BLOCK_CONTINUATIONS.has(peekToken(text, i))
+      ) {
+        close(i);
+      }
+    } else if ((ch === ";" || ch === ",") && depth === 0) {
+      close(i + 1);
+    } else {
+      i++;
+    }
+  }
+
+  // Unterminated trailing code or comments.
+  if (start !== -1) spans.push({ start, end: text.trimEnd().length });
+  return spans;
+}
+
+// =============================================================================
+// Range Formatting
+// =============================================================================
+
+const encoder = new TextEncoder();
+
+/** Converts a UTF-8 byte offset into a string index. */
+function byteToIndex(text: string, byteOffset: number): number {
+  let bytes = 0;
+  let i = 0;
+  while (i < text.length && bytes < byteOffset) {
+    const code = text.codePointAt(i)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    i += code > 0xffff ? 2 : 1;
+  }
+  return i;
+}
+
+/**
+ * Shifts parse errors reported for `text.slice(offset)` back to positions in
+ * `text`, rewriting the error message to match.
+ */
+function shiftErrors(
+  result: FormatError,
+  text: string,
+  offset: number,
+): FormatError {
+  if (result.diagnostics.length === 0) return result;
+
+  const before = text.slice(0, offset);
+  const lineOffset = before.split("\n").length - 1;
+  const columnOffset =
+    encoder.encode(before.slice(before.lastIndexOf("\n") + 1)).length;
+
+  const diagnostics = result.diagnostics.map((d) => ({
+    ...d,
+    line: d.line + lineOffset,
+    column: d.line === 1 ? d.column + columnOffset : d.column,
+  }));
+  return {
+    kind: "error",
+    message: diagnostics
+      .map((d) => `${d.file}:${d.line}:${d.column}: ${d.tag}`)
+      .join("\n"),
+    diagnostics,
+  };
+}
+
+/**
+ * Removes ignored lines from `spans`: spans inside an ignored region are
+ * dropped, and spans starting in one (e.g. after a `dprint-ignore-end`
+ * leading comment) start after it. Spans that enclose a whole region are
+ * kept, since formatting restores the region.
+ */
+function skipIgnored(
+  text: string,
+  spans: DeclarationSpan[],
+  regions: IgnoreRegion[],
+): DeclarationSpan[] {
+  if (regions.length === 0) return spans;
+  const lineStarts = [0];
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    lineStarts.push(i + 1);
+  }
+  const lineOf = (index: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= index) {
+      line++;
+    }
+    return line;
+  };
+
+  const kept: DeclarationSpan[] = [];
+  for (const span of spans) {
+    let start = span.start;
+    for (const region of regions) {
+      const first = lineOf(start);
+      const last = lineOf(span.end);
+      if (last < region.startLine || first > region.endLine) continue;
+      if (first < region.startLine && last > region.endLine) continue;
+      // Ends inside the region, or starts in it: keep only what follows.
+      start = first < region.startLine
+        ? span.end
+        : lineStarts[region.endLine + 1] ?? text.length;
+      while (start < span.end && /\s/.test(text[start])) start++;
+    }
+    if (start < span.end) kept.push({ start, end: span.end });
+  }
+  return kept;
+}
+
+/**
+ * Formats the top-level declarations overlapping the UTF-8 byte range
+ * `[start, end)` of `fileText` and leaves the rest untouched. An empty range
+ * selects the declaration containing `start`. A range covering the whole
+ * file, or any range in a `.zon` file (one expression), formats everything.
+ * Throws `FormatCancelledError` if cancelled.
+ */
+export function formatRange(
+  filePath: string,
+  fileText: string,
+  start: number,
+  end: number,
+  options: FormatRangeOptions = {},
+): FormatResult {
+  const formatter = options.formatter
+    ?? getDefaultFormatter();
+
+  if (
+    resolveMode(filePath) === "zon"
+    || (start <= 0 && end >= encoder.encode(fileText).length)
+  ) {
+    return formatter.formatText(filePath, fileText, undefined, options);
+  }
+
+  const directives = findIgnoreDirectives(
+    filePath,
+    fileText.replaceAll("\r\n", "\n"),
+  );
+  if (directives.ignoreFile) return { kind: "no_change" };
+  if (directives.diagnostics.length > 0) {
+    return {
+      kind: "error",
+      message: directives.diagnostics
+        .map((d) => `${d.file}:${d.line}:${d.column}: ${d.tag}`)
+        .join("\n"),
+      diagnostics: directives.diagnostics,
+    };
+  }
+
+  const from = byteToIndex(fileText, start);
+  const to = byteToIndex(fileText, Math.max(start, end));
+  const spans = skipIgnored(
+    fileText,
+    scanDeclarations(fileText),
+    directives.regions,
+  );
+  const selected = spans.filter((span) =>
+    from === to
+      ? span.start <= from && from <= span.end
+      : span.start < to && from < span.end
+  );
+  if (selected.length === 0) return { kind: "no_change" };
+
+  const regionStart = selected[0].start;
+  const regionEnd = selected[selected.length - 1].end;
+  // Give the region the file's line endings and a trailing one, so the
+  // formatter resolves its configured `newLineKind` (with `"auto"` meaning
+  // the file's line ending) even for a one-line region.
+  const fileNewLine = resolveNewLine("auto", fileText);
+  const region = fileText.slice(regionStart, regionEnd)
+    .replaceAll("\r\n", "\n")
+    .replaceAll("\n", fileNewLine) + fileNewLine;
+
+  const result = formatter.formatText(filePath, region, undefined, options);
+  if (result.kind === "error") {
+    return shiftErrors(result, fileText, regionStart);
+  }
+  if (result.kind === "no_change") return result;
+
+  // The region never ends in a newline; drop the one added above.
+  const formatted = result.text.replace(/\r?\n$/, "");
+  const text = fileText.slice(0, regionStart) + formatted
+    + fileText.slice(regionEnd);
+  return text === fileText ? { kind: "no_change" } : { kind: "changed", text };
+}
@@ -0,0 +1,248 @@
+import { assertEquals } from "@std/assert";
+import { readFileSync } from "node:fs";
+import { createTestFormatter, WASM_PATH, wasmTest } from "./_testing.ts";
+import { createFormatter } from "./formatter.ts";
+import { formatRange, scanDeclarations } from "./range.ts";
+
+const SOURCE = `//! Module docs.
+
+const std = @import("std"); // keep
+
+/// Adds two numbers.
+pub fn add(a:u32,b:u32) u32 {
+    return a+b;
+}
+
+fn fail() error{Oops}!void {
+    return error.Oops;
+}
+
+test "braces in strings" {
+    const s = "}{";
+    _ = s;
+}
+const S = struct { a:u8, b:u8 };
+`;
+
+/** Byte range covering the first occurrence of `needle` in SOURCE. */
+const rangeOf = (needle: string): [number, number] => {
+  const start = SOURCE.indexOf(needle);
+  return [start, start + needle.length];
+};
+
+// =============================================================================
+// scanDeclarations tests
+// =============================================================================
+
+Deno.test("scanDeclarations splits top-level declarations", () => {
+  assertEquals(
+    scanDeclarations(SOURCE).map(({ start, end }) => SOURCE.slice(start, end)),
+    [
+      "//! Module docs.",
+      "const std = @import(\"std\"); // keep",
+      "/// Adds two numbers.\npub fn add(a:u32,b:u32) u32 {\n    return a+b;\n}",
+      "fn fail() error{Oops}!void {\n    return error.Oops;\n}",
+      "test \"braces in strings\" {\n    const s = \"}{\";\n    _ = s;\n}",
+      "const S = struct { a:u8, b:u8 };",
+    ],
+  );
+});
+
+Deno.test("scanDeclarations splits fields and multiline strings", () => {
+  const text = "a: u8 = 0,\nconst s =\n    \\\\x; y\n;\n";
+  assertEquals(
+    scanDeclarations(text).map(({ start, end }) => text.slice(start, end)),
+    ["a: u8 = 0,", "const s =\n    \\\\x; y\n;"],
+  );
+});
+
+Deno.test("scanDeclarations keeps unterminated trailing code", () => {
+  assertEquals(scanDeclarations("const a = 1;\nconst b\n\n"), [
+    { start: 0, end: 12 },
+    { start: 13, end: 20 },
+  ]);
+});
+
+// =============================================================================
+// formatRange tests
+// =============================================================================
+
+wasmTest("formatRange formats only the declaration a range splits", () => {
+  const result = formatRange("main.zig", SOURCE, ...rangeOf("a+b"), {
+    formatter: createTestFormatter(),
+  });
+  assertEquals(result, {
+    kind: "changed",
+    text: SOURCE.replace(
+      "pub fn add(a:u32,b:u32) u32 {\n    return a+b;",
+      "pub fn add(a: u32, b: u32) u32 {\n    return a + b;",
+    ),
+  });
+});
+
+wasmTest("formatRange widens a range crossing doc comments", () => {
+  // From the end of `std` through the doc comment of `add`.
+  const [start] = rangeOf("// keep");
+  const [, end] = rangeOf("/// Adds");
+  const result = formatRange("main.zig", SOURCE, start, end, {
+    formatter: createTestFormatter(),
+  });
+  assertEquals(result.kind, "changed");
+  if (result.kind !== "changed") return;
+  assertEquals(result.text.includes("pub fn add(a: u32, b: u32) u32"), true);
+  assertEquals(result.text.includes("const S = struct { a:u8, b:u8 };"), true);
+});
+
+wasmTest(
+  "formatRange with an empty range selects the enclosing declaration",
+  () => {
+    const [start] = rangeOf("a:u8");
+    const result = formatRange("main.zig", SOURCE, start, start, {
+      formatter: createTestFormatter(),
+    });
+    assertEquals(result, {
+      kind: "changed",
+      text: SOURCE.replace("{ a:u8, b:u8 }", "{ a: u8, b: u8 }"),
+    });
+  },
+);
+
+wasmTest("formatRange covering the whole file matches formatText", () => {
+  const formatter = createTestFormatter();
+  const whole = formatter.formatText("main.zig", SOURCE);
+  const bytes = new TextEncoder().encode(SOURCE).length;
+  assertEquals(
+    formatRange("main.zig", SOURCE, 0, bytes, { formatter }),
+    whole,
+  );
+});
+
+wasmTest("formatRange reports no_change outside declarations", () => {
+  const text = "const a=1;\n\n\nconst b=2;\n";
+  assertEquals(
+    formatRange("main.zig", text, 12, 12, { formatter: createTestFormatter() }),
+    { kind: "no_change" },
+  );
+});
+
+wasmTest("formatRange uses UTF-8 byte offsets", () => {
+  const text = "const s=\"é\";\nconst b=2;\n";
+  const start = new TextEncoder().encode("const s=\"é\";\n").length;
+  assertEquals(
+    formatRange("main.zig", text, start, start + 1, {
+      formatter: createTestFormatter(),
+    }),
+    { kind: "changed", text: "const s=\"é\";\nconst b = 2;\n" },
+  );
+});
+
+wasmTest("formatRange maps parse errors to file positions", () => {
+  const text = "const a=1;\nconst b = ;\n";
+  const result = formatRange("main.zig", text, 12, 13, {
+    formatter: createTestFormatter(),
+  });
+  assertEquals(result.kind, "error");
+  if (result.kind !== "error") return;
+  assertEquals(result.diagnostics.map((d) => [d.line, d.column]), [[2, 11]]);
+  assertEquals(result.message.endsWith(":2:11: expected_expr"), true);
+});
+
+wasmTest("formatRange keeps CRLF line endings", () => {
+  const text = "const a = 1;\r\nconst b=2;\r\nconst c=3;\r\n";
+  const start = text.indexOf("const b");
+  assertEquals(
+    formatRange("main.zig", text, start, start + 1, {
+      formatter: createTestFormatter(),
+    }),
+    { kind: "changed", text: "const a = 1;\r\nconst b = 2;\r\nconst c=3;\r\n" },
+  );
+});
+
+wasmTest(
+  "formatRange splits a one-line region with the file's line ending",
+  () => {
+    const text = "const a = 1;\r\nfn f() void { return; }\r\n";
+    const start = text.indexOf("fn");
+    assertEquals(
+      formatRange("main.zig", text, start, start + 1, {
+        formatter: createTestFormatter(),
+      }),
+      {
+        kind: "changed",
+        text: "const a = 1;\r\nfn f() void {\r\n    return;\r\n}\r\n",
+      },
+    );
+  },
+);
+
+wasmTest("formatRange uses the configured newLineKind", () => {
+  const text = "const a=1;\nfn f() void { return; }\n";
+  const start = text.indexOf("fn");
+  assertEquals(
+    formatRange("main.zig", text, start, start + 1, {
+      formatter: createFormatter({
+        wasm: readFileSync(WASM_PATH!),
+        pluginConfig: { newLineKind: "crlf" },
+      }),
+    }),
+    {
+      kind: "changed",
+      text: "const a=1;\nfn f() void {\r\n    return;\r\n}\n",
+    },
+  );
+});
+
+const IGNORED = `const a=1;
+// dprint-ignore-start
+const b=2;
+// dprint-ignore-end
+const c=3;
+`;
+
+wasmTest("formatRange leaves declarations in ignored regions alone", () => {
+  const formatter = createTestFormatter();
+  const b = IGNORED.indexOf("const b");
+  assertEquals(
+    formatRange("main.zig", IGNORED, b, b + 1, { formatter }),
+    { kind: "no_change" },
+  );
+  assertEquals(
+    formatRange("main.zig", IGNORED, 0, IGNORED.indexOf("const c") + 1, {
+      formatter,
+    }),
+    {
+      kind: "changed",
+      text: IGNORED.replace("const a=1", "const a = 1").replace(
+        "const c=3",
+        "const c = 3",
+      ),
+    },
+  );
+});
+
+wasmTest("formatRange formats declarations next to ignore directives", () => {
+  const formatter = createTestFormatter();
+  const text =
+    "// dprint-ignore-start\nconst a=1;\n// dprint-ignore-end\nconst b=2;\n";
+  const b = text.indexOf("const b");
+  assertEquals(
+    formatRange("main.zig", text, b, b + 1, { formatter }),
+    { kind: "changed", text: text.replace("const b=2", "const b = 2") },
+  );
+
+  const open = "const a=1;\n// dprint-ignore-start\nconst b=2;\n";
+  assertEquals(
+    formatRange("m.zig", open, 0, 1, { formatter }).kind,
+    "error",
+  );
+});
+
+wasmTest("formatRange honours dprint-ignore-file", () => {
+  const text = "// dprint-ignore-file\nconst a=1;\n";
+  assertEquals(
+    formatRange("main.zig", text, 23, 24, {
+      formatter: createTestFormatter(),
+    }),
+    { kind: "no_change" },
+  );
+});
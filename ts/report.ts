@@ -0,0 +1,353 @@
+/**
+ * @module
+ * Machine-readable reports of `--check` results for CI.
+ *
+ * {@link toCheckedFile} turns a file's {@link FormatResult} into a list of
+ * problems (unformatted, parse error, or unreadable), and each reporter in
+ * {@link REPORTERS} renders the checked files: SARIF 2.1.0 for code
+ * scanning, JUnit XML for test dashboards, JSON, and GitHub Actions
+ * `::error` workflow commands in the form `build.zig` uses for the README
+ * version check.
+ *
+ * @example Annotate unformatted files in a GitHub workflow
+ * ```ts
+ * import { formatText, REPORTERS, toCheckedFile } from "@kjanat/dprint-zig";
+ *
+ * const text = "const x=1;\n";
+ * const file = toCheckedFile("main.zig", text, formatText("main.zig", text));
+ * console.log(REPORTERS.github([file]));
+ * // ::error file=main.zig,line=1,title=Unformatted file::File is not formatted
+ * ```
+ */
+
+import { createUnifiedDiff } from "./diff.ts";
+import type { FormatResult } from "./formatter.ts";
+import { VERSION } from "./version.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A file whose formatted output differs from its contents. */
+export type UnformattedProblem = {
+  kind: "unformatted";
+  /** First line (1-based) that formatting changes. */
+  line: number;
+  message: string;
+  /** Unified diff from the contents to the formatted output. */
+  diff: string;
+};
+
+/** A parse error reported by the plugin. */
+export type ParseErrorProblem = {
+  kind: "parse_error";
+  line: number;
+  /** 1-based column in UTF-8 bytes, as the plugin reports it. */
+  column: number;
+  /** 1-based column in UTF-16 code units, as SARIF and GitHub count. */
+  characterColumn: number;
+  /** `std.zig.Ast.Error.Tag` name, e.g. `expected_expr`. */
+  tag: string;
+  message: string;
+};
+
+/** Any other failure: an unreadable file, or a plugin error without a position. */
+export type ErrorProblem = { kind: "error"; message: string };
+
+/** Something `--check` found wrong with a file. */
+export type CheckProblem =
+  | UnformattedProblem
+  | ParseErrorProblem
+  | ErrorProblem;
+
+/** A checked file and its problems (none when it is formatted). */
+export type CheckedFile = {
+  /** Path as displayed, relative to the working directory. */
+  path: string;
+  problems: CheckProblem[];
+};
+
+/** Options for the reporters. */
+export type ReportOptions = {
+  /** Tool version written to SARIF and JSON. Default: {@link VERSION}. */
+  version?: string;
+};
+
+/** Renders checked files as a report. */
+export type Reporter = (
+  files: readonly CheckedFile[],
+  options?: ReportOptions,
+) => string;
+
+/** Name of a reporter in {@link REPORTERS}. */
+export type ReporterName = "github" | "json" | "junit" | "sarif";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Tool name used in reports. */
+export const TOOL_NAME = "dprint-zig";
+
+/** Project page linked from SARIF reports. */
+export const TOOL_URL = "https://github.com/kjanat/dprint-plugin-zig";
+
+/** Message reported for unformatted files. */
+export const UNFORMATTED_MESSAGE = "File is not formatted";
+
+/** Short titles per problem kind, used by the GitHub and SARIF reporters. */
+const TITLES: Record<CheckProblem["kind"], string> = {
+  unformatted: "Unformatted file",
+  parse_error: "Parse error",
+  error: "Error",
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// =============================================================================
+// Problems
+// =============================================================================
+
+/** Returns the first line (1-based) where `before` and `after` differ. */
+function firstChangedLine(before: string, after: string): number {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  let line = 0;
+  while (line < a.length && line < b.length && a[line] === b[line]) line++;
+  return Math.min(line, a.length - 1) + 1;
+}
+
+/** Converts a 1-based UTF-8 byte column on `line` of `text` to UTF-16. */
+function characterColumnOf(text: string, line: number, column: number): number {
+  const lineText = text.split("\n")[line - 1] ?? "";
+  return decoder.decode(
+    encoder.encode(lineText).subarray(0, Math.max(column - 1, 0)),
+  ).length + 1;
+}
+
+/** Converts the result of formatting `text` (the file `path`) to problems. */
+export function toCheckedFile(
+  path: string,
+  text: string,
+  result: FormatResult,
+): CheckedFile {
+  if (result.kind === "no_change") return { path, problems: [] };
+  if (result.kind === "changed") {
+    return {
+      path,
+      problems: [{
+        kind: "unformatted",
+        line: firstChangedLine(text, result.text),
+        message: UNFORMATTED_MESSAGE,
+        diff: createUnifiedDiff(text, result.text, { path }),
+      }],
+    };
+  }
+  if (result.diagnostics.length === 0) {
+    return { path, problems: [{ kind: "error", message: result.message }] };
+  }
+  return {
+    path,
+    problems: result.diagnostics.map((d) => ({
+      kind: "parse_error",
+      line: d.line,
+      column: d.column,
+      characterColumn: characterColumnOf(text, d.line, d.column),
+      tag: d.tag,
+      message: d.message,
+    })),
+  };
+}
+
+// =============================================================================
+// Reporters
+// =============================================================================
+
+/** Escapes workflow command data (the message after `::`). */
+function escapeData(text: string): string {
+  return text
+    .replaceAll("%", "%25")
+    .replaceAll("\r", "%0D")
+    .replaceAll("\n", "%0A");
+}
+
+/** Escapes a workflow command property value. */
+function escapeProperty(text: string): string {
+  return escapeData(text).replaceAll(":", "%3A").replaceAll(",", "%2C");
+}
+
+/**
+ * GitHub Actions workflow commands, one `::error` line per problem, e.g.
+ * `::error file=src/a.zig,line=3,col=7,title=Parse error (expected_expr)::expected expression`.
+ */
+export function renderGitHub(files: readonly CheckedFile[]): string {
+  let out = "";
+  for (const file of files) {
+    for (const problem of file.problems) {
+      const props = [`file=${escapeProperty(file.path)}`];
+      let title = TITLES[problem.kind];
+      if (problem.kind !== "error") props.push(`line=${problem.line}`);
+      if (problem.kind === "parse_error") {
+        props.push(`col=${problem.characterColumn}`);
+        title += ` (${problem.tag})`;
+      }
+      props.push(`title=${escapeProperty(title)}`);
+      out += `::error ${props.join(",")}::${escapeData(problem.message)}\n`;
+    }
+  }
+  return out;
+}
+
+/** JSON with a summary and every checked file's problems. */
+export function renderJson(
+  files: readonly CheckedFile[],
+  options: ReportOptions = {},
+): string {
+  const count = (kind: CheckProblem["kind"]) =>
+    files.filter((f) => f.problems.some((p) => p.kind === kind)).length;
+  const report = {
+    tool: TOOL_NAME,
+    version: options.version ?? VERSION,
+    summary: {
+      files: files.length,
+      unformatted: count("unformatted"),
+      parseErrors: count("parse_error"),
+      errors: count("error"),
+    },
+    files,
+  };
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/** Escapes text for XML content and attribute values. */
+function escapeXml(text: string): string {
+  return text
+    // Characters XML 1.0 cannot represent at all.
+    // deno-lint-ignore no-control-regex
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "\uFFFD")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll("\"", "&quot;");
+}
+
+/**
+ * JUnit XML with one test case per file. Unformatted files and parse errors
+ * are failures (with the diff or position as the body); unreadable files are
+ * errors.
+ */
+export function renderJunit(files: readonly CheckedFile[]): string {
+  const failed =
+    files.filter((f) => f.problems.some((p) => p.kind !== "error")).length;
+  const errored =
+    files.filter((f) =>
+      f.problems.length > 0 && f.problems.every((p) => p.kind === "error")
+    ).length;
+  const counts =
+    `tests="${files.length}" failures="${failed}" errors="${errored}"`;
+
+  const lines = [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    `<testsuites name="${TOOL_NAME}" ${counts}>`,
+    `  <testsuite name="${TOOL_NAME} --check" ${counts}>`,
+  ];
+  for (const file of files) {
+    const name = `classname="${TOOL_NAME}" name="${escapeXml(file.path)}"`;
+    if (file.problems.length === 0) {
+      lines.push(`    <testcase ${name}/>`);
+      continue;
+    }
+    lines.push(`    <testcase ${name}>`);
+    for (const problem of file.problems) {
+      const element = problem.kind === "error" ? "error" : "failure";
+      const type = problem.kind === "parse_error" ? problem.tag : problem.kind;
+      const body = problem.kind === "unformatted"
+        ? problem.diff
+        : problem.kind === "parse_error"
+        ? `${file.path}:${problem.line}:${problem.column}: ${problem.tag}`
+        : problem.message;
+      lines.push(
+        `      <${element} type="${escapeXml(type)}" message="${
+          escapeXml(problem.message)
+        }">${escapeXml(body)}</${element}>`,
+      );
+    }
+    lines.push("    </testcase>");
+  }
+  lines.push("  </testsuite>", "</testsuites>", "");
+  return lines.join("\n");
+}
+
+/** SARIF rule ids per problem kind. */
+const SARIF_RULES: Record<CheckProblem["kind"], string> = {
+  unformatted: "unformatted",
+  parse_error: "parse-error",
+  error: "error",
+};
+
+/**
+ * A SARIF 2.1.0 log with one result per problem, for GitHub code scanning
+ * (`github/codeql-action/upload-sarif`) and other SARIF viewers.
+ */
+export function renderSarif(
+  files: readonly CheckedFile[],
+  options: ReportOptions = {},
+): string {
+  const kinds = Object.keys(SARIF_RULES) as CheckProblem["kind"][];
+  const results = files.flatMap((file) =>
+    file.problems.map((problem) => {
+      const region = problem.kind === "error"
+        ? undefined
+        : problem.kind === "parse_error"
+        ? { startLine: problem.line, startColumn: problem.characterColumn }
+        : { startLine: problem.line };
+      return {
+        ruleId: SARIF_RULES[problem.kind],
+        ruleIndex: kinds.indexOf(problem.kind),
+        level: "error",
+        message: {
+          text: problem.kind === "parse_error"
+            ? `${problem.message} (${problem.tag})`
+            : problem.message,
+        },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: {
+              uri: encodeURI(file.path.replaceAll("\\", "/")),
+            },
+            ...(region && { region }),
+          },
+        }],
+      };
+    })
+  );
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          version: options.version ?? VERSION,
+          informationUri: TOOL_URL,
+          rules: kinds.map((kind) => ({
+            id: SARIF_RULES[kind],
+            shortDescription: { text: TITLES[kind] },
+          })),
+        },
+      },
+      results,
+    }],
+  };
+  return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+/** Reporters by name, as selected with the CLI's `--reporter`. */
+export const REPORTERS: Record<ReporterName, Reporter> = {
+  github: renderGitHub,
+  json: renderJson,
+  junit: renderJunit,
+  sarif: renderSarif,
+};
@@ -0,0 +1,140 @@
+import { assertEquals } from "@std/assert";
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  type CheckedFile,
+  renderGitHub,
+  renderJson,
+  renderJunit,
+  renderSarif,
+  toCheckedFile,
+  UNFORMATTED_MESSAGE,
+} from "./report.ts";
+
+/** `deno task test -- --update` rewrites the snapshots. */
+const UPDATE = Deno.args.includes("--update");
+
+const SNAPSHOTS = fileURLToPath(
+  new URL("../tests/snapshots/report", import.meta.url),
+);
+
+/** Compares `actual` with the snapshot file `name`, or writes it with --update. */
+async function assertSnapshot(name: string, actual: string): Promise<void> {
+  const path = join(SNAPSHOTS, name);
+  if (UPDATE) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, actual);
+    return;
+  }
+  if (!existsSync(path)) {
+    throw new Error(`missing snapshot ${path} (run with --update)`);
+  }
+  assertEquals(actual, readFileSync(path, "utf8"));
+}
+
+/** A formatted, an unformatted, an unparsable and an unreadable file. */
+const FILES: CheckedFile[] = [
+  toCheckedFile("src/main.zig", "const x = 1;\n", { kind: "no_change" }),
+  toCheckedFile("src/a,b.zig", "const x = 1;\nconst y=2;\n", {
+    kind: "changed",
+    text: "const x = 1;\nconst y = 2;\n",
+  }),
+  toCheckedFile("build.zig.zon", ".{ .a = 1", {
+    kind: "error",
+    message: "build.zig.zon:1:10: expected_token",
+    diagnostics: [{
+      file: "build.zig.zon",
+      line: 1,
+      column: 10,
+      tag: "expected_token",
+      message: "expected token",
+    }],
+  }),
+  {
+    path: "src/gone.zig",
+    problems: [{
+      kind: "error",
+      message: "ENOENT: no such file <gone.zig> & 100% missing",
+    }],
+  },
+];
+
+// =============================================================================
+// toCheckedFile tests
+// =============================================================================
+
+Deno.test("toCheckedFile reports the first changed line", () => {
+  const [problem] = toCheckedFile("a.zig", "a\nb\nc", {
+    kind: "changed",
+    text: "a\nb\nc\n",
+  }).problems;
+  assertEquals(problem.kind === "unformatted" && problem.line, 3);
+  assertEquals(
+    problem.kind === "unformatted" && problem.message,
+    UNFORMATTED_MESSAGE,
+  );
+});
+
+Deno.test("toCheckedFile keeps plugin errors without a position", () => {
+  assertEquals(
+    toCheckedFile("a.zig", "", {
+      kind: "error",
+      message: "out of memory",
+      diagnostics: [],
+    }),
+    { path: "a.zig", problems: [{ kind: "error", message: "out of memory" }] },
+  );
+});
+
+Deno.test("toCheckedFile counts parse error columns in UTF-16 for reporters", () => {
+  const text = "const s = \"é😀\" ++ ;\n";
+  const files = [
+    toCheckedFile("a.zig", text, {
+      kind: "error",
+      message: "a.zig:1:23: expected_expr",
+      diagnostics: [{
+        file: "a.zig",
+        line: 1,
+        column: 23,
+        tag: "expected_expr",
+        message: "expected expression",
+      }],
+    }),
+  ];
+  const [problem] = files[0].problems;
+  assertEquals(problem.kind === "parse_error" && problem.characterColumn, 20);
+  assertEquals(renderGitHub(files).includes(",col=20,"), true);
+  assertEquals(
+    JSON.parse(renderSarif(files)).runs[0].results[0].locations[0]
+      .physicalLocation.region,
+    { startLine: 1, startColumn: 20 },
+  );
+});
+
+// =============================================================================
+// Reporter snapshot tests
+// =============================================================================
+
+Deno.test("renderGitHub matches its snapshot", async () => {
+  await assertSnapshot("github.txt", renderGitHub(FILES));
+});
+
+Deno.test("renderGitHub prints nothing for formatted files", () => {
+  assertEquals(renderGitHub([FILES[0]]), "");
+});
+
+Deno.test("renderJson matches its snapshot", async () => {
+  await assertSnapshot("report.json", renderJson(FILES, { version: "1.2.3" }));
+});
+
+Deno.test("renderJunit matches its snapshot", async () => {
+  await assertSnapshot("junit.xml", renderJunit(FILES));
+});
+
+Deno.test("renderSarif matches its snapshot", async () => {
+  const sarif = renderSarif(FILES, { version: "1.2.3" });
+  await assertSnapshot("sarif.json", sarif);
+  assertEquals(JSON.parse(sarif).runs[0].results.length, 3);
+});
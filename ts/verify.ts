@@ -0,0 +1,173 @@
+/**
+ * @module
+ * Integrity checks for the bundled `plugin.wasm`.
+ *
+ * The publish scripts write `integrity.json` (SHA-256 and byte size of the
+ * released `plugin.wasm`) next to the module. {@link verifyPlugin} hashes the
+ * file, compares it with that manifest, and checks that the module exports
+ * the dprint Wasm Plugin Schema v4 functions.
+ *
+ * @example Refuse to run a modified plugin
+ * ```ts
+ * import { verifyPlugin } from "@kjanat/dprint-zig";
+ *
+ * const result = verifyPlugin();
+ * if (!result.ok) throw new Error(result.problems.join("\n"));
+ * ```
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+
+import { getPath, readPluginBytes } from "./wasm.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Contents of `integrity.json`. */
+export type IntegrityManifest = {
+  /** File name of the module, relative to the manifest. */
+  file: string;
+  /** Lowercase hex SHA-256 of the module bytes. */
+  sha256: string;
+  /** Size of the module in bytes. */
+  size: number;
+};
+
+/** Options for {@link verifyPlugin}. */
+export type VerifyOptions = {
+  /** Module to check. Defaults to the bundled `plugin.wasm`. */
+  path?: string;
+  /** Manifest to compare with. Defaults to `integrity.json` next to `path`. */
+  manifestPath?: string;
+};
+
+/** Result of {@link verifyPlugin}. */
+export type VerifyResult = {
+  /** True when the module matches the manifest and exports Schema v4. */
+  ok: boolean;
+  /** Path of the checked module. */
+  path: string;
+  /** Lowercase hex SHA-256 of the module bytes. */
+  sha256: string;
+  /** Size of the module in bytes. */
+  size: number;
+  /** Why the check failed (empty when `ok`). */
+  problems: string[];
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** File name of the manifest written next to `plugin.wasm`. */
+export const MANIFEST_FILE = "integrity.json";
+
+/** Functions a dprint Wasm Plugin Schema v4 module must export. */
+export const SCHEMA_V4_EXPORTS: readonly string[] = [
+  "dprint_plugin_version_4",
+  "get_shared_bytes_ptr",
+  "clear_shared_bytes",
+  "get_plugin_info",
+  "get_license_text",
+  "register_config",
+  "release_config",
+  "get_config_diagnostics",
+  "get_resolved_config",
+  "get_config_file_matching",
+  "set_file_path",
+  "set_override_config",
+  "format",
+  "format_range",
+  "get_formatted_text",
+  "get_error_text",
+];
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/** Returns the lowercase hex SHA-256 of `bytes`. */
+export function sha256Hex(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+/** Builds the manifest for the module `bytes` stored as `file`. */
+export function createIntegrityManifest(
+  bytes: Uint8Array,
+  file: string = "plugin.wasm",
+): IntegrityManifest {
+  return { file, sha256: sha256Hex(bytes), size: bytes.length };
+}
+
+/**
+ * Returns the Schema v4 exports (plus `memory`) missing from the module
+ * `bytes`. Throws if `bytes` is not a valid Wasm module.
+ */
+export function missingExports(bytes: Uint8Array<ArrayBuffer>): string[] {
+  const exported = new Set(
+    WebAssembly.Module.exports(new WebAssembly.Module(bytes)).map((e) =>
+      e.name
+    ),
+  );
+  return ["memory", ...SCHEMA_V4_EXPORTS].filter((name) => !exported.has(name));
+}
+
+/**
+ * Checks a plugin module against its integrity manifest and the Schema v4
+ * export list. Problems are reported in the result rather than thrown.
+ */
+export function verifyPlugin(options: VerifyOptions = {}): VerifyResult {
+  const path = options.path ?? getPath();
+  const manifestPath = options.manifestPath
+    ?? join(dirname(path), MANIFEST_FILE);
+  const problems: string[] = [];
+
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = readPluginBytes(path);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, path, sha256: "", size: 0, problems: [message] };
+  }
+  const actual = createIntegrityManifest(bytes, basename(path));
+
+  let expected: IntegrityManifest | undefined;
+  try {
+    expected = JSON.parse(readFileSync(manifestPath, "utf8"));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    problems.push(`cannot read integrity manifest: ${message}`);
+  }
+  if (expected) {
+    if (expected.sha256 !== actual.sha256) {
+      problems.push(
+        `sha256 mismatch: expected ${expected.sha256}, got ${actual.sha256}`,
+      );
+    }
+    if (expected.size !== actual.size) {
+      problems.push(
+        `size mismatch: expected ${expected.size} bytes, got ${actual.size}`,
+      );
+    }
+  }
+
+  try {
+    for (const name of missingExports(bytes)) {
+      problems.push(`missing Schema v4 export: ${name}`);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    problems.push(`not a valid Wasm module: ${message}`);
+  }
+
+  return {
+    ok: problems.length === 0,
+    path,
+    sha256: actual.sha256,
+    size: actual.size,
+    problems,
+  };
+}
@@ -0,0 +1,132 @@
+import { assertEquals } from "@std/assert";
+import { readFileSync } from "node:fs";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WASM_PATH, wasmTest } from "./_testing.ts";
+import {
+  createIntegrityManifest,
+  MANIFEST_FILE,
+  missingExports,
+  sha256Hex,
+  verifyPlugin,
+} from "./verify.ts";
+
+/** Smallest valid Wasm module: no exports at all. */
+const EMPTY_MODULE = new Uint8Array([0, 0x61, 0x73, 0x6d, 1, 0, 0, 0]);
+
+/** Copies `bytes` to plugin.wasm in a temp dir, with an optional manifest. */
+async function withPlugin(
+  bytes: Uint8Array,
+  manifest: object | undefined,
+  fn: (path: string) => void,
+): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), "dprint-zig-verify-"));
+  try {
+    await writeFile(join(dir, "plugin.wasm"), bytes);
+    if (manifest) {
+      await writeFile(join(dir, MANIFEST_FILE), JSON.stringify(manifest));
+    }
+    fn(join(dir, "plugin.wasm"));
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+}
+
+// =============================================================================
+// createIntegrityManifest tests
+// =============================================================================
+
+Deno.test("sha256Hex hashes bytes as lowercase hex", () => {
+  assertEquals(
+    sha256Hex(new TextEncoder().encode("abc")),
+    "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+  );
+});
+
+Deno.test("createIntegrityManifest records hash and size", () => {
+  assertEquals(createIntegrityManifest(EMPTY_MODULE), {
+    file: "plugin.wasm",
+    sha256: sha256Hex(EMPTY_MODULE),
+    size: 8,
+  });
+});
+
+// =============================================================================
+// verifyPlugin tests
+// =============================================================================
+
+wasmTest("verifyPlugin accepts a plugin matching its manifest", async () => {
+  const bytes = readFileSync(WASM_PATH!);
+  await withPlugin(bytes, createIntegrityManifest(bytes), (path) => {
+    const result = verifyPlugin({ path });
+    assertEquals(result.problems, []);
+    assertEquals(result.ok, true);
+    assertEquals(result.size, bytes.length);
+  });
+});
+
+wasmTest("verifyPlugin reports hash and size mismatches", async () => {
+  const bytes = readFileSync(WASM_PATH!);
+  const manifest = { file: "plugin.wasm", sha256: "00", size: 1 };
+  await withPlugin(bytes, manifest, (path) => {
+    const result = verifyPlugin({ path });
+    assertEquals(result.ok, false);
+    assertEquals(result.problems, [
+      `sha256 mismatch: expected 00, got ${sha256Hex(bytes)}`,
+      `size mismatch: expected 1 bytes, got ${bytes.length}`,
+    ]);
+  });
+});
+
+Deno.test("verifyPlugin reports a missing manifest", async () => {
+  await withPlugin(EMPTY_MODULE, undefined, (path) => {
+    const result = verifyPlugin({ path });
+    assertEquals(result.ok, false);
+    assertEquals(
+      result.problems[0].startsWith("cannot read integrity manifest:"),
+      true,
+    );
+  });
+});
+
+Deno.test("verifyPlugin reports missing Schema v4 exports", async () => {
+  await withPlugin(
+    EMPTY_MODULE,
+    createIntegrityManifest(EMPTY_MODULE),
+    (path) => {
+      const { ok, problems } = verifyPlugin({ path });
+      assertEquals(ok, false);
+      assertEquals(problems.includes("missing Schema v4 export: memory"), true);
+      assertEquals(
+        problems.includes(
+          "missing Schema v4 export: dprint_plugin_version_4",
+        ),
+        true,
+      );
+    },
+  );
+});
+
+Deno.test("verifyPlugin reports invalid modules and unreadable files", async () => {
+  const junk = new TextEncoder().encode("not wasm");
+  await withPlugin(junk, createIntegrityManifest(junk), (path) => {
+    const { ok, problems } = verifyPlugin({ path });
+    assertEquals(ok, false);
+    assertEquals(problems.length, 1);
+    assertEquals(problems[0].startsWith("not a valid Wasm module:"), true);
+  });
+
+  const missing = verifyPlugin({ path: join(tmpdir(), "no-such-plugin.wasm") });
+  assertEquals(missing.ok, false);
+  assertEquals(missing.problems.length, 1);
+});
+
+// =============================================================================
+// missingExports tests
+// =============================================================================
+
+wasmTest("missingExports finds nothing missing in the built plugin", () => {
+  assertEquals(missingExports(readFileSync(WASM_PATH!)), []);
+  return Promise.resolve();
+});
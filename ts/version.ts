@@ -0,0 +1,10 @@
+/**
+ * @module
+ * Version of this package.
+ *
+ * Matches the `build.zig.zon` version the bundled `plugin.wasm` was built
+ * from (`getPluginInfo().version`); scripts/bump-version.ts keeps them in sync.
+ */
+
+/** Package version. */
+export const VERSION = "0.2.1";
@@ -0,0 +1,20 @@
+/**
+ * @module
+ * Locates and loads the bundled `plugin.wasm` module.
+ */
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Gets the path to the Wasm module.
+ * @returns {string}
+ */
+export const getPath = (): string => join(import.meta.dirname!, "plugin.wasm");
+
+/** Reads the bytes of the Wasm module at `path` (defaults to {@link getPath}). */
+export function readPluginBytes(
+  path: string = getPath(),
+): Uint8Array<ArrayBuffer> {
+  return readFileSync(path);
+}
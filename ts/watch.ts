@@ -0,0 +1,141 @@
+/**
+ * @module
+ * Watches directories for changes to Zig files.
+ *
+ * {@link watchPaths} collects change events for `.zig`/`.zon` files, waits
+ * until they stop arriving for a short while, and hands the batch to a
+ * callback. Batches never overlap: events arriving while one is handled are
+ * collected into the next. The CLI's `--watch` mode (see `./cli.ts`) builds
+ * on this.
+ *
+ * @example Log saved Zig files until aborted
+ * ```ts
+ * import { watchPaths } from "@kjanat/dprint-zig";
+ *
+ * const controller = new AbortController();
+ * await watchPaths({
+ *   roots: ["src"],
+ *   signal: controller.signal,
+ *   onChange: (paths) => console.log(paths),
+ * });
+ * ```
+ */
+
+import { watch } from "node:fs";
+import { join, resolve } from "node:path";
+
+import { isZigPath } from "./files.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Starts watching the directory `root` recursively, calling `onEvent` with
+ * the absolute path of every entry that changes. Returns a handle to stop.
+ */
+export type Watcher = (
+  root: string,
+  onEvent: (path: string) => void,
+) => { close(): void };
+
+/** Options for {@link watchPaths}. */
+export type WatchOptions = {
+  /** Directories to watch. */
+  roots: readonly string[];
+  /** Called with each batch of changed Zig files (absolute, sorted). */
+  onChange(paths: string[]): void | Promise<void>;
+  /** Paths to ignore, e.g. from `createExcludeMatcher`. */
+  isExcluded?: (path: string) => boolean;
+  /** Quiet period before a batch is handled. Default: {@link DEFAULT_DEBOUNCE_MS}. */
+  debounce?: number;
+  /** Stops watching when aborted. */
+  signal?: AbortSignal;
+  /** Defaults to {@link nodeWatcher}. */
+  watcher?: Watcher;
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Milliseconds without events before a batch of changes is handled. */
+export const DEFAULT_DEBOUNCE_MS = 100;
+
+/** {@link Watcher} backed by `fs.watch` in recursive mode. */
+export const nodeWatcher: Watcher = (root, onEvent) =>
+  watch(root, { recursive: true }, (_event, filename) => {
+    if (filename) onEvent(join(root, filename.toString()));
+  });
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Watches `roots` and calls `onChange` with debounced batches of changed Zig
+ * files. Resolves once `signal` is aborted and the batch in progress has
+ * finished; rejects if watching fails or `onChange` throws.
+ */
+export function watchPaths(options: WatchOptions): Promise<void> {
+  const { signal } = options;
+  const debounce = options.debounce ?? DEFAULT_DEBOUNCE_MS;
+  const watcher = options.watcher ?? nodeWatcher;
+
+  return new Promise((resolvePromise, reject) => {
+    const pending = new Set<string>();
+    const handles: { close(): void }[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let running: Promise<void> | undefined;
+    let stopped = false;
+
+    const stop = (error?: unknown) => {
+      if (stopped) return;
+      stopped = true;
+      clearTimeout(timer);
+      for (const handle of handles) handle.close();
+      signal?.removeEventListener("abort", onAbort);
+      if (error !== undefined) reject(error);
+      else (running ?? Promise.resolve()).then(() => resolvePromise(), reject);
+    };
+    const onAbort = () => stop();
+
+    const schedule = () => {
+      clearTimeout(timer);
+      if (!stopped) timer = setTimeout(flush, debounce);
+    };
+    const flush = () => {
+      timer = undefined;
+      // A batch is still running; it reschedules itself when done.
+      if (running || stopped) return;
+      const paths = [...pending].sort();
+      pending.clear();
+      running = (async () => {
+        try {
+          await options.onChange(paths);
+        } catch (err) {
+          stop(err);
+        } finally {
+          running = undefined;
+        }
+        if (pending.size > 0) schedule();
+      })();
+    };
+    const onEvent = (path: string) => {
+      if (stopped || !isZigPath(path) || options.isExcluded?.(path)) return;
+      pending.add(resolve(path));
+      if (!running) schedule();
+    };
+
+    if (signal?.aborted) {
+      resolvePromise();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      for (const root of options.roots) handles.push(watcher(root, onEvent));
+    } catch (err) {
+      stop(err);
+    }
+  });
+}
@@ -0,0 +1,147 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { join, resolve } from "node:path";
+import { type Watcher, watchPaths } from "./watch.ts";
+
+/** A watcher driven by hand: `emit` reports a change under a watched root. */
+function fakeWatcher(): Watcher & {
+  emit(path: string): void;
+  roots: string[];
+} {
+  const listeners = new Map<string, (path: string) => void>();
+  const watcher = (root: string, onEvent: (path: string) => void) => {
+    listeners.set(root, onEvent);
+    watcher.roots.push(root);
+    return { close: () => listeners.delete(root) };
+  };
+  watcher.roots = [] as string[];
+  watcher.emit = (path: string) => {
+    for (const [root, onEvent] of listeners) {
+      if (path.startsWith(root)) onEvent(path);
+    }
+  };
+  return watcher;
+}
+
+const tick = (ms = 0) => new Promise((r) => setTimeout(r, ms));
+
+// =============================================================================
+// watchPaths tests
+// =============================================================================
+
+Deno.test("watchPaths batches Zig file events after a quiet period", async () => {
+  const watcher = fakeWatcher();
+  const controller = new AbortController();
+  const batches: string[][] = [];
+  const root = resolve("src");
+
+  const done = watchPaths({
+    roots: [root],
+    debounce: 10,
+    signal: controller.signal,
+    watcher,
+    onChange: (paths) => {
+      batches.push(paths);
+    },
+  });
+  assertEquals(watcher.roots, [root]);
+
+  watcher.emit(join(root, "b.zig"));
+  watcher.emit(join(root, "a.zon"));
+  watcher.emit(join(root, "b.zig"));
+  watcher.emit(join(root, "notes.md"));
+  await tick(50);
+  watcher.emit(join(root, "c.zig"));
+  await tick(50);
+
+  controller.abort();
+  await done;
+  assertEquals(batches, [
+    [join(root, "a.zon"), join(root, "b.zig")],
+    [join(root, "c.zig")],
+  ]);
+});
+
+Deno.test("watchPaths skips excluded paths", async () => {
+  const watcher = fakeWatcher();
+  const controller = new AbortController();
+  const batches: string[][] = [];
+  const root = resolve("pkg");
+
+  const done = watchPaths({
+    roots: [root],
+    debounce: 10,
+    signal: controller.signal,
+    watcher,
+    isExcluded: (path) => path.includes(".zig-cache"),
+    onChange: (paths) => {
+      batches.push(paths);
+    },
+  });
+
+  watcher.emit(join(root, ".zig-cache", "o", "x.zig"));
+  await tick(50);
+  watcher.emit(join(root, "main.zig"));
+  await tick(50);
+
+  controller.abort();
+  await done;
+  assertEquals(batches, [[join(root, "main.zig")]]);
+});
+
+Deno.test("watchPaths collects events during a batch into the next one", async () => {
+  const watcher = fakeWatcher();
+  const controller = new AbortController();
+  const batches: string[][] = [];
+  const root = resolve("src");
+
+  const done = watchPaths({
+    roots: [root],
+    debounce: 10,
+    signal: controller.signal,
+    watcher,
+    async onChange(paths) {
+      batches.push(paths);
+      if (batches.length === 1) {
+        // E.g. our own write landing while the batch runs.
+        watcher.emit(join(root, "b.zig"));
+        await tick(30);
+      }
+    },
+  });
+
+  watcher.emit(join(root, "a.zig"));
+  await tick(100);
+
+  controller.abort();
+  await done;
+  assertEquals(batches, [[join(root, "a.zig")], [join(root, "b.zig")]]);
+});
+
+Deno.test("watchPaths stops watching and rejects when onChange throws", async () => {
+  const watcher = fakeWatcher();
+  const root = resolve("src");
+
+  const done = watchPaths({
+    roots: [root],
+    debounce: 10,
+    watcher,
+    onChange: () => {
+      throw new Error("boom");
+    },
+  });
+  watcher.emit(join(root, "a.zig"));
+
+  await assertRejects(() => done, Error, "boom");
+  watcher.emit(join(root, "b.zig"));
+});
+
+Deno.test("watchPaths resolves at once for an aborted signal", async () => {
+  const watcher = fakeWatcher();
+  await watchPaths({
+    roots: [resolve("src")],
+    signal: AbortSignal.abort(),
+    watcher,
+    onChange: () => {},
+  });
+  assertEquals(watcher.roots, []);
+});
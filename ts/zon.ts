@@ -0,0 +1,728 @@
+/**
+ * @module
+ * ZON (Zig Object Notation) parser and serializer, with JSON conversion.
+ *
+ * {@link parseZon} reads ZON such as `build.zig.zon` into plain values, and
+ * {@link stringifyZon} writes them back as ZON formatted by the plugin in
+ * `.zon` mode. The values are chosen so they convert to and from JSON without
+ * loss:
+ *
+ * | ZON                          | Value                               |
+ * | ---------------------------- | ----------------------------------- |
+ * | `.{ .name = value }`         | object                              |
+ * | `.{ a, b }`                  | array                               |
+ * | `.{}`                        | `{}`                                |
+ * | `.dprint_plugin_zig`         | `{ $enum: "dprint_plugin_zig" }`    |
+ * | `"text"`, `\\text`           | string                              |
+ * | `"\xff"` (not UTF-8)         | `{ $bytes: "ff" }` (hex)            |
+ * | `'a'`                        | number (the code point)             |
+ * | `0xe08d37d8804049ec`         | number, or bigint past 2^53         |
+ * | `1.5`, `inf`, `nan`          | number                              |
+ * | `true`, `false`, `null`      | boolean, `null`                     |
+ *
+ * Struct fields starting with `$` get an extra `$` (`.@"$x"` is `$$x`), so
+ * they cannot be mistaken for an enum literal or byte string. {@link zonToJson} writes
+ * bigints as exact JSON numbers and {@link jsonToZon} reads them back.
+ *
+ * @example Read the package version
+ * ```ts
+ * import { parseZon } from "@kjanat/dprint-zig";
+ * import { readFileSync } from "node:fs";
+ *
+ * const zon = parseZon(readFileSync("build.zig.zon", "utf8"));
+ * console.log((zon as { version: string }).version);
+ * ```
+ */
+
+import {
+  type CancellationOptions,
+  type Formatter,
+  getDefaultFormatter,
+} from "./formatter.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A ZON enum literal such as `.dprint_plugin_zig`. */
+export type ZonEnumLiteral = { $enum: string };
+
+/**
+ * A ZON string whose bytes are not valid UTF-8, such as `"\xff"`, as the
+ * lowercase hex of its bytes.
+ */
+export type ZonBytes = { $bytes: string };
+
+/** A ZON struct literal, keyed by field name. */
+export type ZonObject = { [field: string]: ZonValue };
+
+/** Any value {@link parseZon} returns and {@link stringifyZon} accepts. */
+export type ZonValue =
+  | null
+  | boolean
+  | number
+  | bigint
+  | string
+  | ZonBytes
+  | ZonEnumLiteral
+  | ZonValue[]
+  | ZonObject;
+
+/** String indices `[start, end)` of a value in ZON source. */
+export type ZonSpan = { start: number; end: number };
+
+/** Receives struct fields as {@link parse} reads them. */
+type FieldVisitor = (
+  name: string,
+  depth: number,
+  start: number,
+  end: number,
+) => void;
+
+/** Options for {@link stringifyZon} and {@link jsonToZon}. */
+export type StringifyZonOptions = CancellationOptions & {
+  /** Formatter to use. Defaults to one backed by the bundled plugin. */
+  formatter?: Formatter;
+};
+
+/** Thrown by {@link parseZon} for malformed input. */
+export class ZonParseError extends SyntaxError {
+  /** 1-based line of the error. */
+  readonly line: number;
+  /** 1-based column of the error, in UTF-8 bytes. */
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${line}:${column}: ${message}`);
+    this.name = "ZonParseError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Zig keywords, which must be quoted (`.@"test"`) as names. */
+const KEYWORDS = new Set([
+  "addrspace",
+  "align",
+  "allowzero",
+  "and",
+  "anyframe",
+  "anytype",
+  "asm",
+  "async",
+  "await",
+  "break",
+  "callconv",
+  "catch",
+  "comptime",
+  "const",
+  "continue",
+  "defer",
+  "else",
+  "enum",
+  "errdefer",
+  "error",
+  "export",
+  "extern",
+  "fn",
+  "for",
+  "if",
+  "inline",
+  "linksection",
+  "noalias",
+  "noinline",
+  "nosuspend",
+  "opaque",
+  "or",
+  "orelse",
+  "packed",
+  "pub",
+  "resume",
+  "return",
+  "struct",
+  "suspend",
+  "switch",
+  "test",
+  "threadlocal",
+  "try",
+  "union",
+  "unreachable",
+  "usingnamespace",
+  "var",
+  "volatile",
+  "while",
+]);
+
+const IDENTIFIER_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const IDENTIFIER_STICKY_RE = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER_RE =
+  /-?(?:0x[0-9a-fA-F_]+(?:\.[0-9a-fA-F_]+)?(?:[pP][-+]?[0-9_]+)?|0o[0-7_]+|0b[01_]+|[0-9][0-9_]*(?:\.[0-9][0-9_]*)?(?:[eE][-+]?[0-9_]+)?)/y;
+const JSON_NUMBER_RE = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?/y;
+// Control characters are left for `JSON.parse` to reject.
+const JSON_STRING_RE = /"(?:[^"\\]|\\.)*"/y;
+
+/** Escapes `stringifyZon` writes for special characters. */
+const ESCAPES: Record<string, string> = {
+  "\"": "\\\"",
+  "\\": "\\\\",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+};
+
+/** Characters after `\` in a ZON string or char literal. */
+const UNESCAPES: Record<string, string> = {
+  "n": "\n",
+  "r": "\r",
+  "t": "\t",
+  "\\": "\\",
+  "'": "'",
+  "\"": "\"",
+};
+
+const encoder = new TextEncoder();
+/** Throws on bytes that are not UTF-8, which are kept as {@link ZonBytes}. */
+const decoder = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/** Whether `value` is an enum literal (`{ $enum: name }` and nothing else). */
+export function isZonEnumLiteral(value: unknown): value is ZonEnumLiteral {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] === "$enum"
+    && typeof (value as ZonEnumLiteral).$enum === "string";
+}
+
+/** Whether `value` is a byte string (`{ $bytes: hex }` and nothing else). */
+export function isZonBytes(value: unknown): value is ZonBytes {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] === "$bytes"
+    && typeof (value as ZonBytes).$bytes === "string"
+    && /^(?:[0-9a-f]{2})*$/.test((value as ZonBytes).$bytes);
+}
+
+/** Object key for the field `name`: `$`-prefixed names get an extra `$`. */
+function fieldKey(name: string): string {
+  return name.startsWith("$") ? `$${name}` : name;
+}
+
+/** Field name for the object key `key` (inverse of {@link fieldKey}). */
+function fieldName(key: string): string {
+  return key.startsWith("$$") ? key.slice(1) : key;
+}
+
+/** Sets `object[key]` as an own property, even for `__proto__`. */
+function setField(object: object, key: string, value: unknown): void {
+  Object.defineProperty(object, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/** Number for an integer literal, or a bigint if it is not exactly safe. */
+function integerValue(digits: string, negative: boolean): number | bigint {
+  const value = negative ? -BigInt(digits) : BigInt(digits);
+  const number = Number(value);
+  return Number.isSafeInteger(number) ? number : value;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parses ZON `text` into plain values (see the module docs for the mapping).
+ * Comments are ignored. Throws {@link ZonParseError} for malformed input.
+ */
+export function parseZon(text: string): ZonValue {
+  return parse(text);
+}
+
+/**
+ * Finds the value of the field `name` of the top-level struct in `text`, as
+ * string indices, so it can be replaced without touching the rest of the
+ * file. Returns undefined if there is no such field. Throws
+ * {@link ZonParseError} for malformed input.
+ */
+export function findZonField(text: string, name: string): ZonSpan | undefined {
+  let span: ZonSpan | undefined;
+  parse(text, (field, depth, start, end) => {
+    if (depth === 0 && field === name) span = { start, end };
+  });
+  return span;
+}
+
+/**
+ * Parses `text`, calling `onField` with each struct field's name, its
+ * struct's nesting depth (0 for the outermost) and the span of its value.
+ */
+function parse(text: string, onField?: FieldVisitor): ZonValue {
+  let pos = 0;
+  let depth = -1;
+
+  const fail = (message: string, at: number = pos): never => {
+    const before = text.slice(0, at);
+    const lineStart = before.lastIndexOf("\n") + 1;
+    throw new ZonParseError(
+      message,
+      before.split("\n").length,
+      encoder.encode(before.slice(lineStart)).length + 1,
+    );
+  };
+
+  const skipTrivia = () => {
+    while (pos < text.length) {
+      if (" \t\r\n".includes(text[pos])) {
+        pos++;
+      } else if (text.startsWith("//", pos)) {
+        const end = text.indexOf("\n", pos);
+        pos = end === -1 ? text.length : end;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const expect = (token: string) => {
+    skipTrivia();
+    if (!text.startsWith(token, pos)) fail(`expected '${token}'`);
+    pos += token.length;
+  };
+
+  const readWord = (): string | undefined => {
+    IDENTIFIER_STICKY_RE.lastIndex = pos;
+    const word = IDENTIFIER_STICKY_RE.exec(text)?.[0];
+    if (word) pos += word.length;
+    return word;
+  };
+
+  /** Reads one escape sequence after `\`, as UTF-8 bytes. */
+  const readEscape = (): number[] => {
+    const start = pos - 1;
+    const c = text[pos++];
+    if (c in UNESCAPES) return [UNESCAPES[c].charCodeAt(0)];
+    if (c === "x" && /^[0-9a-fA-F]{2}$/.test(text.slice(pos, pos + 2))) {
+      pos += 2;
+      return [parseInt(text.slice(pos - 2, pos), 16)];
+    }
+    if (c === "u") {
+      const match = /^\{([0-9a-fA-F]{1,6})\}/.exec(text.slice(pos));
+      const code = match ? parseInt(match[1], 16) : NaN;
+      if (code <= 0x10ffff) {
+        pos += match![0].length;
+        return [...encoder.encode(String.fromCodePoint(code))];
+      }
+    }
+    return fail("invalid escape sequence", start);
+  };
+
+  const readString = (): string | ZonBytes => {
+    const start = pos++;
+    const bytes: number[] = [];
+    while (text[pos] !== "\"") {
+      if (pos >= text.length || text[pos] === "\n") {
+        fail("unterminated string", start);
+      }
+      if (text[pos] === "\\") {
+        pos++;
+        bytes.push(...readEscape());
+      } else {
+        const code = text.codePointAt(pos)!;
+        bytes.push(...encoder.encode(String.fromCodePoint(code)));
+        pos += code > 0xffff ? 2 : 1;
+      }
+    }
+    pos++;
+    try {
+      return decoder.decode(new Uint8Array(bytes));
+    } catch {
+      return {
+        $bytes: bytes.map((b) => b.toString(16).padStart(2, "0")).join(""),
+      };
+    }
+  };
+
+  const readMultilineString = (): string => {
+    const lines: string[] = [];
+    while (text.startsWith("\\\\", pos)) {
+      const end = text.indexOf("\n", pos);
+      const lineEnd = end === -1 ? text.length : end;
+      lines.push(text.slice(pos + 2, lineEnd).replace(/\r$/, ""));
+      pos = lineEnd;
+      const next = /[ \t\r\n]*/y;
+      next.lastIndex = pos;
+      const indent = next.exec(text)![0];
+      if (!text.startsWith("\\\\", pos + indent.length)) break;
+      pos += indent.length;
+    }
+    return lines.join("\n");
+  };
+
+  const readChar = (): number => {
+    const start = pos++;
+    let code: number;
+    if (text[pos] === "\\") {
+      pos++;
+      // `\xNN` is the byte itself; `\u{...}` comes back as its UTF-8 bytes.
+      const bytes = readEscape();
+      code = bytes.length === 1
+        ? bytes[0]
+        : decoder.decode(new Uint8Array(bytes)).codePointAt(0)!;
+    } else {
+      code = text.codePointAt(pos) ?? fail("unterminated character", start);
+      pos += code > 0xffff ? 2 : 1;
+    }
+    if (text[pos] !== "'") fail("expected ''' after character", start);
+    pos++;
+    return code;
+  };
+
+  const readNumber = (): number | bigint => {
+    const start = pos;
+    if (text.startsWith("-inf", pos)) {
+      pos += 4;
+      return -Infinity;
+    }
+    NUMBER_RE.lastIndex = pos;
+    const literal = NUMBER_RE.exec(text)?.[0] ?? fail("invalid number");
+    pos += literal.length;
+    if (/[A-Za-z0-9_]/.test(text[pos] ?? "")) fail("invalid number", start);
+
+    const negative = literal.startsWith("-");
+    const body = literal.slice(negative ? 1 : 0).replaceAll("_", "");
+    const sign = negative ? -1 : 1;
+    if (/^0x/.test(body) && /[.pP]/.test(body)) {
+      const [mantissa, exponent = "0"] = body.slice(2).split(/[pP]/);
+      const [whole, fraction = ""] = mantissa.split(".");
+      return sign * parseInt(whole + fraction, 16)
+        * 2 ** (Number(exponent) - 4 * fraction.length);
+    }
+    if (/^0[xob]/.test(body) || /^\d+$/.test(body)) {
+      return integerValue(body, negative);
+    }
+    return sign * Number(body);
+  };
+
+  const readName = (): string => {
+    if (text.startsWith("@\"", pos)) {
+      const start = pos++;
+      const name = readString();
+      return typeof name === "string"
+        ? name
+        : fail("name is not valid UTF-8", start);
+    }
+    return readWord() ?? fail("expected a name");
+  };
+
+  /** Whether the container at `pos` (after `.{`) is a struct literal. */
+  const isStruct = (): boolean => {
+    const start = pos;
+    try {
+      expect(".");
+      readName();
+      skipTrivia();
+      return text[pos] === "=";
+    } catch {
+      return false;
+    } finally {
+      pos = start;
+    }
+  };
+
+  const readContainer = (): ZonObject | ZonValue[] => {
+    pos += 2;
+    depth++;
+    skipTrivia();
+    const struct = isStruct() || text[pos] === "}";
+    const object: ZonObject = {};
+    const items: ZonValue[] = [];
+    while (true) {
+      skipTrivia();
+      if (text[pos] === "}") {
+        pos++;
+        depth--;
+        return struct ? object : items;
+      }
+      if (struct) {
+        const start = pos;
+        expect(".");
+        const name = readName();
+        expect("=");
+        const key = fieldKey(name);
+        if (Object.hasOwn(object, key)) {
+          fail(`duplicate field '${name}'`, start);
+        }
+        skipTrivia();
+        const valueStart = pos;
+        setField(object, key, readValue());
+        onField?.(name, depth, valueStart, pos);
+      } else {
+        items.push(readValue());
+      }
+      skipTrivia();
+      if (text[pos] === ",") pos++;
+      else if (text[pos] !== "}") fail("expected ',' or '}'");
+    }
+  };
+
+  const readValue = (): ZonValue => {
+    skipTrivia();
+    const c = text[pos];
+    if (c === "." && text[pos + 1] === "{") return readContainer();
+    if (c === ".") {
+      pos++;
+      return { $enum: readName() };
+    }
+    if (c === "\"") return readString();
+    if (c === "'") return readChar();
+    if (text.startsWith("\\\\", pos)) return readMultilineString();
+    if (c === "-" || (c >= "0" && c <= "9")) return readNumber();
+
+    const start = pos;
+    const word = readWord();
+    switch (word) {
+      case "true":
+        return true;
+      case "false":
+        return false;
+      case "null":
+        return null;
+      case "inf":
+        return Infinity;
+      case "nan":
+        return NaN;
+      case undefined:
+        return pos >= text.length
+          ? fail("unexpected end of input")
+          : fail(`unexpected character '${c}'`);
+      default:
+        return fail(`unexpected identifier '${word}'`, start);
+    }
+  };
+
+  const value = readValue();
+  skipTrivia();
+  if (pos < text.length) fail("unexpected content after value");
+  return value;
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/** ZON string literal for `text`. */
+function quoteZon(text: string): string {
+  let out = "\"";
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char in ESCAPES) out += ESCAPES[char];
+    else if (code < 0x20 || code === 0x7f) {
+      out += `\\x${code.toString(16).padStart(2, "0")}`;
+    } else out += char;
+  }
+  return `${out}"`;
+}
+
+/** ZON string literal for the bytes of `value`, escaping all but ASCII. */
+function quoteZonBytes(value: ZonBytes): string {
+  let out = "\"";
+  for (const [hex] of value.$bytes.matchAll(/../g)) {
+    const char = String.fromCharCode(parseInt(hex, 16));
+    if (char in ESCAPES) out += ESCAPES[char];
+    else if (char >= " " && char <= "~") out += char;
+    else out += `\\x${hex}`;
+  }
+  return `${out}"`;
+}
+
+/** `name` as it appears after `.`, quoted when not a plain identifier. */
+function zonName(name: string): string {
+  return IDENTIFIER_RE.test(name) && !KEYWORDS.has(name)
+    ? name
+    : `@${quoteZon(name)}`;
+}
+
+/** Unformatted ZON for `value`; containers put one entry per line. */
+function toZon(value: unknown): string {
+  if (value === null) return "null";
+  switch (typeof value) {
+    case "boolean":
+    case "bigint":
+      return String(value);
+    case "number":
+      if (Number.isNaN(value)) return "nan";
+      if (!Number.isFinite(value)) return value > 0 ? "inf" : "-inf";
+      return String(value);
+    case "string":
+      return quoteZon(value);
+    case "object": {
+      if (isZonEnumLiteral(value)) return `.${zonName(value.$enum)}`;
+      if (isZonBytes(value)) return quoteZonBytes(value);
+      const entries = Array.isArray(value)
+        ? value.map(toZon)
+        : Object.entries(value).map(([key, item]) =>
+          `.${zonName(fieldName(key))} = ${toZon(item)}`
+        );
+      return entries.length === 0
+        ? ".{}"
+        : `.{\n${entries.map((entry) => `${entry},\n`).join("")}}`;
+    }
+  }
+  throw new TypeError(`Cannot convert ${typeof value} to ZON`);
+}
+
+/**
+ * Serializes `value` as ZON, formatted by the plugin in `.zon` mode. Throws
+ * `TypeError` for values with no ZON form (functions, symbols, `undefined`).
+ */
+export function stringifyZon(
+  value: ZonValue,
+  options: StringifyZonOptions = {},
+): string {
+  const text = `${toZon(value)}\n`;
+  const formatter = options.formatter
+    ?? getDefaultFormatter();
+  const result = formatter.formatText("value.zon", text, undefined, options);
+  if (result.kind === "error") throw new Error(result.message);
+  return result.kind === "changed" ? result.text : text;
+}
+
+// =============================================================================
+// JSON Conversion
+// =============================================================================
+
+/** JSON for `value`, writing bigints as exact numbers. */
+function toJson(value: ZonValue, indent: string, depth: number): string {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new RangeError(`${toZon(value)} has no JSON representation`);
+  }
+  if (typeof value !== "object" || value === null) {
+    return JSON.stringify(value);
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item) => toJson(item, indent, depth + 1))
+    : Object.entries(value).map(([key, item]) =>
+      `${JSON.stringify(key)}:${indent ? " " : ""}${
+        toJson(item, indent, depth + 1)
+      }`
+    );
+  const [open, close] = Array.isArray(value) ? "[]" : "{}";
+  if (entries.length === 0) return open + close;
+  if (!indent) return open + entries.join(",") + close;
+  const inner = `\n${indent.repeat(depth + 1)}`;
+  return `${open}${inner}${entries.join(`,${inner}`)}\n${
+    indent.repeat(depth)
+  }${close}`;
+}
+
+/** Parses JSON `text`, reading integers past 2^53 as bigints. */
+function parseJson(text: string): ZonValue {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new SyntaxError(`${message} in JSON at position ${pos}`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && " \t\r\n".includes(text[pos])) pos++;
+  };
+
+  const readToken = (re: RegExp): string | undefined => {
+    re.lastIndex = pos;
+    const token = re.exec(text)?.[0];
+    if (token) pos += token.length;
+    return token;
+  };
+
+  const readValue = (): ZonValue => {
+    skipWhitespace();
+    const c = text[pos];
+    if (c === "{" || c === "[") {
+      pos++;
+      const object: ZonObject = {};
+      const items: ZonValue[] = [];
+      const close = c === "{" ? "}" : "]";
+      skipWhitespace();
+      if (text[pos] === close) {
+        pos++;
+        return c === "{" ? object : items;
+      }
+      while (true) {
+        if (c === "{") {
+          skipWhitespace();
+          const key = readToken(JSON_STRING_RE) ?? fail("Expected string");
+          skipWhitespace();
+          if (text[pos++] !== ":") fail("Expected ':'");
+          setField(object, JSON.parse(key), readValue());
+        } else {
+          items.push(readValue());
+        }
+        skipWhitespace();
+        const next = text[pos++];
+        if (next === close) return c === "{" ? object : items;
+        if (next !== ",") fail(`Expected ',' or '${close}'`);
+      }
+    }
+    if (c === "\"") {
+      return JSON.parse(readToken(JSON_STRING_RE) ?? fail("Bad string"));
+    }
+    const number = readToken(JSON_NUMBER_RE);
+    if (number) {
+      return /^-?\d+$/.test(number)
+        ? integerValue(number.replace("-", ""), number.startsWith("-"))
+        : Number(number);
+    }
+    for (const [word, value] of [["true", true], ["false", false]] as const) {
+      if (text.startsWith(word, pos)) {
+        pos += word.length;
+        return value;
+      }
+    }
+    if (text.startsWith("null", pos)) {
+      pos += 4;
+      return null;
+    }
+    return fail(pos >= text.length ? "Unexpected end" : "Unexpected token");
+  };
+
+  const value = readValue();
+  skipWhitespace();
+  if (pos < text.length) fail("Unexpected token");
+  return value;
+}
+
+/**
+ * Converts ZON `text` to JSON, indented by `space` spaces (0 for one line).
+ * Throws {@link ZonParseError} for malformed ZON and `RangeError` for `inf`
+ * and `nan`, which JSON cannot represent.
+ */
+export function zonToJson(text: string, space: number = 2): string {
+  return toJson(parseZon(text), " ".repeat(space), 0);
+}
+
+/**
+ * Converts JSON `text` to formatted ZON. Integers are read exactly, however
+ * large. Throws `SyntaxError` for malformed JSON.
+ */
+export function jsonToZon(
+  text: string,
+  options: StringifyZonOptions = {},
+): string {
+  return stringifyZon(parseJson(text), options);
+}
@@ -0,0 +1,224 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { readFileSync } from "node:fs";
+import { createTestFormatter, wasmTest } from "./_testing.ts";
+import {
+  findZonField,
+  isZonBytes,
+  isZonEnumLiteral,
+  jsonToZon,
+  parseZon,
+  stringifyZon,
+  ZonParseError,
+  zonToJson,
+} from "./zon.ts";
+
+const BUILD_ZIG_ZON = readFileSync(
+  new URL("../build.zig.zon", import.meta.url),
+  "utf8",
+);
+
+const SAMPLE = `.{
+    .name = .demo,
+    .version = "1.2.3",
+    .fingerprint = 0xe08d37d8804049ec, // big
+    .dependencies = .{
+        .@"zig-clap" = .{ .url = "https://x/\\x41\\u{e9}", .lazy = true },
+    },
+    .paths = .{ "build.zig", "src" },
+    .empty = .{},
+}
+`;
+
+// =============================================================================
+// parseZon tests
+// =============================================================================
+
+Deno.test("parseZon reads build.zig.zon", () => {
+  const zon = parseZon(BUILD_ZIG_ZON) as Record<string, unknown>;
+  assertEquals(zon.name, { $enum: "dprint_plugin_zig" });
+  assertEquals(typeof zon.fingerprint, "bigint");
+  assertEquals(zon.dependencies, {});
+  assertEquals((zon.paths as string[]).includes("build.zig.zon"), true);
+});
+
+Deno.test("parseZon maps literals to values", () => {
+  assertEquals(parseZon(SAMPLE), {
+    name: { $enum: "demo" },
+    version: "1.2.3",
+    fingerprint: 0xe08d37d8804049ecn,
+    dependencies: {
+      "zig-clap": { url: "https://x/Aé", lazy: true },
+    },
+    paths: ["build.zig", "src"],
+    empty: {},
+  });
+});
+
+Deno.test("parseZon reads numbers, chars and multiline strings", () => {
+  assertEquals(
+    parseZon(
+      ".{ 0x1F, 0o17, 0b101, 1_000, -42, 1.5e3, 0x1.8p1, -inf, 'a', '\\n' }",
+    ),
+    [31, 15, 5, 1000, -42, 1500, 3, -Infinity, 97, 10],
+  );
+  assertEquals(parseZon(".{ .s =\n    \\\\one\n    \\\\two\n, }"), {
+    s: "one\ntwo",
+  });
+  assertEquals(parseZon(".{ .a, .@\"b c\" }"), [
+    { $enum: "a" },
+    { $enum: "b c" },
+  ]);
+});
+
+Deno.test("parseZon keeps strings that are not UTF-8 as bytes", () => {
+  assertEquals(parseZon(".{ \"a\\xff\", \"\\xc3\\xa9\", '\\xff' }"), [
+    { $bytes: "61ff" },
+    "é",
+    255,
+  ]);
+  assertThrows(
+    () => parseZon(".{ .@\"\\xff\" = 1 }"),
+    ZonParseError,
+    "name is not valid UTF-8",
+  );
+});
+
+Deno.test("parseZon escapes fields starting with $", () => {
+  assertEquals(parseZon(".{ .@\"$enum\" = 1, .__proto__ = 2 }"), {
+    $$enum: 1,
+    ["__proto__"]: 2,
+  });
+});
+
+Deno.test("parseZon throws ZonParseError with the position", () => {
+  const err = assertThrows(
+    () => parseZon(".{\n    .a = 1,\n    .é = 2,\n}"),
+    ZonParseError,
+  );
+  assertEquals([err.line, err.column], [3, 6]);
+  assertThrows(() => parseZon(".{ .a = 1, .a = 2 }"), ZonParseError, "dup");
+  assertThrows(() => parseZon(".{ 1 2 }"), ZonParseError, "expected ','");
+  assertThrows(() => parseZon("\"open"), ZonParseError, "unterminated");
+  assertThrows(() => parseZon("1 2"), ZonParseError, "after value");
+});
+
+Deno.test("findZonField finds only top-level fields", () => {
+  const text = `.{
+    // .version = "0.0.0",
+    .dependencies = .{ .dep = .{ .version = "9.9.9" } },
+    .version = "1.2.3",
+}`;
+  const span = findZonField(text, "version");
+  assertEquals(span && text.slice(span.start, span.end), "\"1.2.3\"");
+  assertEquals(findZonField(text, "name"), undefined);
+  assertEquals(findZonField(".{ .a = 1 }", "a"), { start: 8, end: 9 });
+});
+
+Deno.test("isZonEnumLiteral requires exactly the $enum key", () => {
+  assertEquals(isZonEnumLiteral({ $enum: "a" }), true);
+  assertEquals(isZonEnumLiteral({ $enum: "a", b: 1 }), false);
+  assertEquals(isZonEnumLiteral({ $enum: 1 }), false);
+  assertEquals(isZonEnumLiteral(["a"]), false);
+});
+
+Deno.test("isZonBytes requires exactly the $bytes key with hex bytes", () => {
+  assertEquals(isZonBytes({ $bytes: "61ff" }), true);
+  assertEquals(isZonBytes({ $bytes: "" }), true);
+  assertEquals(isZonBytes({ $bytes: "6" }), false);
+  assertEquals(isZonBytes({ $bytes: "FF" }), false);
+  assertEquals(isZonBytes({ $bytes: "ff", b: 1 }), false);
+});
+
+// =============================================================================
+// stringifyZon tests
+// =============================================================================
+
+wasmTest("stringifyZon writes formatted ZON", () => {
+  assertEquals(
+    stringifyZon(parseZon(SAMPLE), { formatter: createTestFormatter() }),
+    `.{
+    .name = .demo,
+    .version = "1.2.3",
+    .fingerprint = 16180650439216220652,
+    .dependencies = .{
+        .@"zig-clap" = .{
+            .url = "https://x/Aé",
+            .lazy = true,
+        },
+    },
+    .paths = .{
+        "build.zig",
+        "src",
+    },
+    .empty = .{},
+}
+`,
+  );
+});
+
+wasmTest("stringifyZon quotes keywords and escapes strings", () => {
+  assertEquals(
+    stringifyZon(
+      { test: { $enum: "fn" }, $$x: "a\"\n\u0001", nan: NaN },
+      { formatter: createTestFormatter() },
+    ),
+    ".{\n    .@\"test\" = .@\"fn\",\n    .@\"$x\" = \"a\\\"\\n\\x01\",\n    .nan = nan,\n}\n",
+  );
+});
+
+wasmTest("stringifyZon round-trips build.zig.zon", () => {
+  const formatter = createTestFormatter();
+  const zon = parseZon(BUILD_ZIG_ZON);
+  assertEquals(parseZon(stringifyZon(zon, { formatter })), zon);
+});
+
+wasmTest("stringifyZon round-trips \\xNN bytes", () => {
+  const formatter = createTestFormatter();
+  const zon = stringifyZon({ raw: { $bytes: "22615c0aff00" } }, { formatter });
+  assertEquals(zon, ".{\n    .raw = \"\\\"a\\\\\\n\\xff\\x00\",\n}\n");
+  assertEquals(parseZon(zon), { raw: { $bytes: "22615c0aff00" } });
+});
+
+Deno.test("stringifyZon rejects values without a ZON form", () => {
+  assertThrows(
+    () => stringifyZon({ f: undefined } as never),
+    TypeError,
+    "undefined",
+  );
+});
+
+// =============================================================================
+// JSON conversion tests
+// =============================================================================
+
+Deno.test("zonToJson writes enum literals and exact big integers", () => {
+  assertEquals(
+    zonToJson(".{ .name = .demo, .fingerprint = 0xe08d37d8804049ec }", 0),
+    "{\"name\":{\"$enum\":\"demo\"},\"fingerprint\":16180650439216220652}",
+  );
+  assertEquals(
+    zonToJson(".{ .a = .{}, .b = .{ 1 } }"),
+    "{\n  \"a\": {},\n  \"b\": [\n    1\n  ]\n}",
+  );
+  assertThrows(() => zonToJson("inf"), RangeError, "inf");
+});
+
+wasmTest("jsonToZon keeps bytes that are not UTF-8", () => {
+  const json = zonToJson(".{ .raw = \"\\xff\\xfe\" }", 0);
+  assertEquals(json, "{\"raw\":{\"$bytes\":\"fffe\"}}");
+  const zon = jsonToZon(json, { formatter: createTestFormatter() });
+  assertEquals(zon, ".{\n    .raw = \"\\xff\\xfe\",\n}\n");
+});
+
+wasmTest("jsonToZon inverts zonToJson", () => {
+  const formatter = createTestFormatter();
+  const json = zonToJson(BUILD_ZIG_ZON);
+  const zon = jsonToZon(json, { formatter });
+  assertEquals(parseZon(zon), parseZon(BUILD_ZIG_ZON));
+  assertEquals(zonToJson(zon), json);
+});
+
+Deno.test("jsonToZon rejects malformed JSON", () => {
+  assertThrows(() => jsonToZon("{\"a\": 1,}"), SyntaxError, "position 8");
+  assertThrows(() => jsonToZon("[1] x"), SyntaxError);
+});